@@ -1,5 +1,5 @@
 
-import React, { useState, useCallback, useMemo, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { Header } from './components/Header';
 import { FileUpload } from './components/FileUpload';
 import { AnalysisView } from './components/AnalysisView';
@@ -7,102 +7,303 @@ import { AudioGenerator } from './components/AudioGenerator';
 import { PracticeSession } from './components/PracticeSession';
 import { CognitiveSearch } from './components/CognitiveSearch';
 import { MeetingContextConfig } from './components/MeetingContextConfig';
-import { analyzeSalesContext } from './services/geminiService';
-import { AnalysisResult, UploadedFile, MeetingContext, ThinkingLevel } from './types';
-import { ICONS } from './constants';
+import { RedactionPanel } from './components/RedactionPanel';
+import { UsagePanel } from './components/UsagePanel';
+import { DocumentViewer, ViewerTarget } from './components/DocumentViewer';
+import { BriefDiff } from './components/BriefDiff';
+import { analyzeSalesContextInStages, estimateAnalysisCost, ModelError, updateSalesContext } from './services/geminiService';
+import { ANALYSIS_SECTIONS, AnalysisPlan, fingerprintInputs, hashInputs, planAnalysis } from './services/analysisPlanner';
+import { setUsageWorkspace, subscribeToUsage } from './services/usageTracker';
+import { verifyAnalysisCitations } from './services/citationVerifier';
+import { appendUsage, createWorkspace, deleteRecording, deleteWorkspace, getWorkspace, listRecordings, listWorkspaces, saveRecording, saveWorkspace } from './services/workspaceStore';
+import { AnalysisResult, UploadedFile, MeetingContext, AnalysisRecord, SearchThread, DealWorkspace, PracticeRecording, AnalysisSection, AnalysisStage, UsageRecord } from './types';
+import { ICONS, DEFAULT_MEETING_CONTEXT } from './constants';
+
+type WorkspaceSummary = Pick<DealWorkspace, 'id' | 'name' | 'updatedAt'>;
+
+const toSummary = ({ id, name, updatedAt }: DealWorkspace): WorkspaceSummary => ({ id, name, updatedAt });
 
 const App: React.FC = () => {
   const [files, setFiles] = useState<UploadedFile[]>([]);
   const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
+  const [analyses, setAnalyses] = useState<AnalysisRecord[]>([]);
+  const [searchThreads, setSearchThreads] = useState<SearchThread[]>([]);
+  const [recordings, setRecordings] = useState<PracticeRecording[]>([]);
+  const [usage, setUsage] = useState<UsageRecord[]>([]);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  // Progress of a staged full generation, and the preview rendered while it runs
+  const [analysisStages, setAnalysisStages] = useState<AnalysisStage[] | null>(null);
+  const [stagedPreview, setStagedPreview] = useState<AnalysisResult | null>(null);
+  const [failedSections, setFailedSections] = useState<AnalysisSection[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [statusMessage, setStatusMessage] = useState("");
   const [activeTab, setActiveTab] = useState<'context' | 'strategy' | 'search' | 'practice' | 'audio'>('context');
+  const [workspaceList, setWorkspaceList] = useState<WorkspaceSummary[]>([]);
+  const [workspaceId, setWorkspaceId] = useState<string | null>(null);
+  const [viewerTarget, setViewerTarget] = useState<ViewerTarget | null>(null);
+  const [showDiff, setShowDiff] = useState(false);
+
+  // Last persisted snapshot of the active workspace (id, name, timestamps)
+  const workspaceRef = useRef<DealWorkspace | null>(null);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+
+  const [meetingContext, setMeetingContext] = useState<MeetingContext>(DEFAULT_MEETING_CONTEXT);
+
+  const loadWorkspace = useCallback((workspace: DealWorkspace) => {
+    const latest = workspace.analyses[workspace.analyses.length - 1];
+    workspaceRef.current = workspace;
+    setUsageWorkspace(workspace.id);
+    setWorkspaceId(workspace.id);
+    setFiles(workspace.files);
+    setMeetingContext({ ...DEFAULT_MEETING_CONTEXT, ...workspace.meetingContext });
+    setAnalyses(workspace.analyses);
+    setSearchThreads(workspace.searchThreads);
+    setUsage(workspace.usage);
+    setAnalysis(latest?.result || null);
+    setShowDiff(false);
+    setError(null);
+    setFailedSections([]);
+    setViewerTarget(null);
+    setActiveTab(latest ? 'strategy' : 'context');
+  }, []);
+
+  const persistWorkspace = useCallback(async (overrides: Partial<DealWorkspace> = {}) => {
+    const current = workspaceRef.current;
+    if (!current) return;
+    const saved = await saveWorkspace({ ...current, files, meetingContext, analyses, searchThreads, usage, ...overrides });
+    if (workspaceRef.current?.id === saved.id) workspaceRef.current = saved;
+    setWorkspaceList(prev => prev.map(w => w.id === saved.id ? toSummary(saved) : w));
+  }, [files, meetingContext, analyses, searchThreads, usage]);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        let stored = await listWorkspaces();
+        if (stored.length === 0) stored = [await saveWorkspace(createWorkspace('Untitled Deal', DEFAULT_MEETING_CONTEXT))];
+        setWorkspaceList(stored.map(toSummary));
+        loadWorkspace(stored[0]);
+      } catch (err) {
+        console.error("Workspace store unavailable:", err);
+      }
+    })();
+  }, [loadWorkspace]);
+
+  // Debounced autosave of the active workspace
+  useEffect(() => {
+    if (!workspaceId || workspaceRef.current?.id !== workspaceId) return;
+    const timer = setTimeout(() => { persistWorkspace().catch(console.error); }, 600);
+    return () => clearTimeout(timer);
+  }, [workspaceId, persistWorkspace]);
+
+  // Every model call lands in the usage log of the workspace it started in, even after a switch
+  useEffect(() => subscribeToUsage(record => {
+    if (!record.workspaceId || record.workspaceId === workspaceRef.current?.id) setUsage(prev => [...prev, record]);
+    else appendUsage(record.workspaceId, record).catch(console.error);
+  }), []);
+
+  // Recordings live in their own store so audio isn't rewritten on every autosave
+  useEffect(() => {
+    setRecordings([]);
+    if (!workspaceId) return;
+    let cancelled = false;
+    listRecordings(workspaceId)
+      .then(stored => { if (!cancelled) setRecordings(stored); })
+      .catch(console.error);
+    return () => { cancelled = true; };
+  }, [workspaceId]);
+
+  const switchWorkspace = async (id: string) => {
+    if (id === workspaceId || isWorkspaceLocked) return;
+    await persistWorkspace();
+    const workspace = await getWorkspace(id);
+    if (workspace) loadWorkspace(workspace);
+  };
+
+  const createNewWorkspace = async () => {
+    const name = window.prompt("Name this deal workspace", "New Deal");
+    if (!name?.trim() || isWorkspaceLocked) return;
+    await persistWorkspace();
+    const workspace = await saveWorkspace(createWorkspace(name.trim(), DEFAULT_MEETING_CONTEXT));
+    setWorkspaceList(prev => [toSummary(workspace), ...prev]);
+    loadWorkspace(workspace);
+  };
+
+  const renameWorkspace = async (name: string) => {
+    if (!workspaceRef.current || !name.trim()) return;
+    await persistWorkspace({ name: name.trim() });
+  };
+
+  const removeWorkspace = async () => {
+    if (!workspaceId || isWorkspaceLocked || !window.confirm("Delete this workspace and all of its documents and analyses?")) return;
+    await deleteWorkspace(workspaceId);
+    workspaceRef.current = null;
+    const remaining = workspaceList.filter(w => w.id !== workspaceId);
+    const next = remaining.length > 0
+      ? await getWorkspace(remaining[0].id)
+      : await saveWorkspace(createWorkspace('Untitled Deal', DEFAULT_MEETING_CONTEXT));
+    if (!next) return;
+    setWorkspaceList(remaining.length > 0 ? remaining : [toSummary(next)]);
+    loadWorkspace(next);
+  };
+
+  const saveThread = useCallback((thread: SearchThread) => {
+    setSearchThreads(prev => prev.some(t => t.id === thread.id) ? prev.map(t => t.id === thread.id ? thread : t) : [...prev, thread]);
+  }, []);
+
+  const removeThread = useCallback((id: string) => {
+    setSearchThreads(prev => prev.filter(t => t.id !== id));
+  }, []);
+
+  const recordPractice = useCallback(async (recording: Omit<PracticeRecording, 'id' | 'workspaceId'>) => {
+    if (!workspaceId) return;
+    const saved: PracticeRecording = { ...recording, id: crypto.randomUUID(), workspaceId };
+    await saveRecording(saved);
+    setRecordings(prev => [saved, ...prev]);
+  }, [workspaceId]);
 
-  // Memory Tracker: Fingerprint the state to avoid redundant re-analysis
-  const lastAnalyzedHash = useRef<string | null>(null);
-
-  const [meetingContext, setMeetingContext] = useState<MeetingContext>({
-    sellerCompany: "",
-    sellerNames: "",
-    clientCompany: "",
-    clientNames: "",
-    targetProducts: "",
-    productDomain: "",
-    meetingFocus: "",
-    persona: "Balanced",
-    thinkingLevel: "Medium",
-    temperature: 1.0,
-    answerStyles: [
-      "Executive Summary",
-      "Data-Driven Insights",
-      "Concise Answer", 
-      "Sales Points", 
-      "Anticipated Customer Questions"
-    ],
-    executiveSnapshot: "",
-    strategicKeywords: [],
-    baseSystemPrompt: ""
-  });
+  const removeRecording = useCallback(async (id: string) => {
+    await deleteRecording(id);
+    setRecordings(prev => prev.filter(r => r.id !== id));
+  }, []);
+
+  // Citation viewer sits beside the Brief and Intelligence tabs only
+  const isViewerOpen = viewerTarget !== null && (activeTab === 'strategy' || activeTab === 'search');
 
   const isAnyFileProcessing = useMemo(() => files.some(f => f.status === 'processing'), [files]);
-  const readyFilesCount = useMemo(() => files.filter(f => f.status === 'ready').length, [files]);
+  // Extraction jobs write their results into whichever workspace is loaded, so it cannot change under them
+  const isWorkspaceLocked = isAnalyzing || isAnyFileProcessing;
+
+  const readyFiles = useMemo(() => files.filter(f => f.status === 'ready'), [files]);
+  const readyFilesCount = readyFiles.length;
+  const latestRecord = analyses[analyses.length - 1];
+  const previousRecord = analyses[analyses.length - 2];
 
-  const generateStateHash = useCallback(() => {
-    const fileIds = files.map(f => `${f.name}-${f.content.length}`).join('|');
-    const ctxString = JSON.stringify(meetingContext);
-    return `${fileIds}-${ctxString}`;
-  }, [files, meetingContext]);
+  // Memory Tracker: compare per-input fingerprints so only stale sections are rebuilt
+  const currentInputs = useMemo(() => fingerprintInputs(readyFiles, meetingContext), [readyFiles, meetingContext]);
+  const pendingPlan = useMemo<AnalysisPlan>(
+    () => analysis ? planAnalysis(latestRecord?.inputs, currentInputs, latestRecord?.failedSections) : { mode: 'full', reason: 'No brief yet' },
+    [analysis, latestRecord, currentInputs]
+  );
 
-  const runAnalysis = useCallback(async () => {
-    const readyFiles = files.filter(f => f.status === 'ready');
+  const runAnalysis = useCallback(async (override?: AnalysisPlan) => {
     if (readyFiles.length === 0) {
       setError("Please ensure at least one document is ready for analysis.");
       return;
     }
 
-    const currentHash = generateStateHash();
-    
-    // REDUNDANCY CHECK: If data hasn't changed, skip expensive call and use retained results
-    if (analysis && currentHash === lastAnalyzedHash.current) {
+    const plan = override ?? pendingPlan;
+    // REDUNDANCY CHECK: If nothing the brief depends on has changed, reuse the retained result
+    if (plan.mode === 'none') {
       setActiveTab('strategy');
       return;
     }
 
+    const combine = (source: UploadedFile[]) => source.map(f => `FILE: ${f.name}\n${f.content}`).join('\n\n');
+    const filesContent = combine(plan.mode === 'merge' ? readyFiles.filter(f => plan.addedFiles.includes(f.name)) : readyFiles);
+    const { budgetPerRun } = meetingContext.costControls;
+    const estimate = estimateAnalysisCost(plan.mode === 'full' ? 'full' : 'update', filesContent, meetingContext, plan.mode === 'full' ? ANALYSIS_SECTIONS.length : plan.sections.length);
+    if (budgetPerRun > 0 && estimate !== null && estimate > budgetPerRun
+      && !window.confirm(`This run is estimated at $${estimate.toFixed(2)}, above the $${budgetPerRun.toFixed(2)} per-run budget. Run it anyway?`)) return;
+
     setIsAnalyzing(true);
     setError(null);
-    setStatusMessage("Synthesizing Intelligence Core...");
+    setFailedSections([]);
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+    setStatusMessage(
+      plan.mode === 'merge' ? `Merging ${plan.addedFiles.length} new document(s) into the brief...`
+        : plan.mode === 'sections' ? `Rebuilding ${plan.sections.length} affected section(s)...`
+        : "Synthesizing Intelligence Core..."
+    );
 
     try {
-      const combinedContent = readyFiles.map(f => `FILE: ${f.name}\n${f.content}`).join('\n\n');
-      
-      const result = await analyzeSalesContext(combinedContent, meetingContext);
-      
+      // The record id doubles as the usage run id so the panel can total this run's calls
+      const runId = crypto.randomUUID();
+      const detail = plan.mode === 'merge' ? `Merged ${plan.addedFiles.length} document(s)`
+        : plan.mode === 'sections' ? `Rebuilt ${plan.sections.length} section(s)`
+        : 'Full brief';
+      const callOptions = { signal: controller.signal, runId, detail };
+      let stages: AnalysisStage[] = [];
+      const raw = plan.mode === 'full'
+        ? await analyzeSalesContextInStages(filesContent, meetingContext, (progress, preview) => {
+            stages = progress;
+            setAnalysisStages(progress);
+            setStagedPreview(preview);
+          }, callOptions)
+        : await updateSalesContext({
+            mode: plan.mode,
+            sections: plan.sections,
+            filesContent,
+            context: meetingContext,
+            previous: analysis!,
+          }, callOptions);
+      const result = verifyAnalysisCitations(raw, readyFiles);
+      // Sections from stages that did finish are kept; the rest can be retried on their own
+      const failed = stages.filter(stage => stage.status === 'error');
+      const failedSections = failed.flatMap(stage => stage.sections);
+
+      const record: AnalysisRecord = {
+        id: runId,
+        createdAt: Date.now(),
+        inputHash: hashInputs(currentInputs),
+        inputs: currentInputs,
+        ...(plan.mode !== 'full' && latestRecord ? { baseId: latestRecord.id, regeneratedSections: plan.sections } : {}),
+        // Saved with the record so the next plan rebuilds them even after a reload
+        ...(failedSections.length > 0 ? { failedSections } : {}),
+        result,
+      };
       setAnalysis(result);
-      lastAnalyzedHash.current = currentHash;
+      setAnalyses(prev => [...prev, record]);
+      setShowDiff(!!latestRecord);
       setActiveTab('strategy');
+
+      if (failed.length > 0) {
+        setFailedSections(failedSections);
+        setError(`${failed.map(stage => stage.label).join(', ')} could not be generated: ${failed[0].error}`);
+      }
     } catch (err: any) {
-      console.error(err);
-      setError(err.message || "An unexpected error occurred during analysis.");
+      // A cancelled run leaves the previous brief in place without an error
+      if (!(err instanceof ModelError && err.kind === 'cancelled')) {
+        console.error(err);
+        setError(err.message || "An unexpected error occurred during analysis.");
+      }
     } finally {
+      analysisAbortRef.current = null;
       setIsAnalyzing(false);
       setStatusMessage("");
+      setAnalysisStages(null);
+      setStagedPreview(null);
     }
-  }, [files, meetingContext, analysis, generateStateHash]);
+  }, [readyFiles, meetingContext, analysis, pendingPlan, currentInputs, latestRecord]);
+
+  const cancelAnalysis = () => analysisAbortRef.current?.abort();
 
   const reset = () => {
+    if (!window.confirm("Remove every document, analysis and search thread from this workspace? This cannot be undone.")) return;
     setFiles([]);
     setAnalysis(null);
-    lastAnalyzedHash.current = null;
+    setAnalyses([]);
+    setSearchThreads([]);
+    setViewerTarget(null);
+    setShowDiff(false);
     setError(null);
+    setFailedSections([]);
     setActiveTab('context');
   };
 
   return (
     <div className="min-h-screen bg-slate-50 pb-20">
-      <Header />
+      <Header
+        workspaces={workspaceList}
+        activeWorkspaceId={workspaceId}
+        onSelectWorkspace={switchWorkspace}
+        onCreateWorkspace={createNewWorkspace}
+        onRenameWorkspace={renameWorkspace}
+        onDeleteWorkspace={removeWorkspace}
+        locked={isWorkspaceLocked}
+      />
       
-      <main className="max-w-6xl mx-auto px-4 pt-28">
+      <main className={`${isViewerOpen ? 'max-w-[96rem]' : 'max-w-6xl'} mx-auto px-4 pt-28 transition-[max-width]`}>
         {!analysis && !isAnalyzing ? (
           <div className="space-y-12 animate-in fade-in slide-in-from-top-4 duration-500">
             <div className="text-center space-y-4">
@@ -115,12 +316,14 @@ const App: React.FC = () => {
             </div>
 
             <MeetingContextConfig context={meetingContext} onContextChange={setMeetingContext} />
+            <RedactionPanel context={meetingContext} files={files} onContextChange={setMeetingContext} />
+            <UsagePanel context={meetingContext} usage={usage} onContextChange={setMeetingContext} />
 
             <div className="bg-white rounded-[3rem] shadow-2xl p-10 border border-slate-200">
               <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2 mb-8">
                 <ICONS.Document /> Documentary Memory Store
               </h3>
-              <FileUpload files={files} onFilesChange={setFiles} />
+              <FileUpload files={files} onFilesChange={setFiles} localOcrOnly={meetingContext.redaction.enabled} />
               
               <div className="mt-12 flex flex-col items-center gap-6">
                 {error && (
@@ -131,7 +334,7 @@ const App: React.FC = () => {
                 )}
                 <div className="flex flex-col items-center gap-4">
                   <button
-                    onClick={runAnalysis}
+                    onClick={() => runAnalysis()}
                     disabled={readyFilesCount === 0 || isAnyFileProcessing}
                     className={`
                       flex items-center gap-3 px-16 py-6 rounded-full font-black text-xl shadow-2xl transition-all
@@ -150,6 +353,8 @@ const App: React.FC = () => {
               </div>
             </div>
           </div>
+        ) : isAnalyzing && analysisStages && stagedPreview ? (
+          <AnalysisView result={stagedPreview} files={files} context={meetingContext} onOpenCitation={setViewerTarget} stages={analysisStages} onCancel={cancelAnalysis} />
         ) : isAnalyzing ? (
           <div className="flex flex-col items-center justify-center py-32 space-y-8">
             <div className="relative">
@@ -160,6 +365,7 @@ const App: React.FC = () => {
             </div>
             <div className="text-center">
               <p className="text-2xl font-bold text-slate-800 animate-pulse tracking-tight">{statusMessage}</p>
+              <button onClick={cancelAnalysis} className="mt-6 px-5 py-2.5 bg-slate-50 text-slate-500 text-[9px] font-black uppercase tracking-widest rounded-xl hover:bg-rose-50 hover:text-rose-600 transition-all border border-slate-200">Cancel</button>
             </div>
           </div>
         ) : (
@@ -173,19 +379,83 @@ const App: React.FC = () => {
                 <TabBtn active={activeTab === 'context'} onClick={() => setActiveTab('context')} icon={<ICONS.Efficiency />} label="Config" />
               </div>
               <div className="flex items-center gap-4">
-                 <div className="flex items-center gap-2 px-4 py-2 bg-emerald-50 text-emerald-600 rounded-full border border-emerald-100">
-                    <div className="w-2 h-2 bg-emerald-500 rounded-full animate-pulse"></div>
-                    <span className="text-[10px] font-black uppercase tracking-widest">Strategy Retained</span>
-                 </div>
+                 {pendingPlan.mode === 'none' ? (
+                   <div className="flex items-center gap-2 px-4 py-2 bg-emerald-50 text-emerald-600 rounded-full border border-emerald-100">
+                      <div className="w-2 h-2 bg-emerald-500 rounded-full animate-pulse"></div>
+                      <span className="text-[10px] font-black uppercase tracking-widest">Strategy Retained</span>
+                   </div>
+                 ) : (
+                   <button
+                     onClick={() => runAnalysis()}
+                     disabled={isAnyFileProcessing}
+                     title={pendingPlan.mode === 'full' ? pendingPlan.reason : undefined}
+                     className="flex items-center gap-2 px-5 py-2.5 bg-amber-50 text-amber-700 text-[9px] font-black uppercase tracking-widest rounded-xl hover:bg-amber-100 transition-all border border-amber-200 disabled:opacity-50"
+                   >
+                     <div className="w-2 h-2 bg-amber-500 rounded-full animate-pulse"></div>
+                     {pendingPlan.mode === 'merge' ? `Merge ${pendingPlan.addedFiles.length} New Doc(s)`
+                       : pendingPlan.mode === 'sections' ? `Update ${pendingPlan.sections.length} Section(s)`
+                       : 'Regenerate Brief'}
+                   </button>
+                 )}
+                 {pendingPlan.mode !== 'full' && (
+                   <button
+                     onClick={() => runAnalysis({ mode: 'full', reason: 'Full rebuild requested' })}
+                     disabled={isAnyFileProcessing}
+                     title="Rebuild every section from scratch, e.g. after changing the thinking level or temperature"
+                     className="px-5 py-2.5 bg-slate-50 text-slate-500 text-[9px] font-black uppercase tracking-widest rounded-xl hover:bg-indigo-50 hover:text-indigo-600 transition-all border border-slate-200 disabled:opacity-50"
+                   >
+                     Regenerate Full Brief
+                   </button>
+                 )}
                  <button onClick={reset} className="px-5 py-2.5 bg-slate-50 text-slate-500 text-[9px] font-black uppercase tracking-widest rounded-xl hover:bg-rose-50 hover:text-rose-600 transition-all border border-slate-200">Wipe Context</button>
               </div>
             </div>
 
-            {activeTab === 'context' && <MeetingContextConfig context={meetingContext} onContextChange={setMeetingContext} />}
-            {activeTab === 'strategy' && <AnalysisView result={analysis!} files={files} context={meetingContext} />}
-            {activeTab === 'search' && <CognitiveSearch files={files} context={meetingContext} />}
-            {activeTab === 'audio' && <AudioGenerator analysis={analysis!} />}
-            {activeTab === 'practice' && <PracticeSession analysis={analysis!} />}
+            {error && (
+              <div className="bg-rose-50 border border-rose-100 rounded-2xl px-6 py-4 text-center">
+                <p className="text-rose-600 text-sm font-bold">⚠️ Update Interrupted: <span className="font-medium text-rose-500">{error}</span></p>
+                {failedSections.length > 0 && (
+                  <button
+                    onClick={() => runAnalysis({ mode: 'sections', sections: failedSections, changedFields: [] })}
+                    className="mt-3 px-5 py-2 bg-white text-rose-600 text-[9px] font-black uppercase tracking-widest rounded-xl border border-rose-200 hover:bg-rose-600 hover:text-white transition-all"
+                  >
+                    Retry Failed Sections
+                  </button>
+                )}
+              </div>
+            )}
+
+            <div className={isViewerOpen ? 'grid grid-cols-1 xl:grid-cols-[minmax(0,1fr)_30rem] gap-8 items-start' : ''}>
+              <div className="min-w-0">
+                {activeTab === 'context' && (
+                  <div className="space-y-12">
+                    <MeetingContextConfig context={meetingContext} onContextChange={setMeetingContext} />
+                    <RedactionPanel context={meetingContext} files={files} onContextChange={setMeetingContext} />
+                    <UsagePanel context={meetingContext} usage={usage} onContextChange={setMeetingContext} />
+                    <div className="bg-white rounded-[3rem] shadow-2xl p-10 border border-slate-200">
+                      <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2 mb-8">
+                        <ICONS.Document /> Documentary Memory Store
+                      </h3>
+                      <FileUpload files={files} onFilesChange={setFiles} localOcrOnly={meetingContext.redaction.enabled} />
+                    </div>
+                  </div>
+                )}
+                {activeTab === 'strategy' && showDiff && previousRecord && latestRecord && (
+                  <div className="mb-12">
+                    <BriefDiff previous={previousRecord} current={latestRecord} onDismiss={() => setShowDiff(false)} />
+                  </div>
+                )}
+                {activeTab === 'strategy' && <AnalysisView result={analysis!} files={files} context={meetingContext} onOpenCitation={setViewerTarget} />}
+                {activeTab === 'search' && <CognitiveSearch files={files} context={meetingContext} threads={searchThreads} onSaveThread={saveThread} onDeleteThread={removeThread} onOpenCitation={setViewerTarget} />}
+                {activeTab === 'audio' && <AudioGenerator analysis={analysis!} context={meetingContext} />}
+                {activeTab === 'practice' && <PracticeSession analysis={analysis!} context={meetingContext} recordings={recordings} onRecordingComplete={recordPractice} onDeleteRecording={removeRecording} />}
+              </div>
+              {isViewerOpen && viewerTarget && (
+                <div className="xl:sticky xl:top-24 h-[calc(100vh-8rem)]">
+                  <DocumentViewer files={files} target={viewerTarget} onSelectFile={fileName => setViewerTarget({ fileName })} onClose={() => setViewerTarget(null)} />
+                </div>
+              )}
+            </div>
           </div>
         )}
       </main>
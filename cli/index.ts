@@ -0,0 +1,159 @@
+import { existsSync } from 'node:fs';
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { MeetingContext, UploadedFile } from '../types';
+import { DEFAULT_MEETING_CONTEXT } from '../constants';
+import { analyzeSalesContext } from '../services/geminiService';
+import { setProvider } from '../services/llmProvider';
+import { verifyAnalysisCitations } from '../services/citationVerifier';
+import { extractTextDocument, extractTextFromPdfDocument, fileExtension, needsOcr, openPdf, registerExtractorLibraries } from '../services/documentExtractors';
+import { buildReportPdf, reportFileName } from '../services/reportBuilder';
+import { costOf, subscribeToUsage } from '../services/usageTracker';
+
+/**
+ * Headless brief generation for one or more deal folders, e.g. overnight
+ * before a day of meetings. Each folder's documents go through the same
+ * extraction, analysis and citation checks as the app, and the brief is
+ * written as AnalysisResult JSON next to the same PDF report the brief view
+ * downloads.
+ */
+
+const USAGE = `Usage: npm run brief -- <docs-dir>... [options]
+
+Options:
+  --context <file>    MeetingContext JSON. Defaults to context.json inside each docs dir.
+  --out <dir>         Output directory (default: each docs dir)
+  --provider <id>     gemini (default, needs GEMINI_API_KEY) or mock for offline runs
+  --help              Show this message`;
+
+const MIME_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  markdown: 'text/markdown',
+  csv: 'text/csv',
+};
+
+// The untyped CommonJS builds of the libraries the browser loads from CDN script tags
+const require = createRequire(import.meta.url);
+
+// Loaded on first use so a folder of text files runs without the PDF and Word libraries
+const PARSER_MODULES: Record<string, ['pdfjsLib' | 'mammoth', string]> = {
+  pdf: ['pdfjsLib', 'pdfjs-dist/legacy/build/pdf.js'],
+  docx: ['mammoth', 'mammoth'],
+};
+
+const loadContext = async (file: string): Promise<MeetingContext> => {
+  const parsed = JSON.parse(await readFile(file, 'utf8'));
+  return { ...DEFAULT_MEETING_CONTEXT, ...parsed };
+};
+
+/** Scanned pages need the browser's canvas for OCR, so they are reported and skipped here. */
+async function extractFile(filePath: string): Promise<UploadedFile | null> {
+  const name = path.basename(filePath);
+  const extension = fileExtension(name);
+  if (PARSER_MODULES[extension]) {
+    const [library, module] = PARSER_MODULES[extension];
+    registerExtractorLibraries({ [library]: require(module) });
+  }
+  const buffer = await readFile(filePath);
+  const arrayBuffer = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+
+  if (extension === 'pdf') {
+    const pdf = await openPdf(arrayBuffer);
+    const extracted = await extractTextFromPdfDocument(pdf);
+    if (needsOcr(extracted, pdf.numPages)) {
+      console.warn(`  skipped ${name}: scanned PDF without a text layer; upload it in the app to OCR it`);
+      return null;
+    }
+    return { name, type: MIME_TYPES.pdf, status: 'ready', content: extracted.content, tables: extracted.tables };
+  }
+  const { content, tables } = await extractTextDocument(name, arrayBuffer);
+  return { name, type: MIME_TYPES[extension], status: 'ready', content, tables };
+}
+
+async function generateBrief(docsDir: string, contextFile: string | undefined, outDir: string): Promise<{ tokens: number; cost: number }> {
+  const contextPath = contextFile ?? path.join(docsDir, 'context.json');
+  const context = existsSync(contextPath) ? await loadContext(contextPath) : DEFAULT_MEETING_CONTEXT;
+  const entries = (await readdir(docsDir, { withFileTypes: true }))
+    .filter(entry => entry.isFile() && entry.name !== 'context.json')
+    .map(entry => entry.name)
+    .sort();
+
+  const files: UploadedFile[] = [];
+  for (const name of entries) {
+    if (!(fileExtension(name) in MIME_TYPES)) {
+      console.warn(`  skipped ${name}: unsupported file type`);
+      continue;
+    }
+    try {
+      const file = await extractFile(path.join(docsDir, name));
+      if (file) files.push(file);
+    } catch (err: any) {
+      console.warn(`  skipped ${name}: ${err?.message || err}`);
+    }
+  }
+  if (files.length === 0) throw new Error('No readable documents found');
+  console.log(`  extracted ${files.length} document(s)`);
+
+  const usage = { tokens: 0, cost: 0 };
+  const unsubscribe = subscribeToUsage(record => {
+    usage.tokens += record.inputTokens + record.outputTokens + record.thinkingTokens;
+    usage.cost += costOf(record, context.costControls.prices) ?? 0;
+  });
+  const filesContent = files.map(f => `FILE: ${f.name}\n${f.content}`).join('\n\n');
+  const result = await analyzeSalesContext(filesContent, context).finally(unsubscribe);
+  const verified = verifyAnalysisCitations(result, files);
+
+  await mkdir(outDir, { recursive: true });
+  const pdfName = reportFileName({ ...context, clientCompany: context.clientCompany || path.basename(path.resolve(docsDir)) });
+  const jsonPath = path.join(outDir, pdfName.replace(/\.pdf$/, '.json'));
+  await writeFile(jsonPath, JSON.stringify(verified, null, 2));
+  console.log(`  wrote ${jsonPath}`);
+
+  const { jsPDF } = require('jspdf');
+  const pdfPath = path.join(outDir, pdfName);
+  await writeFile(pdfPath, Buffer.from(buildReportPdf(jsPDF, verified, context).output('arraybuffer')));
+  console.log(`  wrote ${pdfPath}`);
+  return usage;
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      context: { type: 'string' },
+      out: { type: 'string' },
+      provider: { type: 'string', default: 'gemini' },
+      help: { type: 'boolean', default: false },
+    },
+  });
+  if (values.help || positionals.length === 0) {
+    console.log(USAGE);
+    process.exit(values.help ? 0 : 1);
+  }
+
+  if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+  setProvider(values.provider!);
+
+  const total = { tokens: 0, cost: 0 };
+  let failed = 0;
+  for (const docsDir of positionals) {
+    console.log(docsDir);
+    try {
+      const usage = await generateBrief(docsDir, values.context, values.out ?? docsDir);
+      total.tokens += usage.tokens;
+      total.cost += usage.cost;
+    } catch (err: any) {
+      failed++;
+      console.error(`  failed: ${err?.message || err}`);
+    }
+  }
+  console.log(`Done: ${positionals.length - failed}/${positionals.length} brief(s), ${total.tokens.toLocaleString()} tokens, ~$${total.cost.toFixed(2)}`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
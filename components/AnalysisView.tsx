@@ -1,13 +1,22 @@
 
 import React, { useState, useRef, useMemo } from 'react';
-import { AnalysisResult, Citation, UploadedFile, BuyerSnapshot, MeetingContext, CompetitorInsight, MatrixItem } from '../types';
+import { AnalysisResult, AnalysisSection, AnalysisStage, Citation, UploadedFile, BuyerSnapshot, MeetingContext, CompetitorInsight, MatrixItem } from '../types';
 import { ICONS } from '../constants';
+import { CitationStatusBadge } from './CitationStatusBadge';
+import { BuyingCommittee } from './BuyingCommittee';
+import { ExtractedTables } from './ExtractedTables';
+import { ViewerTarget } from './DocumentViewer';
 import { generatePitchAudio, decodeAudioData } from '../services/geminiService';
+import { buildEvidenceIndex, buildReportPdf, reportFileName } from '../services/reportBuilder';
 
 interface AnalysisViewProps {
   result: AnalysisResult;
   files: UploadedFile[];
   context: MeetingContext;
+  onOpenCitation: (target: ViewerTarget) => void;
+  // Present while a brief is still being generated; sections of unfinished stages render as placeholders
+  stages?: AnalysisStage[];
+  onCancel?: () => void;
 }
 
 const VOICES = [
@@ -59,7 +68,7 @@ const CognitiveRadarChart = ({ data, size = 320 }: { data: { label: string, valu
   );
 };
 
-const CompetitorCard = ({ comp, name }: { comp: CompetitorInsight, name: string }) => (
+const CompetitorCard: React.FC<{ comp: CompetitorInsight; name: string; onOpenEvidence: (citation: Citation) => void }> = ({ comp, name, onOpenEvidence }) => (
   <div className="p-8 rounded-[2.5rem] bg-slate-50 border border-slate-100 hover:bg-white hover:border-indigo-300 hover:shadow-2xl transition-all duration-500 group">
     <div className="flex items-center justify-between mb-6">
       <h4 className="text-xl font-black text-slate-900">{name}</h4>
@@ -87,11 +96,75 @@ const CompetitorCard = ({ comp, name }: { comp: CompetitorInsight, name: string
           </ul>
         </div>
       </div>
+      {comp.citation?.snippet && (
+        <button onClick={() => onOpenEvidence(comp.citation)} className="w-full pt-4 border-t border-slate-200 flex items-center justify-between gap-2 text-left group/ev">
+          <span className="text-[8px] font-black uppercase tracking-widest text-slate-400 group-hover/ev:text-indigo-600 flex items-center gap-1 transition-colors">
+            <ICONS.Document className="w-2.5 h-2.5" /> View Evidence
+          </span>
+          <CitationStatusBadge match={comp.citation.match} />
+        </button>
+      )}
     </div>
   </div>
 );
 
-export const AnalysisView: React.FC<AnalysisViewProps> = ({ result, files, context }) => {
+const STAGE_STYLES: Record<AnalysisStage['status'], string> = {
+  queued: 'bg-slate-50 text-slate-400 border-slate-100',
+  running: 'bg-indigo-50 text-indigo-600 border-indigo-100 animate-pulse',
+  done: 'bg-emerald-50 text-emerald-600 border-emerald-100',
+  error: 'bg-rose-50 text-rose-600 border-rose-100',
+  cancelled: 'bg-slate-50 text-slate-400 border-slate-100',
+};
+
+const StageProgress = ({ stages, onCancel }: { stages: AnalysisStage[]; onCancel?: () => void }) => {
+  const settled = stages.filter(s => s.status === 'done' || s.status === 'error').length;
+  const running = stages.find(s => s.status === 'running');
+  return (
+    <div className="bg-white rounded-[2.5rem] p-8 shadow-xl border border-slate-100 space-y-5">
+      <div className="flex items-center justify-between gap-6">
+        <p className="text-sm font-bold text-slate-800">{running ? `Generating ${running.label}...` : 'Finalizing brief...'}</p>
+        <div className="flex items-center gap-4">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Stage {Math.min(settled + 1, stages.length)} of {stages.length}</span>
+          {onCancel && (
+            <button onClick={onCancel} className="px-4 py-2 bg-slate-50 text-slate-500 text-[9px] font-black uppercase tracking-widest rounded-xl hover:bg-rose-50 hover:text-rose-600 transition-all border border-slate-200">Cancel</button>
+          )}
+        </div>
+      </div>
+      <div className="h-1.5 w-full bg-slate-100 rounded-full overflow-hidden">
+        <div className="h-full bg-indigo-500 rounded-full transition-all" style={{ width: `${Math.round((settled / stages.length) * 100)}%` }}></div>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {stages.map(stage => (
+          <span key={stage.label} title={stage.error} className={`px-3 py-1 rounded-full text-[9px] font-black uppercase tracking-widest border ${STAGE_STYLES[stage.status]}`}>
+            {stage.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const PendingSection = ({ title, stage }: { title: string; stage: AnalysisStage }) => (
+  <section className="bg-white rounded-[4rem] p-12 shadow-2xl border border-dashed border-slate-200">
+    <div className="flex items-center justify-between gap-6 mb-8">
+      <h2 className="text-3xl font-black text-slate-300">{title}</h2>
+      <span className={`px-3 py-1 rounded-full text-[9px] font-black uppercase tracking-widest border ${STAGE_STYLES[stage.status]}`}>
+        {stage.status === 'error' ? 'Stage Failed' : stage.status === 'running' ? 'Generating' : 'Queued'}
+      </span>
+    </div>
+    {stage.status === 'error' ? (
+      <p className="text-sm text-rose-500 font-medium">{stage.error}</p>
+    ) : (
+      <div className="space-y-3 animate-pulse">
+        <div className="h-3 bg-slate-100 rounded-full w-3/4"></div>
+        <div className="h-3 bg-slate-100 rounded-full w-1/2"></div>
+        <div className="h-3 bg-slate-100 rounded-full w-2/3"></div>
+      </div>
+    )}
+  </section>
+);
+
+export const AnalysisView: React.FC<AnalysisViewProps> = ({ result, files, context, onOpenCitation, stages, onCancel }) => {
   const [highlightedSnippet, setHighlightedSnippet] = useState<string | null>(null);
   const [playingAudioId, setPlayingAudioId] = useState<string | null>(null);
   const [selectedVoice, setSelectedVoice] = useState('Kore');
@@ -109,24 +182,16 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ result, files, conte
   ], [result.snapshot]);
 
   // Consolidate all evidence for the Evidence Index
-  const evidenceIndex = useMemo(() => {
-    const list: { source: string; snippet: string; category: string }[] = [];
-    
-    // Snapshot Citations
-    if (result.snapshot.roleCitation) list.push({ source: result.snapshot.roleCitation.sourceFile, snippet: result.snapshot.roleCitation.snippet, category: 'Persona' });
-    result.snapshot.priorities.forEach(p => list.push({ source: p.citation.sourceFile, snippet: p.citation.snippet, category: 'Priority' }));
-    
-    // Ground Matrix Citations
-    result.groundMatrix?.forEach(m => list.push({ source: m.evidence.sourceFile, snippet: m.evidence.snippet, category: 'Ground Fact' }));
-    
-    // Objection Handling Citations
-    result.objectionHandling.forEach(o => list.push({ source: o.citation.sourceFile, snippet: o.citation.snippet, category: 'Objection Defense' }));
-    
-    // Document Entities
-    result.documentInsights.entities.forEach(e => list.push({ source: e.citation.sourceFile, snippet: e.citation.snippet, category: 'Entity Discovery' }));
+  const evidenceIndex = useMemo(() => buildEvidenceIndex(result), [result]);
 
-    return list;
-  }, [result]);
+  const pending = (section: AnalysisSection, title: string) => {
+    const stage = stages?.find(s => s.sections.includes(section) && s.status !== 'done');
+    return stage ? <PendingSection title={title} stage={stage} /> : null;
+  };
+
+  const openCitation = (citation: Citation) => onOpenCitation({ fileName: citation.sourceFile, snippet: citation.snippet, match: citation.match });
+
+  const verifiedCount = useMemo(() => evidenceIndex.filter(ev => ev.citation.match?.status === 'verified').length, [evidenceIndex]);
 
   const playAudioForText = async (text: string, id: string) => {
     if (playingAudioId === id) { audioSourceRef.current?.stop(); setPlayingAudioId(null); return; }
@@ -134,7 +199,7 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ result, files, conte
     setPlayingAudioId(id);
     try {
       if (!audioContextRef.current) audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-      const bytes = await generatePitchAudio(text, selectedVoice);
+      const bytes = await generatePitchAudio(text, selectedVoice, context);
       if (!bytes) throw new Error();
       const buffer = await decodeAudioData(bytes, audioContextRef.current, 24000, 1);
       const source = audioContextRef.current.createBufferSource();
@@ -150,202 +215,164 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ result, files, conte
   const generateReportPDF = async () => {
     setIsExporting(true);
     try {
-      const { jsPDF } = (window as any).jspdf;
-      const doc = new jsPDF();
-      let y = 20;
-      const margin = 20;
-      const pageWidth = doc.internal.pageSize.getWidth();
-
-      const addHeader = (text: string, color = [79, 70, 229]) => {
-        doc.setFont("helvetica", "bold");
-        doc.setFontSize(16);
-        doc.setTextColor(color[0], color[1], color[2]);
-        doc.text(text, margin, y);
-        y += 10;
-        doc.setDrawColor(color[0], color[1], color[2]);
-        doc.line(margin, y - 5, pageWidth - margin, y - 5);
-        y += 5;
-      };
-
-      const addBody = (text: string, size = 10) => {
-        doc.setFont("helvetica", "normal");
-        doc.setFontSize(size);
-        doc.setTextColor(60, 60, 60);
-        const split = doc.splitTextToSize(text, pageWidth - margin * 2);
-        doc.text(split, margin, y);
-        y += split.length * (size / 2) + 5;
-        if (y > 270) { doc.addPage(); y = 20; }
-      };
-
-      // Header
-      doc.setFillColor(79, 70, 229);
-      doc.rect(0, 0, pageWidth, 40, 'F');
-      doc.setFontSize(24);
-      doc.setTextColor(255);
-      doc.text("COGNITIVE SALES STRATEGY", margin, 25);
-      doc.setFontSize(10);
-      doc.text(`SYNTHESIZED FOR: ${context.clientCompany.toUpperCase()}`, margin, 35);
-      y = 55;
-
-      // Meeting Summary
-      addHeader("MEETING SUMMARY");
-      addBody(`Client: ${context.clientCompany} (${context.clientNames})`);
-      addBody(`Seller: ${context.sellerCompany} (${context.sellerNames})`);
-      addBody(`Focus: ${context.meetingFocus}`);
-      y += 10;
-
-      // Ground Matrix
-      addHeader("COGNITIVE GROUND MATRIX");
-      result.groundMatrix.forEach(m => {
-        doc.setFont("helvetica", "bold");
-        doc.text(`[${m.category}] ${m.observation}`, margin, y);
-        y += 5;
-        addBody(`Significance: ${m.significance}`, 9);
-      });
-
-      // Psychology Section
-      doc.addPage(); y = 20;
-      addHeader("BUYER PSYCHOLOGY & METRICS");
-      addBody(`Identity: ${result.snapshot.personaIdentity}`);
-      addBody(`Decision Logic: ${result.snapshot.decisionLogic}`);
-      y += 80; // Placeholder for chart
-
-      // Competitive Hub
-      addHeader("COMPETITIVE INTELLIGENCE HUB");
-      const addComp = (c: CompetitorInsight, name: string) => {
-        doc.setFont("helvetica", "bold");
-        doc.setFontSize(12);
-        doc.setTextColor(0);
-        doc.text(`${name} - ${c.threatProfile} Threat`, margin, y);
-        y += 6;
-        addBody(`Wedge: ${c.ourWedge}`);
-      };
-      addComp(result.competitiveHub.cognigy, "COGNIGY");
-      addComp(result.competitiveHub.amelia, "AMELIA");
-
-      // Evidence Index
-      doc.addPage(); y = 20;
-      addHeader("ANALYSIS EVIDENCE INDEX");
-      evidenceIndex.slice(0, 15).forEach(ev => {
-        doc.setFont("helvetica", "italic");
-        doc.setFontSize(8);
-        doc.text(`Source: ${ev.source} (${ev.category})`, margin, y);
-        y += 4;
-        addBody(`"${ev.snippet}"`, 7);
-      });
-
-      doc.save(`Strategy-${context.clientCompany}.pdf`);
+      buildReportPdf((window as any).jspdf.jsPDF, result, context).save(reportFileName(context));
     } catch (e) { console.error(e); } finally { setIsExporting(false); }
   };
 
   return (
     <div className="space-y-12 pb-20">
-      <div className="flex justify-end">
-        <button onClick={generateReportPDF} disabled={isExporting} className="bg-indigo-600 text-white px-8 py-4 rounded-2xl font-black text-xs uppercase tracking-widest shadow-xl hover:bg-indigo-700">
-          {isExporting ? 'Generating Report...' : 'Download Strategy Report'}
-        </button>
-      </div>
+      {stages ? <StageProgress stages={stages} onCancel={onCancel} /> : (
+        <div className="flex justify-end">
+          <button onClick={generateReportPDF} disabled={isExporting} className="bg-indigo-600 text-white px-8 py-4 rounded-2xl font-black text-xs uppercase tracking-widest shadow-xl hover:bg-indigo-700">
+            {isExporting ? 'Generating Report...' : 'Download Strategy Report'}
+          </button>
+        </div>
+      )}
 
-      {/* Ground Matrix Hero Section */}
-      <section className="bg-white rounded-[4rem] p-12 shadow-2xl border border-slate-200 overflow-hidden relative">
-        <div className="absolute top-0 right-0 p-12 opacity-5"><ICONS.Shield className="w-64 h-64 text-indigo-900" /></div>
-        <div className="relative z-10">
-          <h3 className="text-[10px] font-black uppercase tracking-[0.4em] text-indigo-500 mb-2">Source Grounding</h3>
-          <h2 className="text-4xl font-black text-slate-900 mb-10">Cognitive Ground Matrix</h2>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6">
-            {result.groundMatrix.map((item, idx) => (
-              <div key={idx} className="bg-slate-50 border border-slate-100 p-8 rounded-[2.5rem] flex flex-col hover:bg-white hover:border-indigo-300 hover:shadow-xl transition-all group">
-                <span className="text-[8px] font-black uppercase tracking-widest text-indigo-500 mb-3 px-2 py-1 bg-white border border-indigo-50 rounded-full inline-block w-fit">
-                  {item.category}
-                </span>
-                <p className="text-md font-bold text-slate-900 mb-4 leading-tight group-hover:text-indigo-600 transition-colors">
-                  {item.observation}
-                </p>
-                <div className="mt-auto space-y-3">
-                   <p className="text-[10px] text-slate-500 font-medium italic leading-relaxed">
-                     “{item.significance}”
-                   </p>
-                   <div className="pt-4 border-t border-slate-200">
-                      <p className="text-[7px] font-black uppercase text-slate-400 tracking-widest mb-1 flex items-center gap-1">
-                        <ICONS.Document className="w-2 h-2" /> Evidence Source
-                      </p>
-                      <p className="text-[8px] font-bold text-slate-600 truncate">{item.evidence.sourceFile}</p>
-                   </div>
-                </div>
-              </div>
+      {result.validation && (
+        <div className="bg-amber-50 border border-amber-100 rounded-[2rem] px-8 py-6 flex flex-col md:flex-row md:items-center gap-4">
+          <div className="flex items-center gap-3 shrink-0">
+            <ICONS.Shield className="w-5 h-5 text-amber-500" />
+            <p className="text-[10px] font-black uppercase tracking-widest text-amber-600">Auto-Repaired Sections</p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {result.validation.repairedSections.map(section => (
+              <span
+                key={section}
+                title={result.validation!.repairs.filter(r => r.section === section).map(r => `${r.path}: ${r.issue}`).join('\n')}
+                className="px-3 py-1 bg-white text-amber-700 rounded-full text-[9px] font-black uppercase tracking-widest border border-amber-200"
+              >
+                {section} ({result.validation!.repairs.filter(r => r.section === section).length})
+              </span>
             ))}
           </div>
+          <p className="text-[10px] text-amber-600/80 font-medium italic md:ml-auto">Incomplete model output was filled with safe defaults. Review flagged sections.</p>
         </div>
-      </section>
+      )}
 
-      {/* Psychology Matrix */}
-      <section className="bg-white rounded-[4rem] p-12 shadow-2xl border border-slate-200">
-        <div className="flex flex-col lg:flex-row gap-16 items-center">
-          <div className="w-full lg:w-1/2">
-            <h3 className="text-[10px] font-black uppercase tracking-[0.4em] text-indigo-500 mb-2">Neural Matrix</h3>
-            <h2 className="text-4xl font-black text-slate-900 mb-6">Buyer Psychology Identity</h2>
-            <div className="space-y-6 text-slate-600 italic border-l-4 border-indigo-100 pl-6">
-              <p><strong>Persona:</strong> {result.snapshot.personaIdentity}</p>
-              <p><strong>Logic:</strong> {result.snapshot.decisionLogic}</p>
-            </div>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-8 mt-10">
-              {radarData.map((d, i) => (
-                <div key={i} className="space-y-2">
-                  <div className="flex justify-between text-[9px] font-black uppercase text-slate-400">
-                    <span>{d.label}</span>
-                    <span>{d.value}%</span>
-                  </div>
-                  <div className="h-1.5 w-full bg-slate-100 rounded-full overflow-hidden">
-                    <div className="h-full bg-indigo-500 rounded-full" style={{ width: `${d.value}%` }}></div>
+      {/* Ground Matrix Hero Section */}
+      {pending('groundMatrix', 'Cognitive Ground Matrix') ?? (
+        <section className="bg-white rounded-[4rem] p-12 shadow-2xl border border-slate-200 overflow-hidden relative">
+          <div className="absolute top-0 right-0 p-12 opacity-5"><ICONS.Shield className="w-64 h-64 text-indigo-900" /></div>
+          <div className="relative z-10">
+            <h3 className="text-[10px] font-black uppercase tracking-[0.4em] text-indigo-500 mb-2">Source Grounding</h3>
+            <h2 className="text-4xl font-black text-slate-900 mb-10">Cognitive Ground Matrix</h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6">
+              {result.groundMatrix.map((item, idx) => (
+                <div key={idx} className="bg-slate-50 border border-slate-100 p-8 rounded-[2.5rem] flex flex-col hover:bg-white hover:border-indigo-300 hover:shadow-xl transition-all group">
+                  <span className="text-[8px] font-black uppercase tracking-widest text-indigo-500 mb-3 px-2 py-1 bg-white border border-indigo-50 rounded-full inline-block w-fit">
+                    {item.category}
+                  </span>
+                  <p className="text-md font-bold text-slate-900 mb-4 leading-tight group-hover:text-indigo-600 transition-colors">
+                    {item.observation}
+                  </p>
+                  <div className="mt-auto space-y-3">
+                     <p className="text-[10px] text-slate-500 font-medium italic leading-relaxed">
+                       “{item.significance}”
+                     </p>
+                     <button onClick={() => openCitation(item.evidence)} className="w-full text-left pt-4 border-t border-slate-200 group/ev">
+                        <div className="flex items-center justify-between gap-2 mb-1">
+                          <p className="text-[7px] font-black uppercase text-slate-400 tracking-widest flex items-center gap-1 group-hover/ev:text-indigo-600 transition-colors">
+                            <ICONS.Document className="w-2 h-2" /> Evidence Source
+                          </p>
+                          <CitationStatusBadge match={item.evidence.match} />
+                        </div>
+                        <p className="text-[8px] font-bold text-slate-600 truncate">{item.evidence.sourceFile}</p>
+                     </button>
                   </div>
                 </div>
               ))}
             </div>
           </div>
-          <div className="w-full lg:w-1/2 flex justify-center">
-            <CognitiveRadarChart data={radarData} />
+        </section>
+      )}
+
+      <ExtractedTables
+        files={files}
+        summary={result.documentInsights.structure.detectedTablesSummary}
+        onOpenSource={(fileName, snippet) => onOpenCitation({ fileName, snippet })}
+      />
+
+      {/* Psychology Matrix */}
+      {pending('snapshot', 'Buyer Psychology Identity') ?? (
+        <section className="bg-white rounded-[4rem] p-12 shadow-2xl border border-slate-200">
+          <div className="flex flex-col lg:flex-row gap-16 items-center">
+            <div className="w-full lg:w-1/2">
+              <h3 className="text-[10px] font-black uppercase tracking-[0.4em] text-indigo-500 mb-2">Neural Matrix</h3>
+              <h2 className="text-4xl font-black text-slate-900 mb-6">Buyer Psychology Identity</h2>
+              <div className="space-y-6 text-slate-600 italic border-l-4 border-indigo-100 pl-6">
+                <p><strong>Persona:</strong> {result.snapshot.personaIdentity}</p>
+                <p><strong>Logic:</strong> {result.snapshot.decisionLogic}</p>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-8 mt-10">
+                {radarData.map((d, i) => (
+                  <div key={i} className="space-y-2">
+                    <div className="flex justify-between text-[9px] font-black uppercase text-slate-400">
+                      <span>{d.label}</span>
+                      <span>{d.value}%</span>
+                    </div>
+                    <div className="h-1.5 w-full bg-slate-100 rounded-full overflow-hidden">
+                      <div className="h-full bg-indigo-500 rounded-full" style={{ width: `${d.value}%` }}></div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="w-full lg:w-1/2 flex justify-center">
+              <CognitiveRadarChart data={radarData} />
+            </div>
           </div>
-        </div>
-      </section>
+        </section>
+      )}
+
+      {pending('buyingCommittee', 'Buying Committee') ?? <BuyingCommittee committee={result.buyingCommittee} onOpenEvidence={openCitation} />}
 
       {/* Competitive Hub */}
-      <section className="bg-white rounded-[4rem] p-12 shadow-2xl border border-slate-200">
-        <div className="flex items-center gap-4 mb-10">
-          <div className="p-4 bg-rose-600 text-white rounded-2xl"><ICONS.Trophy /></div>
-          <div>
-            <h2 className="text-3xl font-black text-slate-900">Competitive Intelligence Hub</h2>
-            <p className="text-sm text-slate-500">Deep-dive into inferred and explicit dynamics.</p>
+      {pending('competitiveHub', 'Competitive Intelligence Hub') ?? (
+        <section className="bg-white rounded-[4rem] p-12 shadow-2xl border border-slate-200">
+          <div className="flex items-center gap-4 mb-10">
+            <div className="p-4 bg-rose-600 text-white rounded-2xl"><ICONS.Trophy /></div>
+            <div>
+              <h2 className="text-3xl font-black text-slate-900">Competitive Intelligence Hub</h2>
+              <p className="text-sm text-slate-500">Deep-dive into inferred and explicit dynamics.</p>
+            </div>
           </div>
-        </div>
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-          <CompetitorCard comp={result.competitiveHub.cognigy} name="Cognigy" />
-          <CompetitorCard comp={result.competitiveHub.amelia} name="Amelia" />
-          {result.competitiveHub.others.map((c, i) => <CompetitorCard key={i} comp={c} name={c.name} />)}
-        </div>
-      </section>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+            {result.competitiveHub.competitors.map((c, i) => <CompetitorCard key={`roster-${i}`} comp={c} name={c.name} onOpenEvidence={openCitation} />)}
+            {result.competitiveHub.others.map((c, i) => <CompetitorCard key={`other-${i}`} comp={c} name={c.name} onOpenEvidence={openCitation} />)}
+          </div>
+        </section>
+      )}
 
       {/* Battle Drills */}
-      <section className="bg-white rounded-[4rem] p-12 shadow-2xl border border-slate-200">
-        <h2 className="text-3xl font-black text-slate-900 mb-10">Objection Defense Drills</h2>
-        <div className="space-y-6">
-          {result.objectionHandling.map((o, i) => (
-            <div key={i} className="p-8 rounded-3xl bg-slate-50 border border-slate-100 flex flex-col md:flex-row gap-8 items-center">
-              <div className="flex-1">
-                <p className="text-[10px] font-black uppercase text-rose-500 mb-1">Objection</p>
-                <p className="text-xl font-black text-slate-900 mb-4">{o.objection}</p>
-                <p className="text-sm text-slate-500 font-medium italic">“{o.realMeaning}”</p>
-              </div>
-              <div className="flex-1 bg-white p-6 rounded-2xl shadow-sm border border-indigo-50">
-                <p className="text-[10px] font-black uppercase text-indigo-500 mb-1">Defense Script</p>
-                <p className="text-md font-bold text-slate-800 leading-tight">“{o.exactWording}”</p>
-                <button onClick={() => playAudioForText(o.exactWording, `obj-${i}`)} className="mt-4 flex items-center gap-2 text-[9px] font-black uppercase text-indigo-600 hover:text-indigo-800">
-                  <ICONS.Speaker className="w-4 h-4" /> Synthesize Audio
-                </button>
+      {pending('objectionHandling', 'Objection Defense Drills') ?? (
+        <section className="bg-white rounded-[4rem] p-12 shadow-2xl border border-slate-200">
+          <h2 className="text-3xl font-black text-slate-900 mb-10">Objection Defense Drills</h2>
+          <div className="space-y-6">
+            {result.objectionHandling.map((o, i) => (
+              <div key={i} className="p-8 rounded-3xl bg-slate-50 border border-slate-100 flex flex-col md:flex-row gap-8 items-center">
+                <div className="flex-1">
+                  <p className="text-[10px] font-black uppercase text-rose-500 mb-1">Objection</p>
+                  <p className="text-xl font-black text-slate-900 mb-4">{o.objection}</p>
+                  <p className="text-sm text-slate-500 font-medium italic">“{o.realMeaning}”</p>
+                  {o.citation?.snippet && (
+                    <button onClick={() => openCitation(o.citation)} className="mt-4 flex items-center gap-2 text-[9px] font-black uppercase text-slate-400 hover:text-indigo-600 transition-colors">
+                      <ICONS.Document className="w-3 h-3" /> View Source <CitationStatusBadge match={o.citation.match} />
+                    </button>
+                  )}
+                </div>
+                <div className="flex-1 bg-white p-6 rounded-2xl shadow-sm border border-indigo-50">
+                  <p className="text-[10px] font-black uppercase text-indigo-500 mb-1">Defense Script</p>
+                  <p className="text-md font-bold text-slate-800 leading-tight">“{o.exactWording}”</p>
+                  <button onClick={() => playAudioForText(o.exactWording, `obj-${i}`)} className="mt-4 flex items-center gap-2 text-[9px] font-black uppercase text-indigo-600 hover:text-indigo-800">
+                    <ICONS.Speaker className="w-4 h-4" /> Synthesize Audio
+                  </button>
+                </div>
               </div>
-            </div>
-          ))}
-        </div>
-      </section>
+            ))}
+          </div>
+        </section>
+      )}
 
       {/* Evidence Index Table */}
       <section className="bg-slate-900 rounded-[4rem] p-12 text-white shadow-2xl relative overflow-hidden">
@@ -357,19 +384,19 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ result, files, conte
               <h2 className="text-3xl font-black">Analysis Evidence Index</h2>
             </div>
             <div className="flex items-center gap-2 px-6 py-3 bg-white/10 rounded-2xl border border-white/10">
-               <span className="text-indigo-300 font-black text-xl">{evidenceIndex.length}</span>
+               <span className="text-indigo-300 font-black text-xl">{verifiedCount}/{evidenceIndex.length}</span>
                <span className="text-[9px] font-black uppercase tracking-widest opacity-60">Verified Document Links</span>
             </div>
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
             {evidenceIndex.map((ev, i) => (
-              <div key={i} className="group bg-white/5 border border-white/10 p-8 rounded-[2.5rem] hover:bg-white/10 hover:border-indigo-500/50 transition-all">
+              <button key={i} onClick={() => { setHighlightedSnippet(ev.snippet); openCitation(ev.citation); }} className={`group text-left bg-white/5 border p-8 rounded-[2.5rem] hover:bg-white/10 hover:border-indigo-500/50 transition-all ${highlightedSnippet === ev.snippet ? 'border-indigo-500' : 'border-white/10'}`}>
                 <div className="flex items-center justify-between mb-4">
                   <span className="text-[7px] font-black uppercase tracking-widest px-2 py-1 bg-indigo-500/20 text-indigo-300 rounded-full border border-indigo-500/30">
                     {ev.category}
                   </span>
-                  <ICONS.Shield className="w-3 h-3 text-indigo-400 opacity-50" />
+                  {ev.citation.match ? <CitationStatusBadge match={ev.citation.match} dark /> : <ICONS.Shield className="w-3 h-3 text-indigo-400 opacity-50" />}
                 </div>
                 <p className="text-[11px] font-serif italic text-white/80 leading-relaxed mb-6 group-hover:text-white transition-colors">
                   “{ev.snippet.length > 150 ? ev.snippet.substring(0, 150) + '...' : ev.snippet}”
@@ -383,7 +410,7 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ result, files, conte
                       <p className="text-[9px] font-bold text-white/60 truncate">{ev.source}</p>
                    </div>
                 </div>
-              </div>
+              </button>
             ))}
           </div>
         </div>
@@ -1,10 +1,11 @@
 import React, { useState, useRef, useMemo } from 'react';
-import { AnalysisResult } from '../types';
+import { AnalysisResult, MeetingContext } from '../types';
 import { ICONS } from '../constants';
 import { generatePitchAudio, decodeAudioData, generateExplanation } from '../services/geminiService';
 
 interface AudioGeneratorProps {
   analysis: AnalysisResult;
+  context: MeetingContext;
 }
 
 const VOICES = [
@@ -16,13 +17,14 @@ const VOICES = [
 
 type BriefingTrack = 'psychology' | 'conversation' | 'objections' | 'custom';
 
-export const AudioGenerator: React.FC<AudioGeneratorProps> = ({ analysis }) => {
+export const AudioGenerator: React.FC<AudioGeneratorProps> = ({ analysis, context }) => {
   const [isGenerating, setIsGenerating] = useState(false);
   const [selectedVoice, setSelectedVoice] = useState('Kore');
   const [isPlaying, setIsPlaying] = useState(false);
   const [activeTrack, setActiveTrack] = useState<BriefingTrack>('psychology');
   const [customQuestion, setCustomQuestion] = useState("");
   const [customResponse, setCustomResponse] = useState("");
+  const [error, setError] = useState<string | null>(null);
   
   const audioContextRef = useRef<AudioContext | null>(null);
   const sourceRef = useRef<AudioBufferSourceNode | null>(null);
@@ -79,19 +81,21 @@ export const AudioGenerator: React.FC<AudioGeneratorProps> = ({ analysis }) => {
     if (!customQuestion.trim() || isGenerating) return;
     
     setIsGenerating(true);
+    setError(null);
     sourceRef.current?.stop();
     setIsPlaying(false);
     
     try {
-      const explanation = await generateExplanation(customQuestion, analysis);
+      const explanation = await generateExplanation(customQuestion, analysis, context);
       setCustomResponse(explanation);
       
-      const audioBytes = await generatePitchAudio(explanation, selectedVoice);
+      const audioBytes = await generatePitchAudio(explanation, selectedVoice, context);
       if (audioBytes) {
         await playAudio(audioBytes);
       }
-    } catch (e) {
+    } catch (e: any) {
       console.error(e);
+      setError(e.message || "The coach could not answer that question.");
     } finally {
       setIsGenerating(false);
     }
@@ -110,11 +114,15 @@ export const AudioGenerator: React.FC<AudioGeneratorProps> = ({ analysis }) => {
     }
 
     setIsGenerating(true);
-    const audioBytes = await generatePitchAudio(tracks[activeTrack].script, selectedVoice);
-    setIsGenerating(false);
-
-    if (audioBytes) {
-      playAudio(audioBytes);
+    setError(null);
+    try {
+      const audioBytes = await generatePitchAudio(tracks[activeTrack].script, selectedVoice, context);
+      if (audioBytes) playAudio(audioBytes);
+    } catch (e: any) {
+      console.error(e);
+      setError(e.message || "Audio synthesis failed.");
+    } finally {
+      setIsGenerating(false);
     }
   };
 
@@ -254,6 +262,8 @@ export const AudioGenerator: React.FC<AudioGeneratorProps> = ({ analysis }) => {
                 </div>
                 {!isGenerating && !isPlaying && <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/10 to-transparent -translate-x-full group-hover:translate-x-full transition-transform duration-1000"></div>}
               </button>
+
+              {error && <p className="text-xs text-rose-500 font-bold max-w-sm">{error}</p>}
               
               <div className="flex items-center gap-2">
                 <span className={`w-2 h-2 rounded-full ${isPlaying ? 'bg-emerald-500 animate-ping' : 'bg-slate-300'}`}></span>
@@ -0,0 +1,70 @@
+import React, { useMemo, useState } from 'react';
+import { AnalysisRecord } from '../types';
+import { ICONS } from '../constants';
+import { diffAnalysis, SECTION_LABELS } from '../services/analysisPlanner';
+
+interface BriefDiffProps {
+  previous: AnalysisRecord;
+  current: AnalysisRecord;
+  onDismiss: () => void;
+}
+
+const VISIBLE_LINES = 4;
+
+export const BriefDiff: React.FC<BriefDiffProps> = ({ previous, current, onDismiss }) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const diffs = useMemo(() => diffAnalysis(previous.result, current.result), [previous, current]);
+  const rebuilt = current.regeneratedSections;
+
+  return (
+    <div className="bg-white rounded-[2.5rem] shadow-xl border border-indigo-100 p-8 space-y-6 animate-in fade-in slide-in-from-top-4 duration-500">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-indigo-600 text-white rounded-xl"><ICONS.Sparkles className="w-4 h-4" /></div>
+          <div>
+            <h3 className="text-[11px] font-black uppercase tracking-[0.3em] text-slate-800">What Changed In This Brief</h3>
+            <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest mt-1">
+              {rebuilt ? `Incremental update · ${rebuilt.length} section(s) rebuilt` : 'Full regeneration'} · compared with {new Date(previous.createdAt).toLocaleString()}
+            </p>
+          </div>
+        </div>
+        <button onClick={onDismiss} className="text-slate-400 hover:text-rose-500 transition-colors"><ICONS.X /></button>
+      </div>
+
+      {diffs.length === 0 && <p className="text-sm text-slate-400 italic">No content changes detected.</p>}
+
+      <div className="space-y-3">
+        {diffs.map(diff => {
+          const isOpen = expanded === diff.section;
+          const added = isOpen ? diff.added : diff.added.slice(0, VISIBLE_LINES);
+          const removed = isOpen ? diff.removed : diff.removed.slice(0, VISIBLE_LINES);
+          const hidden = diff.added.length + diff.removed.length - added.length - removed.length;
+          return (
+            <div key={diff.section} className="p-5 bg-slate-50 rounded-2xl border border-slate-100 space-y-3">
+              <div className="flex items-center justify-between">
+                <span className="text-[10px] font-black uppercase tracking-widest text-slate-700">{SECTION_LABELS[diff.section]}</span>
+                <div className="flex items-center gap-2 text-[9px] font-black uppercase tracking-widest">
+                  <span className="text-emerald-600">+{diff.added.length}</span>
+                  <span className="text-rose-500">−{diff.removed.length}</span>
+                </div>
+              </div>
+              <ul className="space-y-1.5">
+                {removed.map((line, i) => (
+                  <li key={`r${i}`} className="text-[11px] leading-relaxed text-rose-600 bg-rose-50 rounded-lg px-3 py-1.5 line-through decoration-rose-300">− {line}</li>
+                ))}
+                {added.map((line, i) => (
+                  <li key={`a${i}`} className="text-[11px] leading-relaxed text-emerald-700 bg-emerald-50 rounded-lg px-3 py-1.5">+ {line}</li>
+                ))}
+              </ul>
+              {(hidden > 0 || isOpen) && (
+                <button onClick={() => setExpanded(isOpen ? null : diff.section)} className="text-[9px] font-black uppercase tracking-widest text-indigo-500 hover:text-indigo-700">
+                  {isOpen ? 'Show less' : `Show ${hidden} more`}
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { Citation, StakeholderAttitude, StakeholderInsight } from '../types';
+import { ICONS } from '../constants';
+import { CitationStatusBadge } from './CitationStatusBadge';
+
+interface BuyingCommitteeProps {
+  committee: StakeholderInsight[];
+  onOpenEvidence: (citation: Citation) => void;
+}
+
+// Left-to-right on the map, from most opposed to most supportive
+const ATTITUDE_AXIS: StakeholderAttitude[] = ['Blocker', 'Skeptic', 'Neutral', 'Supporter', 'Champion'];
+
+const ATTITUDE_STYLES: Record<StakeholderAttitude, string> = {
+  Blocker: 'bg-rose-600 text-white',
+  Skeptic: 'bg-amber-500 text-white',
+  Neutral: 'bg-slate-400 text-white',
+  Supporter: 'bg-indigo-500 text-white',
+  Champion: 'bg-emerald-500 text-white',
+};
+
+const initials = (name: string) => name.split(/\s+/).filter(Boolean).slice(0, 2).map(w => w[0].toUpperCase()).join('');
+
+export const BuyingCommittee: React.FC<BuyingCommitteeProps> = ({ committee, onOpenEvidence }) => {
+  const [selected, setSelected] = useState(0);
+  const active = committee[Math.min(selected, committee.length - 1)];
+
+  return (
+    <section className="bg-white rounded-[4rem] p-12 shadow-2xl border border-slate-200">
+      <div className="flex items-center gap-4 mb-10">
+        <div className="p-4 bg-indigo-600 text-white rounded-2xl"><ICONS.Chat /></div>
+        <div>
+          <h2 className="text-3xl font-black text-slate-900">Buying Committee</h2>
+          <p className="text-sm text-slate-500">Influence and attitude of every stakeholder in the decision.</p>
+        </div>
+      </div>
+
+      {committee.length === 0 ? (
+        <p className="text-sm text-slate-400 italic">No stakeholders identified. Add them under Config → Buying Committee and update the brief.</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-5 gap-10">
+          {/* Influence / Attitude Map */}
+          <div className="lg:col-span-2 space-y-3">
+            <div className="relative h-80 bg-slate-50 rounded-[2.5rem] border border-slate-100 overflow-hidden">
+              <div className="absolute inset-x-0 top-1/2 h-px bg-slate-200"></div>
+              <div className="absolute inset-y-0 left-1/2 w-px bg-slate-200"></div>
+              <span className="absolute top-4 left-5 text-[8px] font-black uppercase tracking-widest text-slate-300">High Influence</span>
+              <span className="absolute bottom-4 left-5 text-[8px] font-black uppercase tracking-widest text-slate-300">Low Influence</span>
+              {committee.map((s, i) => {
+                const x = 10 + (ATTITUDE_AXIS.indexOf(s.attitude) / (ATTITUDE_AXIS.length - 1)) * 80;
+                const y = 90 - (s.influence / 100) * 80;
+                return (
+                  <button
+                    key={i}
+                    onClick={() => setSelected(i)}
+                    title={`${s.name} · ${s.attitude} · influence ${s.influence}`}
+                    style={{ left: `${x}%`, top: `${y}%` }}
+                    className={`absolute -translate-x-1/2 -translate-y-1/2 w-11 h-11 rounded-2xl text-[10px] font-black flex items-center justify-center shadow-lg transition-all ${ATTITUDE_STYLES[s.attitude]} ${active === s ? 'ring-4 ring-indigo-200 scale-110' : 'hover:scale-105'}`}
+                  >
+                    {initials(s.name)}
+                  </button>
+                );
+              })}
+            </div>
+            <div className="flex justify-between px-2">
+              {ATTITUDE_AXIS.map(a => (
+                <span key={a} className="text-[8px] font-black uppercase tracking-widest text-slate-400">{a}</span>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-2 pt-4">
+              {committee.map((s, i) => (
+                <button
+                  key={i}
+                  onClick={() => setSelected(i)}
+                  className={`px-4 py-2 rounded-xl text-[10px] font-bold border transition-all ${active === s ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-100 hover:border-indigo-200'}`}
+                >
+                  {s.name}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Stakeholder Dossier */}
+          {active && (
+            <div className="lg:col-span-3 space-y-6">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <h3 className="text-2xl font-black text-slate-900">{active.name}</h3>
+                  <p className="text-sm text-slate-500 font-medium">{active.title}</p>
+                </div>
+                <div className="flex flex-col items-end gap-2 shrink-0">
+                  <span className={`px-3 py-1 rounded-full text-[9px] font-black uppercase tracking-widest ${ATTITUDE_STYLES[active.attitude]}`}>{active.attitude}</span>
+                  <span className="text-[9px] font-black uppercase tracking-widest text-slate-400">{active.committeeRole} · Influence {active.influence}</span>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-slate-600">
+                <p><strong className="text-slate-800">Decision Style:</strong> {active.snapshot.decisionStyle}</p>
+                <p><strong className="text-slate-800">Risk Tolerance:</strong> {active.snapshot.riskTolerance}</p>
+                <p className="md:col-span-2 italic border-l-4 border-indigo-100 pl-4">{active.snapshot.decisionLogic}</p>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                {[
+                  { label: 'Risk', value: active.snapshot.metrics.riskToleranceValue },
+                  { label: 'Focus', value: active.snapshot.metrics.strategicPriorityFocus },
+                  { label: 'Depth', value: active.snapshot.metrics.analyticalDepth },
+                  { label: 'Direct', value: active.snapshot.metrics.directness },
+                  { label: 'Innovation', value: active.snapshot.metrics.innovationAppetite },
+                ].map(m => (
+                  <div key={m.label} className="space-y-1">
+                    <div className="flex justify-between text-[8px] font-black uppercase text-slate-400"><span>{m.label}</span><span>{m.value}</span></div>
+                    <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden"><div className="h-full bg-indigo-500" style={{ width: `${m.value}%` }}></div></div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="space-y-2">
+                  <p className="text-[10px] font-black uppercase tracking-widest text-indigo-500">Priorities</p>
+                  {active.snapshot.priorities.map((p, i) => <p key={i} className="text-xs text-slate-700">• {p.text}</p>)}
+                </div>
+                <div className="space-y-2">
+                  <p className="text-[10px] font-black uppercase tracking-widest text-rose-500">Likely Objections</p>
+                  {active.snapshot.likelyObjections.map((o, i) => <p key={i} className="text-xs text-slate-700">• {o.text}</p>)}
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">Tailored Openers</p>
+                {active.openingLines.map((line, i) => (
+                  <div key={i} className="p-4 bg-indigo-50 rounded-2xl border border-indigo-100">
+                    <p className="text-[8px] font-black uppercase tracking-widest text-indigo-400 mb-1">{line.label}</p>
+                    <p className="text-sm font-bold text-indigo-900">“{line.text}”</p>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">Talking Points</p>
+                {active.talkingPoints.map((t, i) => <p key={i} className="text-xs text-slate-700 bg-slate-50 rounded-xl px-4 py-2 border border-slate-100">{t}</p>)}
+              </div>
+
+              {active.citation?.snippet && (
+                <button onClick={() => onOpenEvidence(active.citation)} className="flex items-center gap-2 text-[9px] font-black uppercase text-slate-400 hover:text-indigo-600 transition-colors">
+                  <ICONS.Document className="w-3 h-3" /> View Evidence <CitationStatusBadge match={active.citation.match} />
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,21 @@
+import React from 'react';
+import { CitationMatch } from '../types';
+
+const STATUS_STYLES: Record<CitationMatch['status'], { label: string; light: string; dark: string }> = {
+  verified: { label: 'Verified', light: 'bg-emerald-50 text-emerald-600 border-emerald-100', dark: 'bg-emerald-500/20 text-emerald-300 border-emerald-500/30' },
+  approximate: { label: 'Approximate', light: 'bg-amber-50 text-amber-600 border-amber-100', dark: 'bg-amber-500/20 text-amber-300 border-amber-500/30' },
+  unverified: { label: 'Unverified', light: 'bg-rose-50 text-rose-600 border-rose-100', dark: 'bg-rose-500/20 text-rose-300 border-rose-500/30' },
+};
+
+export const CitationStatusBadge = ({ match, dark }: { match?: CitationMatch; dark?: boolean }) => {
+  if (!match) return null;
+  const style = STATUS_STYLES[match.status];
+  return (
+    <span
+      title={match.status === 'verified' ? 'Exact passage found in source' : `Best match ${Math.round(match.score * 100)}% token overlap`}
+      className={`inline-flex items-center gap-1 px-2 py-1 rounded-full text-[7px] font-black uppercase tracking-widest border shrink-0 ${dark ? style.dark : style.light}`}
+    >
+      {style.label}{match.page !== null && match.status !== 'unverified' ? ` · p.${match.page}` : ''}
+    </span>
+  );
+};
@@ -1,7 +1,14 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { ICONS } from '../constants';
+import { CitationStatusBadge } from './CitationStatusBadge';
+import { ViewerTarget } from './DocumentViewer';
 import { performCognitiveSearch, generateDynamicSuggestions, CognitiveSearchResult } from '../services/geminiService';
-import { UploadedFile, MeetingContext } from '../types';
+import { verifySearchCitations } from '../services/citationVerifier';
+import { buildRetrievalIndex, searchIndex, formatChunksForPrompt } from '../services/retrieval';
+import { UploadedFile, MeetingContext, SearchThread, SearchTurn } from '../types';
+
+// Number of top-ranked chunks sent to the model per inquiry
+const RETRIEVAL_TOP_K = 8;
 
 const FormattedText: React.FC<{ text: string }> = ({ text }) => {
   const lines = text.split('\n');
@@ -50,16 +57,26 @@ const FormattedText: React.FC<{ text: string }> = ({ text }) => {
 interface CognitiveSearchProps {
   files: UploadedFile[];
   context: MeetingContext;
+  threads: SearchThread[];
+  onSaveThread: (thread: SearchThread) => void;
+  onDeleteThread: (id: string) => void;
+  onOpenCitation: (target: ViewerTarget) => void;
 }
 
-export const CognitiveSearch: React.FC<CognitiveSearchProps> = ({ files, context }) => {
+export const CognitiveSearch: React.FC<CognitiveSearchProps> = ({ files, context, threads, onSaveThread, onDeleteThread, onOpenCitation }) => {
   const [query, setQuery] = useState("");
   const [isSearching, setIsSearching] = useState(false);
-  const [result, setResult] = useState<CognitiveSearchResult | null>(null);
+  const [pendingQuestion, setPendingQuestion] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [suggestions, setSuggestions] = useState<string[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  // Only one answer is shown in full; earlier turns collapse to their summary
+  const [expandedTurnId, setExpandedTurnId] = useState<string | null>(null);
 
   const readyFiles = useMemo(() => files.filter(f => f.status === 'ready'), [files]);
+  const retrievalIndex = useMemo(() => buildRetrievalIndex(readyFiles), [readyFiles]);
+  const activeThread = threads.find(t => t.id === activeThreadId) ?? null;
+  const latestTurn = activeThread ? activeThread.turns[activeThread.turns.length - 1] : null;
 
   useEffect(() => {
     const fetchSuggestions = async () => {
@@ -74,36 +91,92 @@ export const CognitiveSearch: React.FC<CognitiveSearchProps> = ({ files, context
     fetchSuggestions();
   }, [readyFiles, context]);
 
+  const openThread = (thread: SearchThread | null) => {
+    setActiveThreadId(thread?.id ?? null);
+    setExpandedTurnId(thread ? thread.turns[thread.turns.length - 1].id : null);
+    setQuery("");
+    setError(null);
+  };
+
   const handleSearch = async (e?: React.FormEvent, customQuery?: string) => {
     e?.preventDefault();
     const activeQuery = customQuery || query;
     if (!activeQuery.trim() || isSearching) return;
 
     setIsSearching(true);
+    setPendingQuestion(activeQuery);
     setError(null);
-    setResult(null);
 
     try {
-      const combinedContent = readyFiles.map(f => `FILE: ${f.name}\n${f.content}`).join('\n\n');
-      const searchResult = await performCognitiveSearch(activeQuery, combinedContent, context);
-      setResult(searchResult);
+      const history = activeThread?.turns ?? [];
+      // Follow-ups such as "what about their security team?" rarely name the subject, so retrieval also uses the previous question
+      const retrievalQuery = latestTurn ? `${latestTurn.question} ${activeQuery}` : activeQuery;
+      const groundingChunks = formatChunksForPrompt(searchIndex(retrievalIndex, retrievalQuery, RETRIEVAL_TOP_K));
+      const searchResult = verifySearchCitations(await performCognitiveSearch({ question: activeQuery, filesContent: groundingChunks, context, history }), readyFiles);
+      const now = Date.now();
+      const turn: SearchTurn = { id: crypto.randomUUID(), createdAt: now, question: activeQuery, result: searchResult };
+      const thread: SearchThread = activeThread
+        ? { ...activeThread, updatedAt: now, turns: [...activeThread.turns, turn] }
+        : { id: crypto.randomUUID(), createdAt: now, updatedAt: now, title: activeQuery, turns: [turn] };
+      onSaveThread(thread);
+      setActiveThreadId(thread.id);
+      setExpandedTurnId(turn.id);
+      setQuery("");
     } catch (err: any) {
       setError(err.message || "Cognitive search failed to synthesize logic.");
     } finally {
       setIsSearching(false);
+      setPendingQuestion(null);
     }
   };
 
+  /** Copies the thread up to and including the turn, so a different follow-up can be explored without losing the original. */
+  const forkThread = (thread: SearchThread, turnIndex: number) => {
+    const now = Date.now();
+    const fork: SearchThread = {
+      id: crypto.randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+      title: `${thread.title} (fork)`,
+      turns: thread.turns.slice(0, turnIndex + 1),
+      forkedFrom: { threadId: thread.id, turnId: thread.turns[turnIndex].id },
+    };
+    onSaveThread(fork);
+    openThread(fork);
+  };
+
+  const deleteThread = (id: string) => {
+    onDeleteThread(id);
+    if (id === activeThreadId) openThread(null);
+  };
+
+  const forkSource = activeThread?.forkedFrom ? threads.find(t => t.id === activeThread.forkedFrom!.threadId) : undefined;
+  const savedThreads = [...threads].sort((a, b) => b.updatedAt - a.updatedAt);
+
   return (
     <div className="space-y-12 animate-in fade-in slide-in-from-bottom-4 duration-500">
       {/* Search Interface */}
       <div className="bg-white rounded-[3rem] p-12 shadow-2xl border border-slate-200">
-        <div className="flex items-center gap-4 mb-10">
-          <div className="p-4 bg-indigo-600 text-white rounded-[1.5rem] shadow-xl shadow-indigo-200"><ICONS.Search /></div>
-          <div>
-            <h2 className="text-3xl font-black text-slate-900 tracking-tight">Intelligence Inquiry</h2>
-            <p className="text-sm text-slate-500 font-medium">Querying the documentary memory for <strong>{context.clientCompany}</strong>.</p>
+        <div className="flex items-center justify-between gap-6 mb-10">
+          <div className="flex items-center gap-4 min-w-0">
+            <div className="p-4 bg-indigo-600 text-white rounded-[1.5rem] shadow-xl shadow-indigo-200"><ICONS.Search /></div>
+            <div className="min-w-0">
+              <h2 className="text-3xl font-black text-slate-900 tracking-tight">Intelligence Inquiry</h2>
+              {activeThread ? (
+                <p className="text-sm text-slate-500 font-medium truncate">
+                  Thread: <strong>{activeThread.title}</strong> · {activeThread.turns.length} turn(s)
+                  {activeThread.forkedFrom && <span className="text-slate-400"> · forked from {forkSource ? `“${forkSource.title}”` : 'a deleted thread'}</span>}
+                </p>
+              ) : (
+                <p className="text-sm text-slate-500 font-medium">Querying the documentary memory for <strong>{context.clientCompany}</strong>.</p>
+              )}
+            </div>
           </div>
+          {activeThread && (
+            <button onClick={() => openThread(null)} disabled={isSearching} className="shrink-0 px-6 py-3 rounded-2xl bg-slate-100 text-slate-600 text-[10px] font-black uppercase tracking-widest hover:bg-slate-200 transition-all disabled:opacity-50">
+              New Thread
+            </button>
+          )}
         </div>
 
         <form onSubmit={handleSearch} className="relative">
@@ -111,7 +184,7 @@ export const CognitiveSearch: React.FC<CognitiveSearchProps> = ({ files, context
             type="text" 
             value={query}
             onChange={(e) => setQuery(e.target.value)}
-            placeholder={`Ask about ${context.persona} motivations, technical gaps, or ROI targets...`}
+            placeholder={activeThread ? 'Ask a follow-up, e.g. "What about their security team?"' : `Ask about ${context.persona} motivations, technical gaps, or ROI targets...`}
             className="w-full bg-slate-50 border-2 border-slate-100 rounded-[2.5rem] px-10 py-7 text-xl focus:border-indigo-500 focus:bg-white outline-none transition-all pr-40 font-medium shadow-inner"
           />
           <button 
@@ -119,91 +192,61 @@ export const CognitiveSearch: React.FC<CognitiveSearchProps> = ({ files, context
             disabled={isSearching || !query.trim()}
             className="absolute right-4 top-4 bottom-4 px-10 rounded-[2rem] bg-indigo-600 text-white font-black uppercase tracking-widest text-[11px] hover:bg-indigo-700 transition-all shadow-lg flex items-center gap-2"
           >
-            {isSearching ? <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div> : 'Analyze'}
+            {isSearching ? <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div> : activeThread ? 'Follow Up' : 'Analyze'}
           </button>
         </form>
+        {error && <p className="mt-6 text-sm font-bold text-rose-600">{error}</p>}
       </div>
 
-      {result && (
-        <div className="space-y-12 animate-in slide-in-from-top-4 duration-700">
-          
-          {/* ARTICULAR SOUNDBITE & BRIEF SUMMARY */}
-          <div className="bg-indigo-900 rounded-[3rem] p-12 shadow-2xl relative overflow-hidden group border border-indigo-800">
-             <div className="absolute top-0 right-0 p-12 opacity-5"><ICONS.Brain className="w-48 h-48 text-white" /></div>
-             <div className="relative z-10 space-y-8">
-                <div className="space-y-4">
-                  <div className="flex items-center gap-3">
-                     <div className="w-2 h-6 bg-indigo-500 rounded-full"></div>
-                     <h4 className="text-[11px] font-black text-indigo-300 uppercase tracking-[0.4em]">Strategic Articulation: The Verbatim Hook</h4>
-                  </div>
-                  <p className="text-3xl md:text-5xl font-black text-white leading-[1.1] italic tracking-tight">
-                     “{result.articularSoundbite}”
-                  </p>
-                </div>
-                
-                <div className="pt-8 border-t border-white/10">
-                  <h5 className="text-[10px] font-black text-indigo-400 uppercase tracking-[0.3em] mb-4">Strategic Executive Briefing</h5>
-                  <p className="text-indigo-100 text-lg font-medium leading-relaxed max-w-4xl italic">
-                     {result.briefExplanation}
-                  </p>
-                </div>
-             </div>
+      {/* THREAD TURNS */}
+      {activeThread && activeThread.turns.map((turn, i) => (
+        <div key={turn.id} className="space-y-8">
+          <div className="flex items-center justify-between gap-6 px-4">
+            <div className="flex items-center gap-4 min-w-0">
+              <span className="shrink-0 w-10 h-10 rounded-full bg-slate-900 text-white text-xs font-black flex items-center justify-center">{i + 1}</span>
+              <p className="text-xl font-black text-slate-900 tracking-tight truncate">“{turn.question}”</p>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              {expandedTurnId !== turn.id && (
+                <button onClick={() => setExpandedTurnId(turn.id)} className="px-4 py-2 rounded-xl bg-indigo-50 text-indigo-600 text-[9px] font-black uppercase tracking-widest hover:bg-indigo-100 transition-all">Show Answer</button>
+              )}
+              <button onClick={() => forkThread(activeThread, i)} disabled={isSearching} title="Start a new thread from this answer" className="px-4 py-2 rounded-xl bg-slate-100 text-slate-500 text-[9px] font-black uppercase tracking-widest hover:bg-slate-200 transition-all disabled:opacity-50">Fork Here</button>
+            </div>
           </div>
+          {expandedTurnId === turn.id ? (
+            <SearchAnswer result={turn.result} context={context} onOpenCitation={onOpenCitation} />
+          ) : (
+            <button onClick={() => setExpandedTurnId(turn.id)} className="w-full p-10 text-left bg-white border border-slate-100 rounded-[2.5rem] shadow-md hover:border-indigo-200 transition-all">
+              <p className="text-lg font-bold text-slate-800 leading-relaxed italic">“{turn.result.articularSoundbite}”</p>
+              <p className="mt-4 text-sm text-slate-500 font-medium leading-relaxed">{turn.result.briefExplanation}</p>
+            </button>
+          )}
+        </div>
+      ))}
 
-          {/* PSYCHOLOGICAL MATRIX */}
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
-            <ProjectionCard label="Professional Motivator" content={result.psychologicalProjection.buyerIncentive} color="emerald" icon={<ICONS.Growth />} />
-            <ProjectionCard label="Frictional Fear" content={result.psychologicalProjection.buyerFear} color="rose" icon={<ICONS.Security />} />
-            <ProjectionCard label="Conversational Lever" content={result.psychologicalProjection.strategicLever} color="indigo" icon={<ICONS.Trophy />} />
-          </div>
+      {pendingQuestion && (
+        <div className="flex items-center gap-4 px-10 py-8 bg-white border border-dashed border-indigo-200 rounded-[2.5rem] animate-pulse">
+          <div className="w-4 h-4 border-2 border-indigo-200 border-t-indigo-600 rounded-full animate-spin"></div>
+          <p className="text-lg font-bold text-slate-600 truncate">“{pendingQuestion}”</p>
+        </div>
+      )}
 
-          {/* STRUCTURED INTELLIGENCE REPOSITORY */}
-          <div className="bg-white rounded-[4rem] p-16 shadow-2xl border border-slate-200 relative overflow-hidden">
-            <div className="flex flex-col md:flex-row md:items-center justify-between gap-8 mb-16 border-b border-slate-100 pb-12">
-               <div className="flex items-center gap-4">
-                  <div className="p-4 bg-slate-900 text-white rounded-2xl shadow-xl shadow-slate-100"><ICONS.Brain /></div>
-                  <div>
-                    <h3 className="text-[14px] font-black uppercase tracking-[0.4em] text-slate-900">Neural Intelligence Output</h3>
-                    <p className="text-xs text-slate-400 font-bold uppercase tracking-widest mt-1">Structured by: {context.persona} Strategic Styles</p>
-                  </div>
-               </div>
-               
-               <div className="flex flex-wrap gap-2 justify-end max-w-md">
-                  {context.answerStyles.map((style, i) => (
-                    <span key={i} className="px-4 py-2 bg-indigo-50 text-indigo-600 rounded-xl text-[9px] font-black uppercase tracking-widest border border-indigo-100 shadow-sm animate-in zoom-in duration-300" style={{ animationDelay: `${i * 100}ms` }}>
-                      {style}
-                    </span>
-                  ))}
-               </div>
-            </div>
-            
-            <FormattedText text={result.answer} />
-
-            {/* GROUNDING FOOTER */}
-            <div className="mt-24 pt-16 border-t border-slate-100 space-y-12">
-               <div className="flex items-center justify-between">
-                 <h5 className="text-[12px] font-black text-slate-400 uppercase tracking-[0.3em] flex items-center gap-3">
-                    <ICONS.Shield /> Source Document Grounding
-                 </h5>
-                 <span className="text-[10px] font-bold text-slate-300 italic uppercase">Citations: {result.citations.length} Verified</span>
-               </div>
-               <div className="grid grid-cols-1 md:grid-cols-2 gap-10">
-                 {result.citations.map((cit, i) => (
-                   <div key={i} className="p-10 bg-slate-50 border border-slate-100 rounded-[2.5rem] group hover:bg-white hover:border-indigo-200 transition-all shadow-sm">
-                      <p className="text-[10px] font-black text-indigo-400 uppercase tracking-widest mb-6 flex items-center gap-2">
-                        <ICONS.Document className="w-3 h-3" /> {cit.source}
-                      </p>
-                      <p className="text-md text-slate-600 leading-relaxed font-serif italic">“{cit.snippet}”</p>
-                   </div>
-                 ))}
-               </div>
-            </div>
+      {/* SUGGESTED FOLLOW-UPS */}
+      {latestTurn && !isSearching && (latestTurn.result.followUps?.length ?? 0) > 0 && (
+        <div className="space-y-6">
+          <h4 className="text-[10px] font-black uppercase tracking-[0.4em] text-slate-400 text-center">Suggested Follow-ups</h4>
+          <div className="flex flex-wrap justify-center gap-4">
+            {latestTurn.result.followUps!.map((text, i) => (
+              <button key={i} onClick={() => handleSearch(undefined, text)} className="px-8 py-4 bg-white border border-slate-100 rounded-[2rem] text-sm font-bold text-slate-700 hover:border-indigo-400 hover:text-indigo-600 hover:shadow-lg transition-all shadow-sm">
+                {text}
+              </button>
+            ))}
           </div>
         </div>
       )}
 
       {/* DYNAMIC SUGGESTIONS */}
-      {!result && !isSearching && suggestions.length > 0 && (
+      {!activeThread && !isSearching && suggestions.length > 0 && (
         <div className="space-y-6">
           <h4 className="text-[10px] font-black uppercase tracking-[0.4em] text-slate-400 text-center">Neural Suggested Inquiries</h4>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
@@ -216,10 +259,116 @@ export const CognitiveSearch: React.FC<CognitiveSearchProps> = ({ files, context
           </div>
         </div>
       )}
+
+      {/* SAVED THREADS */}
+      {!activeThread && !isSearching && savedThreads.length > 0 && (
+        <div className="space-y-6">
+          <h4 className="text-[10px] font-black uppercase tracking-[0.4em] text-slate-400 text-center">Saved Threads In This Deal</h4>
+          <div className="bg-white rounded-[2.5rem] border border-slate-100 shadow-md divide-y divide-slate-50 overflow-hidden">
+            {savedThreads.map(thread => (
+              <div key={thread.id} className="flex items-center hover:bg-indigo-50/50 transition-colors group">
+                <button onClick={() => openThread(thread)} className="flex-1 min-w-0 px-10 py-5 text-left flex items-center justify-between gap-6">
+                  <p className="text-sm font-bold text-slate-700 truncate group-hover:text-indigo-600">“{thread.title}”</p>
+                  <span className="text-[9px] font-black uppercase tracking-widest text-slate-300 shrink-0">
+                    {thread.forkedFrom && 'Fork · '}{thread.turns.length} turn(s) · {new Date(thread.updatedAt).toLocaleDateString()}
+                  </span>
+                </button>
+                <button onClick={() => deleteThread(thread.id)} title="Delete thread" className="mr-6 p-2 rounded-lg text-slate-300 hover:text-rose-500 hover:bg-rose-50 transition-all">
+                  <ICONS.X className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 };
 
+const SearchAnswer: React.FC<{ result: CognitiveSearchResult; context: MeetingContext; onOpenCitation: (target: ViewerTarget) => void }> = ({ result, context, onOpenCitation }) => (
+  <div className="space-y-12 animate-in slide-in-from-top-4 duration-700">
+    
+    {/* ARTICULAR SOUNDBITE & BRIEF SUMMARY */}
+    <div className="bg-indigo-900 rounded-[3rem] p-12 shadow-2xl relative overflow-hidden group border border-indigo-800">
+       <div className="absolute top-0 right-0 p-12 opacity-5"><ICONS.Brain className="w-48 h-48 text-white" /></div>
+       <div className="relative z-10 space-y-8">
+          <div className="space-y-4">
+            <div className="flex items-center gap-3">
+               <div className="w-2 h-6 bg-indigo-500 rounded-full"></div>
+               <h4 className="text-[11px] font-black text-indigo-300 uppercase tracking-[0.4em]">Strategic Articulation: The Verbatim Hook</h4>
+            </div>
+            <p className="text-3xl md:text-5xl font-black text-white leading-[1.1] italic tracking-tight">
+               “{result.articularSoundbite}”
+            </p>
+          </div>
+          
+          <div className="pt-8 border-t border-white/10">
+            <h5 className="text-[10px] font-black text-indigo-400 uppercase tracking-[0.3em] mb-4">Strategic Executive Briefing</h5>
+            <p className="text-indigo-100 text-lg font-medium leading-relaxed max-w-4xl italic">
+               {result.briefExplanation}
+            </p>
+          </div>
+       </div>
+    </div>
+
+    {/* PSYCHOLOGICAL MATRIX */}
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+      <ProjectionCard label="Professional Motivator" content={result.psychologicalProjection.buyerIncentive} color="emerald" icon={<ICONS.Growth />} />
+      <ProjectionCard label="Frictional Fear" content={result.psychologicalProjection.buyerFear} color="rose" icon={<ICONS.Security />} />
+      <ProjectionCard label="Conversational Lever" content={result.psychologicalProjection.strategicLever} color="indigo" icon={<ICONS.Trophy />} />
+    </div>
+
+    {/* STRUCTURED INTELLIGENCE REPOSITORY */}
+    <div className="bg-white rounded-[4rem] p-16 shadow-2xl border border-slate-200 relative overflow-hidden">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-8 mb-16 border-b border-slate-100 pb-12">
+         <div className="flex items-center gap-4">
+            <div className="p-4 bg-slate-900 text-white rounded-2xl shadow-xl shadow-slate-100"><ICONS.Brain /></div>
+            <div>
+              <h3 className="text-[14px] font-black uppercase tracking-[0.4em] text-slate-900">Neural Intelligence Output</h3>
+              <p className="text-xs text-slate-400 font-bold uppercase tracking-widest mt-1">Structured by: {context.persona} Strategic Styles</p>
+            </div>
+         </div>
+         
+         <div className="flex flex-wrap gap-2 justify-end max-w-md">
+            {context.answerStyles.map((style, i) => (
+              <span key={i} className="px-4 py-2 bg-indigo-50 text-indigo-600 rounded-xl text-[9px] font-black uppercase tracking-widest border border-indigo-100 shadow-sm animate-in zoom-in duration-300" style={{ animationDelay: `${i * 100}ms` }}>
+                {style}
+              </span>
+            ))}
+         </div>
+      </div>
+      
+      <FormattedText text={result.answer} />
+
+      {/* GROUNDING FOOTER */}
+      <div className="mt-24 pt-16 border-t border-slate-100 space-y-12">
+         <div className="flex items-center justify-between">
+           <h5 className="text-[12px] font-black text-slate-400 uppercase tracking-[0.3em] flex items-center gap-3">
+              <ICONS.Shield /> Source Document Grounding
+           </h5>
+           <span className="text-[10px] font-bold text-slate-300 italic uppercase">Citations: {result.citations.filter(c => c.match?.status === 'verified').length} of {result.citations.length} Verified</span>
+         </div>
+         <div className="grid grid-cols-1 md:grid-cols-2 gap-10">
+           {result.citations.map((cit, i) => (
+             <button key={i} onClick={() => onOpenCitation({ fileName: cit.source, snippet: cit.snippet, match: cit.match })} className="p-10 text-left bg-slate-50 border border-slate-100 rounded-[2.5rem] group hover:bg-white hover:border-indigo-200 transition-all shadow-sm">
+                <div className="flex items-center justify-between gap-4 mb-6">
+                  <p className="text-[10px] font-black text-indigo-400 uppercase tracking-widest flex items-center gap-2 truncate">
+                    <ICONS.Document className="w-3 h-3" /> {cit.source}
+                  </p>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {cit.chunkId && <span className="text-[8px] font-black text-slate-400 uppercase tracking-widest px-2 py-1 bg-white border border-slate-100 rounded-full">{cit.chunkId.split('::').slice(1).join(' · ')}</span>}
+                    <CitationStatusBadge match={cit.match} />
+                  </div>
+                </div>
+                <p className="text-md text-slate-600 leading-relaxed font-serif italic">“{cit.snippet}”</p>
+             </button>
+           ))}
+         </div>
+      </div>
+    </div>
+  </div>
+);
+
 const ProjectionCard = ({ label, content, color, icon }: { label: string; content: string; color: string; icon: React.ReactNode }) => (
   <div className={`p-12 rounded-[3.5rem] bg-white border border-slate-100 shadow-xl border-t-8 border-t-${color}-500 hover:-translate-y-2 transition-transform duration-500 group`}>
     <div className="flex items-center gap-5 mb-8">
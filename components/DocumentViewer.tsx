@@ -0,0 +1,118 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { CitationMatch, UploadedFile } from '../types';
+import { ICONS } from '../constants';
+import { CitationStatusBadge } from './CitationStatusBadge';
+import { locateCitation } from '../services/citationVerifier';
+
+export interface ViewerTarget {
+  fileName: string;
+  snippet?: string;
+  match?: CitationMatch;
+}
+
+interface DocumentViewerProps {
+  files: UploadedFile[];
+  target: ViewerTarget;
+  onSelectFile: (fileName: string) => void;
+  onClose: () => void;
+}
+
+interface PageBlock {
+  page: number | null;
+  start: number;
+  end: number;
+}
+
+const PAGE_MARKER = /--- PAGE (\d+) ---\n?/g;
+
+/** Splits extracted text on OCR page markers, keeping offsets into the original content. */
+const splitPages = (content: string): PageBlock[] => {
+  const blocks: PageBlock[] = [];
+  let cursor = 0;
+  let page: number | null = null;
+  PAGE_MARKER.lastIndex = 0;
+  let m: RegExpExecArray | null;
+  while ((m = PAGE_MARKER.exec(content))) {
+    if (m.index > cursor && content.slice(cursor, m.index).trim()) blocks.push({ page, start: cursor, end: m.index });
+    page = parseInt(m[1], 10);
+    cursor = m.index + m[0].length;
+  }
+  if (cursor < content.length) blocks.push({ page, start: cursor, end: content.length });
+  return blocks;
+};
+
+export const DocumentViewer: React.FC<DocumentViewerProps> = ({ files, target, onSelectFile, onClose }) => {
+  const highlightRef = useRef<HTMLElement | null>(null);
+  const readyFiles = useMemo(() => files.filter(f => f.status === 'ready'), [files]);
+
+  // Citations persisted before verification existed are located on demand
+  const match = useMemo(() => {
+    if (target.match) return target.match;
+    if (!target.snippet) return undefined;
+    return locateCitation(target.snippet, target.fileName, readyFiles);
+  }, [target, readyFiles]);
+
+  const activeName = match?.fileName && match.status !== 'unverified' ? match.fileName : target.fileName;
+  const file = readyFiles.find(f => f.name === activeName) || readyFiles.find(f => f.name === target.fileName) || readyFiles[0];
+  const highlight = match && match.status !== 'unverified' && file && match.fileName === file.name ? match : null;
+  const pages = useMemo(() => (file ? splitPages(file.content) : []), [file]);
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [file, highlight?.start, highlight?.end]);
+
+  const renderBlock = (block: PageBlock) => {
+    const content = file!.content;
+    if (!highlight || highlight.end <= block.start || highlight.start >= block.end) return content.slice(block.start, block.end);
+    const hs = Math.max(block.start, highlight.start);
+    const he = Math.min(block.end, highlight.end);
+    return (
+      <>
+        {content.slice(block.start, hs)}
+        <mark ref={el => { if (hs === highlight.start) highlightRef.current = el; }} className="bg-indigo-200 text-slate-900 rounded px-0.5 ring-2 ring-indigo-400">{content.slice(hs, he)}</mark>
+        {content.slice(he, block.end)}
+      </>
+    );
+  };
+
+  return (
+    <aside className="bg-white rounded-[2.5rem] shadow-2xl border border-slate-200 flex flex-col overflow-hidden h-full animate-in fade-in slide-in-from-right-4 duration-300">
+      <div className="px-8 py-6 border-b border-slate-100 space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-indigo-600 text-white rounded-xl"><ICONS.Document className="w-4 h-4" /></div>
+            <h3 className="text-[11px] font-black uppercase tracking-[0.3em] text-slate-800">Source Document</h3>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-rose-500 transition-colors"><ICONS.X /></button>
+        </div>
+        <div className="flex items-center gap-3">
+          <select
+            value={file?.name || ''}
+            onChange={e => onSelectFile(e.target.value)}
+            className="flex-1 min-w-0 bg-slate-50 border border-slate-100 rounded-xl px-4 py-2 text-xs font-bold text-slate-700 outline-none"
+          >
+            {readyFiles.map(f => <option key={f.name} value={f.name}>{f.name}</option>)}
+          </select>
+          {match && file?.name === activeName && <CitationStatusBadge match={match} />}
+        </div>
+        {match?.status === 'unverified' && (
+          <p className="text-[10px] text-rose-500 font-bold italic">This snippet could not be located in any uploaded document. Treat it as unsupported.</p>
+        )}
+      </div>
+      <div className="flex-1 overflow-y-auto px-8 py-6 space-y-8 custom-scrollbar">
+        {!file && <p className="text-sm text-slate-400 italic">No extracted documents available.</p>}
+        {pages.map((block, i) => (
+          <section key={i} className="space-y-3">
+            {block.page !== null && (
+              <div className="flex items-center gap-3 sticky top-0 bg-white/90 backdrop-blur py-1">
+                <span className="text-[9px] font-black uppercase tracking-widest text-indigo-500">Page {block.page}</span>
+                <div className="flex-1 h-px bg-slate-100"></div>
+              </div>
+            )}
+            <p className="text-[12px] text-slate-600 leading-relaxed font-serif whitespace-pre-wrap">{renderBlock(block)}</p>
+          </section>
+        ))}
+      </div>
+    </aside>
+  );
+};
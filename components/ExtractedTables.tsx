@@ -0,0 +1,72 @@
+import React, { useMemo, useState } from 'react';
+import { ExtractedTable, UploadedFile } from '../types';
+import { ICONS } from '../constants';
+
+interface ExtractedTablesProps {
+  files: UploadedFile[];
+  summary: string;
+  onOpenSource: (fileName: string, snippet: string) => void;
+}
+
+export const ExtractedTables: React.FC<ExtractedTablesProps> = ({ files, summary, onOpenSource }) => {
+  const tables = useMemo(
+    () => files.flatMap(f => (f.tables || []).map(table => ({ fileName: f.name, table }))),
+    [files]
+  );
+  const [selected, setSelected] = useState(0);
+  const active = tables[Math.min(selected, tables.length - 1)];
+
+  if (!active) return null;
+
+  // The caption line is unique within a file, so the viewer can jump straight to it
+  const openTable = (fileName: string, table: ExtractedTable) => onOpenSource(fileName, `[${table.label}]`);
+
+  return (
+    <section className="bg-white rounded-[4rem] p-12 shadow-2xl border border-slate-200">
+      <div className="flex items-center gap-4 mb-8">
+        <div className="p-4 bg-indigo-600 text-white rounded-2xl"><ICONS.Document /></div>
+        <div>
+          <h2 className="text-3xl font-black text-slate-900">Extracted Tables</h2>
+          <p className="text-sm text-slate-500">Exact figures recovered from the source documents.</p>
+        </div>
+      </div>
+
+      {summary && <p className="text-sm text-slate-600 italic border-l-4 border-indigo-100 pl-4 mb-8">{summary}</p>}
+
+      <div className="space-y-6">
+        <div className="flex flex-wrap gap-2">
+          {tables.map(({ fileName, table }, i) => (
+            <button
+              key={`${fileName}-${table.label}`}
+              onClick={() => setSelected(i)}
+              className={`px-4 py-2 rounded-xl text-[10px] font-bold border transition-all ${active.table === table ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-100 hover:border-indigo-200'}`}
+            >
+              {fileName} · {table.label}{table.page !== null ? ` · p${table.page}` : ''}
+            </button>
+          ))}
+        </div>
+        <div className="overflow-x-auto rounded-[2rem] border border-slate-100">
+          <table className="w-full text-left text-xs">
+            <thead className="bg-slate-50">
+              <tr>
+                {active.table.headers.map((h, i) => (
+                  <th key={i} className="px-4 py-3 text-[9px] font-black uppercase tracking-widest text-slate-500">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {active.table.rows.map((row, r) => (
+                <tr key={r} className="border-t border-slate-100">
+                  {row.map((cell, c) => <td key={c} className="px-4 py-3 text-slate-700 font-medium">{cell}</td>)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <button onClick={() => openTable(active.fileName, active.table)} className="flex items-center gap-2 text-[9px] font-black uppercase text-slate-400 hover:text-indigo-600 transition-colors">
+          <ICONS.Document className="w-3 h-3" /> View In Source
+        </button>
+      </div>
+    </section>
+  );
+};
@@ -1,26 +1,39 @@
 
-import React, { useRef, useState } from 'react';
-import { UploadedFile } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { JobStatus, OcrEngine, OcrPageResult, ProcessingJob, UploadedFile } from '../types';
 import { ICONS } from '../constants';
-import { performVisionOcr } from '../services/geminiService';
+import { OCR_ENGINES, recognizePage, terminateLocalOcr } from '../services/ocrEngine';
+import { JobContext, processingQueue } from '../services/processingQueue';
+import { ExtractedDocument, extractTextDocument, extractTextFromPdfDocument, fileExtension, needsOcr, openPdf } from '../services/documentExtractors';
+import { CallOptions } from '../services/geminiService';
 
-declare global {
-  interface Window {
-    mammoth: any;
-    pdfjsLib: any;
-  }
-}
+const PAGE_STATUS_STYLES: Record<JobStatus, string> = {
+  queued: 'bg-slate-200',
+  running: 'bg-indigo-400 animate-pulse',
+  done: 'bg-emerald-400',
+  error: 'bg-rose-500 cursor-pointer hover:scale-125',
+  cancelled: 'bg-amber-300',
+};
 
 interface FileUploadProps {
   // Fixed: Changed onFilesChange type to support React state action updates
   onFilesChange: React.Dispatch<React.SetStateAction<UploadedFile[]>>;
   files: UploadedFile[];
+  // Redaction can't mask page images, so scans must not be sent to the vision model
+  localOcrOnly?: boolean;
 }
 
-export const FileUpload: React.FC<FileUploadProps> = ({ onFilesChange, files }) => {
+export const FileUpload: React.FC<FileUploadProps> = ({ onFilesChange, files, localOcrOnly = false }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [ocrProgress, setOcrProgress] = useState<number>(0);
-  const [isCognitiveOcr, setIsCognitiveOcr] = useState<boolean>(false);
+  const [selectedEngine, setOcrEngine] = useState<OcrEngine>('vision');
+  const ocrEngine: OcrEngine = localOcrOnly ? 'local' : selectedEngine;
+  const [jobs, setJobs] = useState<ProcessingJob[]>([]);
+
+  useEffect(() => processingQueue.subscribe(next => {
+    setJobs(next);
+    // The Tesseract worker holds its language model in memory; free it once the queue drains
+    if (!next.some(j => j.status === 'queued' || j.status === 'running')) terminateLocalOcr();
+  }), []);
 
   /**
    * High-Precision Cognitive Image Preprocessing.
@@ -98,100 +111,140 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFilesChange, files })
     ctx.putImageData(output, 0, 0);
   };
 
-  const extractTextFromPdf = async (arrayBuffer: ArrayBuffer, fileName: string): Promise<string> => {
-    const pdfjsLib = window.pdfjsLib;
-    const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer });
-    const pdf = await loadingTask.promise;
-    let fullText = "";
-    
-    for (let i = 1; i <= pdf.numPages; i++) {
-      const page = await pdf.getPage(i);
-      const textContent = await page.getTextContent();
-      fullText += textContent.items.map((item: any) => item.str).join(" ") + "\n";
-    }
+  const renderPdfPage = async (pdf: any, pageNumber: number): Promise<HTMLCanvasElement> => {
+    const page = await pdf.getPage(pageNumber);
+    const viewport = page.getViewport({ scale: 4.0 }); // Ultra-HD 4.0x Scale
+    const canvas = document.createElement('canvas');
+    canvas.height = viewport.height;
+    canvas.width = viewport.width;
+    await page.render({ canvasContext: canvas.getContext('2d'), viewport }).promise;
+    preprocessCanvas(canvas);
+    return canvas;
+  };
+
+  const extractTextFromPdf = async (arrayBuffer: ArrayBuffer, engine: OcrEngine, job: JobContext, call: CallOptions): Promise<ExtractedDocument> => {
+    const pdf = await openPdf(arrayBuffer);
+    job.setStage('Reading text layer', 0);
+    const extracted = await extractTextFromPdfDocument(pdf);
 
-    if (fullText.trim().length < 50 * pdf.numPages && pdf.numPages > 0) {
-      setIsCognitiveOcr(true);
-      fullText = await performCognitiveOcr(pdf);
-      setIsCognitiveOcr(false);
+    if (needsOcr(extracted, pdf.numPages)) {
+      job.setStage('Neural Scan');
+      const pages = await job.runPages(pdf.numPages, async page => recognizePage(await renderPdfPage(pdf, page), page, engine, call));
+      return {
+        content: pages.map(p => `--- PAGE ${p.result.page} ---\n${p.text}\n\n`).join(''),
+        tables: [],
+        ocrPages: pages.map(p => p.result),
+      };
     }
 
-    return fullText;
+    return extracted;
   };
 
-  const performCognitiveOcr = async (pdf: any): Promise<string> => {
-    let combinedText = "";
-    for (let i = 1; i <= pdf.numPages; i++) {
-      setOcrProgress(Math.round((i / pdf.numPages) * 100));
-      const page = await pdf.getPage(i);
-      const viewport = page.getViewport({ scale: 4.0 }); // Ultra-HD 4.0x Scale
-      const canvas = document.createElement('canvas');
-      canvas.height = viewport.height;
-      canvas.width = viewport.width;
-      await page.render({ canvasContext: canvas.getContext('2d'), viewport }).promise;
-      preprocessCanvas(canvas);
-      const base64Data = canvas.toDataURL('image/png').split(',')[1];
-      const extractedText = await performVisionOcr(base64Data, 'image/png');
-      combinedText += `--- PAGE ${i} ---\n${extractedText}\n\n`;
+  const loadImageCanvas = (file: File): Promise<HTMLCanvasElement> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const img = new Image();
+      img.onload = () => {
+        const canvas = document.createElement('canvas');
+        canvas.width = img.width; canvas.height = img.height;
+        canvas.getContext('2d')?.drawImage(img, 0, 0);
+        preprocessCanvas(canvas);
+        resolve(canvas);
+      };
+      img.onerror = reject;
+      img.src = e.target?.result as string;
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+
+  const extractDocument = async (file: File, engine: OcrEngine, job: JobContext, call: CallOptions): Promise<ExtractedDocument> => {
+    if (file.type === 'application/pdf' || fileExtension(file.name) === 'pdf') {
+      return extractTextFromPdf(await file.arrayBuffer(), engine, job, call);
+    }
+    if (file.type.startsWith('image/')) {
+      job.setStage('Neural Scan');
+      const [page] = await job.runPages(1, async () => recognizePage(await loadImageCanvas(file), 1, engine, call));
+      return { content: page.text, tables: [], ocrPages: [page.result] };
     }
-    setOcrProgress(0);
-    return combinedText;
-  };
 
-  const extractTextFromImage = async (file: File): Promise<string> => {
-    setIsCognitiveOcr(true);
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = async (e) => {
-        const img = new Image();
-        img.onload = async () => {
-          const canvas = document.createElement('canvas');
-          canvas.width = img.width; canvas.height = img.height;
-          canvas.getContext('2d')?.drawImage(img, 0, 0);
-          preprocessCanvas(canvas);
-          const base64Data = canvas.toDataURL('image/png').split(',')[1];
-          try {
-            const text = await performVisionOcr(base64Data, 'image/png');
-            setIsCognitiveOcr(false);
-            resolve(text);
-          } catch (err) { reject(err); }
-        };
-        img.src = e.target?.result as string;
-      };
-      reader.readAsDataURL(file);
-    });
+    job.setStage('Grounded Parsing');
+    return extractTextDocument(file.name, await file.arrayBuffer());
   };
 
-  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  const setFileStatus = (name: string, status: UploadedFile['status']) =>
+    onFilesChange(prev => prev.map(f => f.name === name ? { ...f, status } : f));
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (!e.target.files) return;
     // Cast to File[] to fix 'unknown' type errors for property access (name, type, arrayBuffer).
     const fileList = Array.from(e.target.files) as File[];
     const placeholders: UploadedFile[] = fileList.map(f => ({ name: f.name, content: '', type: f.type, status: 'processing' }));
-    onFilesChange(prev => [...prev, ...placeholders]);
-
-    for (const file of fileList) {
-      try {
-        let text = "";
-        if (file.type === 'application/pdf' || file.name.endsWith('.pdf')) {
-          text = await extractTextFromPdf(await file.arrayBuffer(), file.name);
-        } else if (file.type.startsWith('image/')) {
-          text = await extractTextFromImage(file);
-        } else if (file.name.endsWith('.docx')) {
-          text = (await window.mammoth.extractRawText({ arrayBuffer: await file.arrayBuffer() })).value;
-        } else {
-          text = new TextDecoder().decode(await file.arrayBuffer());
+    onFilesChange(prev => [...prev.filter(f => !fileList.some(n => n.name === f.name)), ...placeholders]);
+    e.target.value = '';
+
+    // The engine is fixed per job so a retry reads the remaining pages the same way
+    const engine = ocrEngine;
+    fileList.forEach(file => {
+      // Retries and resumes bill to the same usage entry as the first attempt
+      const runId = crypto.randomUUID();
+      processingQueue.enqueue(file.name, async job => {
+        try {
+          const { content, tables, ocrPages } = await extractDocument(file, engine, job, { signal: job.signal, runId, detail: file.name });
+          if (job.signal.aborted) return;
+          onFilesChange(prev => prev.map(f => f.name === file.name ? { ...f, content, tables, ocrPages, status: 'ready' } : f));
+        } catch (err) {
+          if (!job.signal.aborted) setFileStatus(file.name, 'error');
+          throw err;
         }
-        onFilesChange(prev => prev.map(f => f.name === file.name ? { ...f, content: text, status: 'ready' } : f));
-      } catch (err) {
-        onFilesChange(prev => prev.map(f => f.name === file.name ? { ...f, status: 'error' } : f));
-      }
-    }
+      });
+    });
+  };
+
+  const cancelJob = (job: ProcessingJob) => {
+    processingQueue.cancel(job.id);
+    setFileStatus(job.fileName, 'error');
+  };
+
+  const retryJob = (job: ProcessingJob, page?: number) => {
+    setFileStatus(job.fileName, 'processing');
+    processingQueue.retry(job.id, page);
+  };
+
+  const removeFile = (name: string) => {
+    const job = jobs.find(j => j.fileName === name);
+    if (job) processingQueue.remove(job.id);
+    onFilesChange(prev => prev.filter(f => f.name !== name));
+  };
+
+  const describeOcr = (pages: OcrPageResult[]) => {
+    const scored = pages.filter(p => p.confidence !== null);
+    const average = scored.length > 0 ? Math.round(scored.reduce((sum, p) => sum + p.confidence!, 0) / scored.length) : null;
+    const viaVision = pages.filter(p => p.engine === 'vision').length;
+    return [
+      average !== null ? `Local ${average}%` : null,
+      viaVision > 0 ? `${viaVision}/${pages.length} page(s) via vision` : null,
+    ].filter(Boolean).join(' · ');
   };
 
   return (
     <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-[9px] font-black uppercase tracking-widest text-slate-400 mr-1">OCR Engine</span>
+        {OCR_ENGINES.map(o => (
+          <button
+            key={o.engine}
+            onClick={() => setOcrEngine(o.engine)}
+            disabled={localOcrOnly && o.engine !== 'local'}
+            title={localOcrOnly && o.engine !== 'local' ? 'Unavailable while redaction is on' : o.description}
+            className={`px-3 py-1.5 rounded-full text-[9px] font-black uppercase tracking-widest border transition-all ${ocrEngine === o.engine ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-500 border-slate-200 hover:border-indigo-300'} disabled:opacity-40 disabled:cursor-not-allowed`}
+          >
+            {o.label}
+          </button>
+        ))}
+      </div>
       <div className="border-2 border-dashed border-slate-300 rounded-xl p-8 text-center hover:border-indigo-400 cursor-pointer bg-white/50" onClick={() => fileInputRef.current?.click()}>
-        <input type="file" multiple className="hidden" ref={fileInputRef} onChange={handleFileChange} accept=".pdf,.docx,.txt,.csv,.md,image/*" />
+        <input type="file" multiple className="hidden" ref={fileInputRef} onChange={handleFileChange} accept=".pdf,.docx,.pptx,.xlsx,.xls,.csv,.txt,.md,image/*" />
         <div className="flex flex-col items-center">
           <div className="w-12 h-12 bg-indigo-50 text-indigo-600 rounded-full flex items-center justify-center mb-3"><ICONS.Document /></div>
           <p className="text-slate-700 font-medium">Cognitive Intake Hub</p>
@@ -199,26 +252,63 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFilesChange, files })
         </div>
       </div>
       <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-        {files.map((file, idx) => (
+        {files.map((file, idx) => {
+          const job = jobs.find(j => j.fileName === file.name);
+          return (
           <div key={idx} className="p-3 bg-white border border-slate-200 rounded-lg shadow-sm">
             <div className="flex items-center justify-between mb-2">
               <div className="flex items-center gap-2 overflow-hidden">
                 <div className={`shrink-0 ${file.status === 'ready' ? 'text-indigo-500' : 'text-slate-400'}`}><ICONS.Document /></div>
                 <span className="text-sm font-semibold text-slate-700 truncate">{file.name}</span>
               </div>
-              <button onClick={() => onFilesChange(prev => prev.filter((_, i) => i !== idx))} className="text-slate-400 hover:text-red-500"><ICONS.X /></button>
+              <button onClick={() => removeFile(file.name)} className="text-slate-400 hover:text-red-500"><ICONS.X /></button>
             </div>
-            {file.status === 'processing' && (
-              <div className="flex flex-col gap-1">
-                <span className="text-[9px] font-black text-indigo-600 uppercase tracking-widest animate-pulse">
-                  {isCognitiveOcr ? `Neural Scan (${ocrProgress}%)` : 'Grounded Parsing...'}
-                </span>
-                <div className="w-full h-1 bg-slate-100 rounded-full overflow-hidden"><div className="h-full bg-indigo-500 animate-[progress_1s_infinite] w-full origin-left"></div></div>
+            {job && job.status !== 'done' && (
+              <div className="flex flex-col gap-2">
+                <div className="flex items-center justify-between gap-2">
+                  <span className={`text-[9px] font-black uppercase tracking-widest ${job.status === 'error' ? 'text-rose-500' : job.status === 'cancelled' ? 'text-amber-500' : 'text-indigo-600 animate-pulse'}`}>
+                    {job.status === 'error' ? job.error || 'Failed' : job.status === 'cancelled' ? 'Cancelled' : job.pages.length > 0 ? `${job.stage} (${job.progress}%)` : `${job.stage}...`}
+                  </span>
+                  {(job.status === 'queued' || job.status === 'running') && (
+                    <button onClick={() => cancelJob(job)} className="text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-rose-500">Cancel</button>
+                  )}
+                  {(job.status === 'error' || job.status === 'cancelled') && (
+                    <button onClick={() => retryJob(job)} className="text-[9px] font-black uppercase tracking-widest text-indigo-600 hover:text-indigo-800">
+                      {job.pages.some(p => p.status === 'done') ? 'Resume' : 'Retry'}
+                    </button>
+                  )}
+                </div>
+                <div className="w-full h-1 bg-slate-100 rounded-full overflow-hidden">
+                  {job.pages.length > 0
+                    ? <div className="h-full bg-indigo-500 transition-all" style={{ width: `${job.progress}%` }}></div>
+                    : job.status === 'running' && <div className="h-full bg-indigo-500 animate-[progress_1s_infinite] w-full origin-left"></div>}
+                </div>
+                {job.pages.length > 1 && (
+                  <div className="flex flex-wrap gap-1">
+                    {job.pages.map(p => (
+                      <span
+                        key={p.page}
+                        title={`Page ${p.page}: ${p.status}${p.error ? ` (${p.error}) - click to retry` : ''}`}
+                        onClick={p.status === 'error' && job.status === 'error' ? () => retryJob(job, p.page) : undefined}
+                        className={`w-2 h-2 rounded-sm transition-all ${PAGE_STATUS_STYLES[p.status]}`}
+                      ></span>
+                    ))}
+                  </div>
+                )}
               </div>
             )}
             {file.status === 'ready' && <span className="text-[9px] font-bold text-emerald-500 uppercase tracking-widest flex items-center gap-1"><ICONS.Shield className="w-2 h-2" /> Context Loaded</span>}
+            {file.status === 'ready' && file.ocrPages && file.ocrPages.length > 0 && (
+              <span
+                title={file.ocrPages.map(p => `Page ${p.page}: ${p.engine}${p.confidence !== null ? ` (${p.confidence}% local confidence)` : ''}`).join('\n')}
+                className="mt-1 text-[9px] font-bold text-slate-400 uppercase tracking-widest block"
+              >
+                OCR · {describeOcr(file.ocrPages) || 'Vision'}
+              </span>
+            )}
           </div>
-        ))}
+          );
+        })}
       </div>
       <style>{`@keyframes progress { 0% { transform: scaleX(0); } 50% { transform: scaleX(0.7); } 100% { transform: scaleX(1); } }`}</style>
     </div>
@@ -1,8 +1,27 @@
-
 import React from 'react';
 import { ICONS } from '../constants';
+import { DealWorkspace } from '../types';
+
+interface HeaderProps {
+  workspaces: Pick<DealWorkspace, 'id' | 'name' | 'updatedAt'>[];
+  activeWorkspaceId: string | null;
+  onSelectWorkspace: (id: string) => void;
+  onCreateWorkspace: () => void;
+  onRenameWorkspace: (name: string) => void;
+  onDeleteWorkspace: () => void;
+  // Set while documents are extracting or a brief is running; their results belong to the open workspace
+  locked: boolean;
+}
+
+export const Header: React.FC<HeaderProps> = ({ workspaces, activeWorkspaceId, onSelectWorkspace, onCreateWorkspace, onRenameWorkspace, onDeleteWorkspace, locked }) => {
+  const lockedTitle = 'Wait for document processing and analysis to finish';
+  const active = workspaces.find(w => w.id === activeWorkspaceId);
+
+  const handleRename = () => {
+    const name = window.prompt("Rename deal workspace", active?.name || "");
+    if (name?.trim()) onRenameWorkspace(name);
+  };
 
-export const Header: React.FC = () => {
   return (
     <header className="fixed top-0 left-0 right-0 z-50 glass-effect border-b border-slate-200">
       <div className="max-w-7xl mx-auto px-4 h-16 flex items-center justify-between">
@@ -22,6 +41,21 @@ export const Header: React.FC = () => {
         </nav>
 
         <div className="flex items-center gap-4">
+          <div className="flex items-center gap-1.5 bg-white/70 border border-slate-200 rounded-xl pl-3 pr-1.5 py-1 shadow-sm">
+            <span className="text-[8px] font-black uppercase tracking-widest text-slate-400">Deal</span>
+            <select
+              value={activeWorkspaceId || ''}
+              onChange={e => onSelectWorkspace(e.target.value)}
+              disabled={locked}
+              title={locked ? lockedTitle : undefined}
+              className="bg-transparent text-xs font-bold text-slate-700 outline-none max-w-[10rem] truncate cursor-pointer"
+            >
+              {workspaces.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+            </select>
+            <button onClick={handleRename} disabled={!active} title="Rename workspace" className="px-2 py-1 text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-indigo-600 transition-colors">Edit</button>
+            <button onClick={onCreateWorkspace} disabled={locked} title={locked ? lockedTitle : 'New workspace'} className="p-1 text-slate-400 hover:text-indigo-600 transition-colors"><ICONS.X className="rotate-45 !w-4 !h-4" /></button>
+            <button onClick={onDeleteWorkspace} disabled={!active || locked} title={locked ? lockedTitle : 'Delete workspace'} className="p-1 text-slate-400 hover:text-rose-500 transition-colors"><ICONS.X className="!w-4 !h-4" /></button>
+          </div>
           <div className="w-8 h-8 bg-slate-200 rounded-full flex items-center justify-center text-slate-600">
             <svg xmlns="http://www.w3.org/2000/svg" className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
@@ -31,4 +65,4 @@ export const Header: React.FC = () => {
       </div>
     </header>
   );
-};
\ No newline at end of file
+};
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { MeetingContext, CustomerPersonaType, ThinkingLevel } from '../types';
+import { MeetingContext, CustomerPersonaType, ThinkingLevel, CompetitorProfile, StakeholderProfile } from '../types';
 import { ICONS } from '../constants';
+import { PromptInspector } from './PromptInspector';
 
 interface MeetingContextConfigProps {
   context: MeetingContext;
@@ -48,6 +49,7 @@ const ANSWER_STYLES = [
 
 export const MeetingContextConfig: React.FC<MeetingContextConfigProps> = ({ context, onContextChange }) => {
   const [keywordInput, setKeywordInput] = useState("");
+  const [weaknessInputs, setWeaknessInputs] = useState<Record<number, string>>({});
   const [localPrompt, setLocalPrompt] = useState(context.baseSystemPrompt);
   const [isSaved, setIsSaved] = useState(false);
   const isCustomizedRef = useRef(false);
@@ -108,6 +110,30 @@ export const MeetingContextConfig: React.FC<MeetingContextConfigProps> = ({ cont
     }
   };
 
+  const updateCompetitor = (index: number, patch: Partial<CompetitorProfile>) => {
+    handleChange('competitors', context.competitors.map((c, i) => i === index ? { ...c, ...patch } : c));
+  };
+
+  const addCompetitor = () => {
+    handleChange('competitors', [...context.competitors, { name: '', websiteNotes: '', knownWeaknesses: [] }]);
+  };
+
+  const removeCompetitor = (index: number) => {
+    handleChange('competitors', context.competitors.filter((_, i) => i !== index));
+    setWeaknessInputs({});
+  };
+
+  const updateStakeholder = (index: number, patch: Partial<StakeholderProfile>) => {
+    handleChange('stakeholders', context.stakeholders.map((s, i) => i === index ? { ...s, ...patch } : s));
+  };
+
+  const addWeakness = (index: number) => {
+    const value = (weaknessInputs[index] || '').trim();
+    if (!value) return;
+    updateCompetitor(index, { knownWeaknesses: [...context.competitors[index].knownWeaknesses, value] });
+    setWeaknessInputs(prev => ({ ...prev, [index]: '' }));
+  };
+
   return (
     <div className="space-y-12 animate-in fade-in duration-500">
       {/* Participant Info */}
@@ -252,6 +278,90 @@ export const MeetingContextConfig: React.FC<MeetingContextConfigProps> = ({ cont
         </div>
       </div>
 
+      {/* Competitor Roster */}
+      <div className="bg-white rounded-[2.5rem] p-10 shadow-xl border border-slate-100 space-y-8">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-xl font-bold text-slate-800">Competitor Roster</h3>
+            <p className="text-xs text-slate-400 leading-relaxed font-medium mt-1">Each competitor gets a dedicated battlecard in the Competitive Hub.</p>
+          </div>
+          <button onClick={addCompetitor} className="flex items-center gap-2 px-5 py-2.5 bg-rose-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-rose-700 shadow-lg shadow-rose-100 active:scale-95 transition-all">
+            <ICONS.X className="rotate-45 w-3 h-3" /> Add Competitor
+          </button>
+        </div>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {context.competitors.map((competitor, i) => (
+            <div key={i} className="p-8 bg-slate-50 rounded-[2rem] border border-slate-100 space-y-5">
+              <div className="flex items-end gap-3">
+                <div className="flex-1">
+                  <Input label="Competitor Name" value={competitor.name} onChange={v => updateCompetitor(i, { name: v })} placeholder="e.g. Rival Platform Inc." />
+                </div>
+                <button onClick={() => removeCompetitor(i)} className="p-4 text-slate-300 hover:text-rose-500 transition-colors"><ICONS.X /></button>
+              </div>
+              <div className="space-y-2">
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.15em] ml-1">Website / Positioning Notes</label>
+                <textarea
+                  value={competitor.websiteNotes}
+                  onChange={e => updateCompetitor(i, { websiteNotes: e.target.value })}
+                  className="w-full bg-white border-2 border-slate-100 rounded-2xl px-6 py-4 text-sm focus:border-indigo-500 outline-none transition-all h-24 resize-none shadow-inner leading-relaxed"
+                  placeholder="e.g. Claims 'no-code' setup, pricing per conversation..."
+                />
+              </div>
+              <div className="space-y-3">
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.15em] ml-1">Known Weaknesses</label>
+                <div className="flex gap-3">
+                  <input
+                    type="text"
+                    value={weaknessInputs[i] || ''}
+                    onChange={e => setWeaknessInputs(prev => ({ ...prev, [i]: e.target.value }))}
+                    onKeyDown={e => e.key === 'Enter' && addWeakness(i)}
+                    placeholder="e.g. Limited on-prem support"
+                    className="flex-1 bg-white border-2 border-slate-100 rounded-2xl px-6 py-3 text-sm focus:border-indigo-500 outline-none transition-all shadow-inner"
+                  />
+                  <button onClick={() => addWeakness(i)} className="p-3 bg-indigo-600 text-white rounded-2xl hover:bg-indigo-700 transform active:scale-95 transition-all"><ICONS.X className="rotate-45" /></button>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {competitor.knownWeaknesses.map((w, wi) => (
+                    <span key={wi} className="px-4 py-2 bg-rose-50 text-rose-600 rounded-2xl text-[10px] font-black uppercase tracking-[0.1em] border border-rose-100 flex items-center gap-3">
+                      {w}
+                      <button onClick={() => updateCompetitor(i, { knownWeaknesses: competitor.knownWeaknesses.filter((_, idx) => idx !== wi) })} className="hover:text-rose-800 transition-colors bg-white/50 w-5 h-5 flex items-center justify-center rounded-lg">×</button>
+                    </span>
+                  ))}
+                </div>
+              </div>
+            </div>
+          ))}
+          {context.competitors.length === 0 && <p className="text-slate-300 text-xs italic">No competitors configured. The hub will only list competitors found in the documents.</p>}
+        </div>
+      </div>
+
+      {/* Buying Committee */}
+      <div className="bg-white rounded-[2.5rem] p-10 shadow-xl border border-slate-100 space-y-8">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-xl font-bold text-slate-800">Buying Committee</h3>
+            <p className="text-xs text-slate-400 leading-relaxed font-medium mt-1">Known stakeholders each get their own snapshot. Others are discovered from the documents.</p>
+          </div>
+          <button
+            onClick={() => handleChange('stakeholders', [...context.stakeholders, { name: '', title: '', notes: '' }])}
+            className="flex items-center gap-2 px-5 py-2.5 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-700 shadow-lg shadow-indigo-100 active:scale-95 transition-all"
+          >
+            <ICONS.X className="rotate-45 w-3 h-3" /> Add Stakeholder
+          </button>
+        </div>
+        <div className="space-y-4">
+          {context.stakeholders.map((stakeholder, i) => (
+            <div key={i} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_2fr_auto] gap-4 items-end p-6 bg-slate-50 rounded-[2rem] border border-slate-100">
+              <Input label="Name" value={stakeholder.name} onChange={v => updateStakeholder(i, { name: v })} placeholder="e.g. Dana Ruiz" />
+              <Input label="Title" value={stakeholder.title} onChange={v => updateStakeholder(i, { title: v })} placeholder="e.g. CFO" />
+              <Input label="Notes" value={stakeholder.notes} onChange={v => updateStakeholder(i, { notes: v })} placeholder="e.g. Owns budget, burned by last vendor" />
+              <button onClick={() => handleChange('stakeholders', context.stakeholders.filter((_, idx) => idx !== i))} className="p-4 text-slate-300 hover:text-rose-500 transition-colors"><ICONS.X /></button>
+            </div>
+          ))}
+          {context.stakeholders.length === 0 && <p className="text-slate-300 text-xs italic">No stakeholders configured. Client Name(s) above are used as a starting point.</p>}
+        </div>
+      </div>
+
       {/* Neural Core System Prompt with Manual Save Button */}
       <div className="bg-slate-900 rounded-[3rem] p-12 shadow-2xl relative overflow-hidden group">
         <div className="absolute top-0 right-0 p-10 opacity-10 group-hover:opacity-30 transition-opacity">
@@ -311,6 +421,8 @@ export const MeetingContextConfig: React.FC<MeetingContextConfigProps> = ({ cont
           </div>
         </div>
       </div>
+
+      <PromptInspector context={context} />
     </div>
   );
 };
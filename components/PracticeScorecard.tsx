@@ -0,0 +1,71 @@
+import React from 'react';
+import { SessionScorecard } from '../types';
+import { ICONS } from '../constants';
+
+interface PracticeScorecardProps {
+  scorecard: SessionScorecard;
+}
+
+const scoreTone = (score: number | null) => {
+  if (score === null) return { text: 'text-slate-400', dark: 'text-slate-400', bar: 'bg-slate-200' };
+  if (score >= 75) return { text: 'text-emerald-600', dark: 'text-emerald-400', bar: 'bg-emerald-500' };
+  if (score >= 45) return { text: 'text-amber-600', dark: 'text-amber-400', bar: 'bg-amber-500' };
+  return { text: 'text-rose-600', dark: 'text-rose-400', bar: 'bg-rose-500' };
+};
+
+export const PracticeScorecard: React.FC<PracticeScorecardProps> = ({ scorecard }) => {
+  const overall = scoreTone(scorecard.overallScore);
+
+  return (
+    <div className="w-full text-left space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <div className="flex items-center justify-between p-8 bg-slate-900 rounded-[2.5rem] shadow-2xl">
+        <div className="flex items-center gap-4">
+          <div className="p-3 bg-indigo-600 text-white rounded-2xl"><ICONS.Trophy /></div>
+          <div>
+            <h4 className="text-white text-lg font-bold tracking-tight">Post-Call Scorecard</h4>
+            <p className="text-slate-400 text-[10px] font-black uppercase tracking-widest">{scorecard.turnCount} turn(s) graded against the brief</p>
+          </div>
+        </div>
+        <div className="text-right">
+          <p className={`text-5xl font-black ${overall.dark}`}>{scorecard.overallScore}</p>
+          <p className="text-[9px] font-black uppercase tracking-widest text-slate-500">Overall</p>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        {scorecard.items.map(item => {
+          const tone = scoreTone(item.score);
+          return (
+            <div key={item.criterion} className="p-6 bg-slate-50 rounded-[2rem] border border-slate-100 space-y-4">
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <p className="text-[11px] font-black uppercase tracking-widest text-slate-800">{item.label}</p>
+                  <p className="text-xs text-slate-500 mt-1">{item.verdict}</p>
+                </div>
+                <div className="text-right shrink-0">
+                  <p className={`text-2xl font-black ${tone.text}`}>{item.score === null ? 'N/A' : item.score}</p>
+                  <p className="text-[8px] font-black uppercase tracking-widest text-slate-400">Weight {item.weight}%</p>
+                </div>
+              </div>
+              <div className="h-1.5 bg-slate-200 rounded-full overflow-hidden">
+                <div className={`h-full ${tone.bar} transition-all duration-700`} style={{ width: `${item.score ?? 0}%` }}></div>
+              </div>
+              {item.moments.length > 0 && (
+                <div className="space-y-2">
+                  {item.moments.map((moment, i) => (
+                    <div key={i} className={`p-3 rounded-xl border ${moment.speaker === 'rep' ? 'bg-white border-slate-100' : 'bg-indigo-50 border-indigo-100'}`}>
+                      <p className="text-[8px] font-black uppercase tracking-widest text-slate-400 mb-1">
+                        Turn {moment.turn} · {moment.speaker === 'rep' ? 'You' : 'Buyer'} · <span className="text-indigo-500">{moment.note}</span>
+                      </p>
+                      <p className="text-xs text-slate-700 italic">"{moment.quote}"</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
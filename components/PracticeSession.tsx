@@ -1,54 +1,155 @@
 
-import React, { useState, useRef, useCallback } from 'react';
-import { AnalysisResult } from '../types';
+import React, { useState, useRef, useCallback, useMemo, useEffect } from 'react';
+import { AnalysisResult, BuyerDifficulty, InterruptionFrequency, MeetingContext, PracticeRecording, PracticeTurn, RoleplaySettings, StakeholderInsight } from '../types';
 import { ICONS } from '../constants';
-import { GoogleGenAI, Modality, LiveServerMessage } from '@google/genai';
+import { PracticeScorecard } from './PracticeScorecard';
+import { SessionHistory } from './SessionHistory';
+import { scorePracticeSession } from '../services/sessionScorer';
+import { SessionRecorder } from '../services/sessionRecorder';
+import { recordUsage, usageWorkspace } from '../services/usageTracker';
+import { createLiveClient, maskLiveInstruction } from '../services/geminiService';
+import { decode, decodeAudioData, encode } from '../services/audio';
+import { Modality, LiveServerMessage, Session } from '@google/genai';
 
 interface PracticeSessionProps {
   analysis: AnalysisResult;
+  context: MeetingContext;
+  recordings: PracticeRecording[];
+  onRecordingComplete: (recording: Omit<PracticeRecording, 'id' | 'workspaceId'>) => void;
+  onDeleteRecording: (id: string) => void;
 }
 
-export const PracticeSession: React.FC<PracticeSessionProps> = ({ analysis }) => {
+const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-12-2025';
+
+const BUYER_VOICES = [
+  { name: 'Charon', label: 'Deep Authority' },
+  { name: 'Kore', label: 'Firm & Clear' },
+  { name: 'Fenrir', label: 'Excitable' },
+  { name: 'Aoede', label: 'Breezy' },
+  { name: 'Puck', label: 'Upbeat' },
+  { name: 'Zephyr', label: 'Bright' },
+];
+
+const DIFFICULTIES: { level: BuyerDifficulty; desc: string; directive: string }[] = [
+  { level: 'Friendly', desc: 'Open, curious, gives the benefit of the doubt', directive: 'You are warm and open. Ask clarifying questions, acknowledge good answers and only push back gently.' },
+  { level: 'Skeptical', desc: 'Wants proof before believing any claim', directive: 'You are skeptical. Demand evidence, numbers or references for every claim and do not concede a point until it is backed up.' },
+  { level: 'Hostile', desc: 'Impatient, dismissive, ready to end the call', directive: 'You are hostile and short on time. Dismiss vague answers, challenge the seller\'s credibility, threaten to stay with the status quo and make them earn every minute.' },
+];
+
+const INTERRUPTIONS: { level: InterruptionFrequency; directive: string }[] = [
+  { level: 'Never', directive: 'Let the salesperson finish every point before you respond.' },
+  { level: 'Occasional', directive: 'Now and then cut in mid-pitch with a short challenge or question when the salesperson rambles.' },
+  { level: 'Frequent', directive: 'Interrupt often. Cut in after a sentence or two with objections, "so what?" challenges or requests to get to the point.' },
+];
+
+const DEFAULT_ROLEPLAY_SETTINGS: RoleplaySettings = {
+  difficulty: 'Skeptical',
+  requiredObjections: [],
+  interruptionFrequency: 'Occasional',
+  voiceName: 'Charon',
+  stakeholderName: null,
+};
+
+const buildBuyerInstruction = (analysis: AnalysisResult, settings: RoleplaySettings, stakeholder?: StakeholderInsight) => {
+  const buyer = stakeholder?.snapshot ?? analysis.snapshot;
+  const difficulty = DIFFICULTIES.find(d => d.level === settings.difficulty)!;
+  const interruptions = INTERRUPTIONS.find(i => i.level === settings.interruptionFrequency)!;
+  const objections = settings.requiredObjections.length > 0
+    ? `You MUST raise each of these objections during the conversation, one at a time, and press again if the answer is weak: ${settings.requiredObjections.join('; ')}.`
+    : `Use objections like: ${analysis.objectionHandling.map(o => o.objection).join(', ')}.`;
+
+  const identity = stakeholder
+    ? `NAME: ${stakeholder.name}${stakeholder.title ? `, ${stakeholder.title}` : ''}
+          COMMITTEE ROLE: ${stakeholder.committeeRole} (influence ${stakeholder.influence}/100)
+          ATTITUDE TOWARD THE PROPOSAL: ${stakeholder.attitude}
+          `
+    : '';
+
+  return `You are simulating a practice sales session. ACT AS THE BUYER defined in the following profile:
+          ${identity}ROLE: ${buyer.role}
+          DECISION STYLE: ${buyer.decisionStyle}
+          RISK TOLERANCE: ${buyer.riskTolerance}
+          TONE: ${buyer.tone}
+          PRIORITIES: ${buyer.priorities.map(p => p.text).join(', ')}
+          
+          DEMEANOUR (${difficulty.level.toUpperCase()}): ${difficulty.directive}
+          INTERRUPTIONS (${interruptions.level.toUpperCase()}): ${interruptions.directive}
+          
+          Guidelines:
+          1. React naturally to the salesperson. 
+          2. ${objections}
+          3. Challenge their points based on your role's fears and priorities.
+          4. Keep responses brief to keep the flow alive.`;
+};
+
+export const PracticeSession: React.FC<PracticeSessionProps> = ({ analysis, context, recordings, onRecordingComplete, onDeleteRecording }) => {
   const [isActive, setIsActive] = useState(false);
   const [status, setStatus] = useState<'idle' | 'connecting' | 'active' | 'error'>('idle');
-  const [transcription, setTranscription] = useState<{ user: string; ai: string }[]>([]);
-  const [currentTranscription, setCurrentTranscription] = useState({ user: '', ai: '' });
+  const [transcription, setTranscription] = useState<PracticeTurn[]>([]);
+  const [currentTranscription, setCurrentTranscription] = useState<PracticeTurn>({ user: '', ai: '' });
+  const [settings, setSettings] = useState<RoleplaySettings>(DEFAULT_ROLEPLAY_SETTINGS);
+  // Mirror currentTranscription and transcription so socket callbacks never read a stale closure
+  const currentTurnRef = useRef<PracticeTurn>({ user: '', ai: '' });
+  const transcriptRef = useRef<PracticeTurn[]>([]);
+  // Snapshot taken when a session stops; the effect below files it
+  const [finishedSession, setFinishedSession] = useState<{ recorder: SessionRecorder; transcript: PracticeTurn[] } | null>(null);
   
   const audioContextRef = useRef<AudioContext | null>(null);
   const nextStartTimeRef = useRef<number>(0);
   const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
-  const sessionRef = useRef<any>(null);
+  const sessionRef = useRef<Session | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  const inputCtxRef = useRef<AudioContext | null>(null);
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  // Wall clock and output clock at connect, so turns and buyer audio share one timeline
+  const sessionStartRef = useRef<number>(0);
+  const outputOriginRef = useRef<number>(0);
 
-  const encode = (bytes: Uint8Array) => {
-    let binary = '';
-    const len = bytes.byteLength;
-    for (let i = 0; i < len; i++) binary += String.fromCharCode(bytes[i]);
-    return btoa(binary);
-  };
+  const elapsed = () => (performance.now() - sessionStartRef.current) / 1000;
 
-  const decode = (base64: string) => {
-    const binaryString = atob(base64);
-    const len = binaryString.length;
-    const bytes = new Uint8Array(len);
-    for (let i = 0; i < len; i++) bytes[i] = binaryString.charCodeAt(i);
-    return bytes;
+  const updateCurrentTurn = (turn: PracticeTurn) => {
+    currentTurnRef.current = turn;
+    setCurrentTranscription(turn);
   };
 
-  const decodeAudioData = async (data: Uint8Array, ctx: AudioContext, sampleRate: number, numChannels: number): Promise<AudioBuffer> => {
-    const dataInt16 = new Int16Array(data.buffer);
-    const frameCount = dataInt16.length / numChannels;
-    const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-    for (let channel = 0; channel < numChannels; channel++) {
-      const channelData = buffer.getChannelData(channel);
-      for (let i = 0; i < frameCount; i++) {
-        channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-      }
+  const commitCurrentTurn = () => {
+    const turn = currentTurnRef.current;
+    if (turn.user.trim() || turn.ai.trim()) {
+      transcriptRef.current = [...transcriptRef.current, { ...turn, end: elapsed() }];
+      setTranscription(transcriptRef.current);
     }
-    return buffer;
+    updateCurrentTurn({ user: '', ai: '' });
+  };
+
+  const toggleObjection = (text: string) => {
+    setSettings(prev => ({
+      ...prev,
+      requiredObjections: prev.requiredObjections.includes(text)
+        ? prev.requiredObjections.filter(o => o !== text)
+        : [...prev.requiredObjections, text],
+    }));
   };
 
+  const stakeholder = analysis.buyingCommittee.find(s => s.name === settings.stakeholderName);
+  const buyer = stakeholder?.snapshot ?? analysis.snapshot;
+  const buyerLabel = stakeholder ? `${stakeholder.name}${stakeholder.title ? `, ${stakeholder.title}` : ''}` : analysis.snapshot.role;
+
+  // A stakeholder's tailored openers count alongside the brief's general ones
+  const scoreTranscript = useCallback(
+    (turns: PracticeTurn[]) => turns.length > 0
+      ? scorePracticeSession(turns, stakeholder ? { ...analysis, openingLines: [...stakeholder.openingLines, ...analysis.openingLines] } : analysis)
+      : null,
+    [analysis, stakeholder]
+  );
+
+  const scorecard = useMemo(() => isActive ? null : scoreTranscript(transcription), [isActive, transcription, scoreTranscript]);
+
   const stopPractice = useCallback(() => {
+    commitCurrentTurn();
+    // Stop can run twice (button, then the socket closing); only the first files the session
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    if (recorder && recorder.durationSeconds > 0) setFinishedSession({ recorder, transcript: transcriptRef.current });
     setIsActive(false);
     setStatus('idle');
     if (sessionRef.current) {
@@ -62,25 +163,55 @@ export const PracticeSession: React.FC<PracticeSessionProps> = ({ analysis }) =>
     sourcesRef.current.forEach(source => { try { source.stop(); } catch(e) {} });
     sourcesRef.current.clear();
     nextStartTimeRef.current = 0;
+    if (inputCtxRef.current) {
+      inputCtxRef.current.close();
+      inputCtxRef.current = null;
+    }
   }, []);
 
+  // The scorecard is built from the transcript captured at stop, not from whatever render runs next
+  useEffect(() => {
+    if (!finishedSession) return;
+    setFinishedSession(null);
+    const { recorder, transcript } = finishedSession;
+    onRecordingComplete({
+      createdAt: Date.now(),
+      buyerLabel,
+      settings,
+      durationSeconds: recorder.durationSeconds,
+      transcript,
+      scorecard: scoreTranscript(transcript),
+      audio: recorder.toWav(),
+    });
+  }, [finishedSession, buyerLabel, settings, scoreTranscript, onRecordingComplete]);
+
   const startPractice = async () => {
     setStatus('connecting');
+    transcriptRef.current = [];
+    setTranscription([]);
+    updateCurrentTurn({ user: '', ai: '' });
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+      const ai = createLiveClient();
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
       streamRef.current = stream;
 
       const inputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
       const outputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
       audioContextRef.current = outputCtx;
+      inputCtxRef.current = inputCtx;
 
+      const runId = crypto.randomUUID();
+      const workspaceId = usageWorkspace();
+      const { instruction, redactor } = maskLiveInstruction(buildBuyerInstruction(analysis, settings, stakeholder), context);
       const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-12-2025',
+        model: LIVE_MODEL,
         callbacks: {
           onopen: () => {
             setStatus('active');
             setIsActive(true);
+            recorderRef.current = new SessionRecorder();
+            sessionStartRef.current = performance.now();
+            outputOriginRef.current = outputCtx.currentTime;
             const source = inputCtx.createMediaStreamSource(stream);
             const scriptProcessor = inputCtx.createScriptProcessor(4096, 1, 1);
             scriptProcessor.onaudioprocess = (e) => {
@@ -88,6 +219,7 @@ export const PracticeSession: React.FC<PracticeSessionProps> = ({ analysis }) =>
               const l = inputData.length;
               const int16 = new Int16Array(l);
               for (let i = 0; i < l; i++) int16[i] = inputData[i] * 32768;
+              recorderRef.current?.addMic(int16);
               const pcmBlob = {
                 data: encode(new Uint8Array(int16.buffer)),
                 mimeType: 'audio/pcm;rate=16000',
@@ -98,10 +230,26 @@ export const PracticeSession: React.FC<PracticeSessionProps> = ({ analysis }) =>
             scriptProcessor.connect(inputCtx.destination);
           },
           onmessage: async (message: LiveServerMessage) => {
+            // Live usage arrives per server message and is recorded as increments of one session
+            if (message.usageMetadata) {
+              recordUsage({
+                operation: 'practice',
+                runId,
+                detail: buyerLabel,
+                workspaceId,
+                model: LIVE_MODEL,
+                inputTokens: message.usageMetadata.promptTokenCount ?? 0,
+                outputTokens: message.usageMetadata.responseTokenCount ?? 0,
+                thinkingTokens: message.usageMetadata.thoughtsTokenCount ?? 0,
+                latencyMs: 0,
+              });
+            }
             const base64Audio = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
             if (base64Audio) {
               nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outputCtx.currentTime);
-              const buffer = await decodeAudioData(decode(base64Audio), outputCtx, 24000, 1);
+              const bytes = decode(base64Audio);
+              const buffer = await decodeAudioData(bytes, outputCtx, 24000, 1);
+              recorderRef.current?.addModel(new Int16Array(bytes.buffer), nextStartTimeRef.current - outputOriginRef.current);
               const source = outputCtx.createBufferSource();
               source.buffer = buffer;
               source.connect(outputCtx.destination);
@@ -112,17 +260,20 @@ export const PracticeSession: React.FC<PracticeSessionProps> = ({ analysis }) =>
             }
 
             if (message.serverContent?.inputTranscription) {
-              setCurrentTranscription(prev => ({ ...prev, user: prev.user + message.serverContent!.inputTranscription!.text }));
+              const turn = currentTurnRef.current;
+              updateCurrentTurn({ ...turn, start: turn.start ?? elapsed(), user: turn.user + message.serverContent.inputTranscription.text });
             }
             if (message.serverContent?.outputTranscription) {
-              setCurrentTranscription(prev => ({ ...prev, ai: prev.ai + message.serverContent!.outputTranscription!.text }));
+              const turn = currentTurnRef.current;
+              // Restored on the whole turn so a placeholder split across chunks is still caught
+              updateCurrentTurn({ ...turn, start: turn.start ?? elapsed(), ai: redactor.restore(turn.ai + message.serverContent.outputTranscription.text) });
             }
             if (message.serverContent?.turnComplete) {
-              setTranscription(prev => [...prev, { user: currentTranscription.user, ai: currentTranscription.ai }]);
-              setCurrentTranscription({ user: '', ai: '' });
+              commitCurrentTurn();
             }
 
             if (message.serverContent?.interrupted) {
+              recorderRef.current?.interruptModel(outputCtx.currentTime - outputOriginRef.current);
               sourcesRef.current.forEach(s => { try { s.stop(); } catch(e) {} });
               sourcesRef.current.clear();
               nextStartTimeRef.current = 0;
@@ -139,19 +290,8 @@ export const PracticeSession: React.FC<PracticeSessionProps> = ({ analysis }) =>
           responseModalities: [Modality.AUDIO],
           inputAudioTranscription: {},
           outputAudioTranscription: {},
-          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Charon' } } },
-          systemInstruction: `You are simulating a practice sales session. ACT AS THE BUYER defined in the following profile:
-          ROLE: ${analysis.snapshot.role}
-          DECISION STYLE: ${analysis.snapshot.decisionStyle}
-          RISK TOLERANCE: ${analysis.snapshot.riskTolerance}
-          TONE: ${analysis.snapshot.tone}
-          PRIORITIES: ${analysis.snapshot.priorities.map(p => p.text).join(', ')}
-          
-          Guidelines:
-          1. React naturally to the salesperson. 
-          2. Use objections like: ${analysis.objectionHandling.map(o => o.objection).join(', ')}.
-          3. Challenge their points based on your role's fears and priorities.
-          4. Keep responses brief to keep the flow alive.`
+          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: settings.voiceName } } },
+          systemInstruction: instruction
         },
       });
       sessionRef.current = await sessionPromise;
@@ -186,13 +326,94 @@ export const PracticeSession: React.FC<PracticeSessionProps> = ({ analysis }) =>
         <div className="flex-1 flex flex-col items-center justify-center text-center space-y-8 max-w-2xl mx-auto py-10">
           <div className="w-24 h-24 bg-indigo-50 rounded-[2rem] flex items-center justify-center text-indigo-600"><ICONS.Brain /></div>
           <div className="space-y-4">
-            <h4 className="text-2xl font-black text-slate-800">Roleplay with the {analysis.snapshot.role}</h4>
+            <h4 className="text-2xl font-black text-slate-800">Roleplay with {stakeholder ? buyerLabel : `the ${buyerLabel}`}</h4>
             <p className="text-slate-500 leading-relaxed">Prepare for the real deal. Our AI will assume the psychological profile inferred from your documents. Speak into your microphone and handle the heat.</p>
           </div>
+          <div className="w-full text-left space-y-6 p-8 bg-slate-50 rounded-[2.5rem] border border-slate-100">
+            {analysis.buyingCommittee.length > 0 && (
+              <div className="space-y-3">
+                <p className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400">Stakeholder</p>
+                <div className="flex flex-wrap gap-2">
+                  {[null, ...analysis.buyingCommittee.map(s => s.name)].map(name => (
+                    <button
+                      key={name ?? 'primary'}
+                      onClick={() => setSettings(prev => ({ ...prev, stakeholderName: name, requiredObjections: [] }))}
+                      className={`px-4 py-2.5 rounded-xl text-[10px] font-bold border transition-all ${settings.stakeholderName === name ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-100 hover:border-indigo-200'}`}
+                    >
+                      {name ?? 'Primary Buyer'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+            <div className="space-y-3">
+              <p className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400">Buyer Difficulty</p>
+              <div className="grid grid-cols-3 gap-3">
+                {DIFFICULTIES.map(d => (
+                  <button
+                    key={d.level}
+                    onClick={() => setSettings(prev => ({ ...prev, difficulty: d.level }))}
+                    className={`p-4 rounded-2xl border text-left transition-all ${settings.difficulty === d.level ? 'bg-indigo-600 border-indigo-600 text-white shadow-lg' : 'bg-white border-slate-100 text-slate-600 hover:border-indigo-200'}`}
+                  >
+                    <p className="text-[10px] font-black uppercase tracking-widest">{d.level}</p>
+                    <p className={`text-[10px] mt-1 leading-snug ${settings.difficulty === d.level ? 'text-indigo-100' : 'text-slate-400'}`}>{d.desc}</p>
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-3">
+              <p className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400">Interruptions</p>
+              <div className="flex gap-2">
+                {INTERRUPTIONS.map(i => (
+                  <button
+                    key={i.level}
+                    onClick={() => setSettings(prev => ({ ...prev, interruptionFrequency: i.level }))}
+                    className={`flex-1 px-4 py-2.5 rounded-xl text-[9px] font-black uppercase tracking-widest border transition-all ${settings.interruptionFrequency === i.level ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-500 border-slate-100 hover:border-indigo-200'}`}
+                  >
+                    {i.level}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-3">
+              <p className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400">Buyer Voice</p>
+              <div className="grid grid-cols-3 gap-2">
+                {BUYER_VOICES.map(v => (
+                  <button
+                    key={v.name}
+                    onClick={() => setSettings(prev => ({ ...prev, voiceName: v.name }))}
+                    className={`px-3 py-2.5 rounded-xl text-[9px] font-black uppercase tracking-widest border transition-all ${settings.voiceName === v.name ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-500 border-slate-100 hover:border-indigo-200'}`}
+                  >
+                    {v.name} <span className="opacity-60">· {v.label}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+            {buyer.likelyObjections.length > 0 && (
+              <div className="space-y-3">
+                <p className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400">
+                  Objections To Drill <span className="normal-case tracking-normal font-medium">{settings.requiredObjections.length === 0 ? '(buyer chooses)' : `(${settings.requiredObjections.length} required)`}</span>
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {buyer.likelyObjections.map((o, i) => (
+                    <button
+                      key={i}
+                      onClick={() => toggleObjection(o.text)}
+                      className={`px-4 py-2 rounded-2xl text-[10px] font-bold border transition-all ${settings.requiredObjections.includes(o.text) ? 'bg-rose-600 text-white border-rose-600' : 'bg-white text-slate-600 border-slate-100 hover:border-rose-200'}`}
+                    >
+                      {o.text}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
           <button onClick={startPractice} disabled={status === 'connecting'} className="inline-flex items-center gap-4 px-12 py-6 bg-indigo-600 text-white rounded-full font-black text-xl shadow-2xl hover:bg-indigo-700 hover:scale-105 active:scale-95 transition-all">
             {status === 'connecting' ? 'Connecting Neural Buyer...' : <><ICONS.Play /> Start Simulation</>}
           </button>
           {status === 'error' && <p className="text-rose-500 text-sm font-bold">Connection failed. Ensure microphone access and valid key.</p>}
+          {scorecard && <PracticeScorecard scorecard={scorecard} />}
+          {recordings.length > 0 && <SessionHistory recordings={recordings} onDelete={onDeleteRecording} />}
         </div>
       ) : (
         <div className="flex-1 grid grid-cols-1 lg:grid-cols-3 gap-8 overflow-hidden">
@@ -202,7 +423,8 @@ export const PracticeSession: React.FC<PracticeSessionProps> = ({ analysis }) =>
                <div className="w-32 h-32 bg-indigo-600 rounded-full flex items-center justify-center text-white scale-150 shadow-2xl shadow-indigo-500/50"><ICONS.Brain /></div>
             </div>
             <div className="text-center space-y-2">
-               <h5 className="text-white text-xl font-bold">{analysis.snapshot.role}</h5>
+               <h5 className="text-white text-xl font-bold">{buyerLabel}</h5>
+               <p className="text-indigo-300 text-[9px] font-black uppercase tracking-widest">{settings.difficulty} · {settings.interruptionFrequency} interruptions · {settings.voiceName}</p>
                <p className="text-slate-400 text-sm italic">"I'm listening. Show me the value."</p>
             </div>
             <div className="absolute bottom-8 inset-x-8 h-24 overflow-y-auto no-scrollbar flex flex-col justify-end">
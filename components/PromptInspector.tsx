@@ -0,0 +1,83 @@
+import React, { useMemo, useState } from 'react';
+import { MeetingContext } from '../types';
+import { ICONS } from '../constants';
+import { ANALYSIS_STAGES } from '../services/analysisPlanner';
+import { composeAnalysisPrompt, composeSearchPrompt } from '../services/promptComposer';
+import { createRedactor, redactContext } from '../services/redaction';
+import { estimateTokens } from '../services/usageTracker';
+
+interface PromptInspectorProps {
+  context: MeetingContext;
+}
+
+const SEARCH_TARGET = 'search';
+const DOCUMENTS_PLACEHOLDER = '[Uploaded documents are inserted here]';
+const CHUNKS_PLACEHOLDER = '[Retrieved source chunks are inserted here]';
+
+export const PromptInspector: React.FC<PromptInspectorProps> = ({ context }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [target, setTarget] = useState<string>(ANALYSIS_STAGES[0].label);
+  const [question, setQuestion] = useState('What are their main concerns about implementation?');
+
+  // Masked the same way geminiService masks a real call, so redacted values show as placeholders here too
+  const composed = useMemo(() => {
+    const redactor = createRedactor(context.redaction, context);
+    const masked = redactContext(redactor, context);
+    if (target === SEARCH_TARGET) return composeSearchPrompt({ question: redactor.redact(question), filesContent: CHUNKS_PLACEHOLDER, context: masked, history: [] });
+    const stage = ANALYSIS_STAGES.find(s => s.label === target) ?? ANALYSIS_STAGES[0];
+    return composeAnalysisPrompt(stage.sections, DOCUMENTS_PLACEHOLDER, masked);
+  }, [context, target, question]);
+
+  return (
+    <div className="bg-white rounded-[2.5rem] p-10 shadow-xl border border-slate-100 space-y-8">
+      <div className="flex items-center justify-between gap-6">
+        <div>
+          <h3 className="text-xl font-bold text-slate-800">Effective Prompt Inspector</h3>
+          <p className="text-xs text-slate-400 leading-relaxed font-medium mt-1">The exact system and user prompts composed from the saved configuration above, before documents are attached.</p>
+        </div>
+        <button
+          onClick={() => setIsOpen(v => !v)}
+          className="shrink-0 flex items-center gap-2 px-5 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest bg-slate-100 text-slate-600 hover:bg-slate-200 transition-all"
+        >
+          <ICONS.Search className="w-3 h-3" /> {isOpen ? 'Hide Prompt' : 'View Effective Prompt'}
+        </button>
+      </div>
+
+      {isOpen && (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {[...ANALYSIS_STAGES.map(s => ({ id: s.label, label: `Brief: ${s.label}` })), { id: SEARCH_TARGET, label: 'Cognitive Search' }].map(option => (
+              <button
+                key={option.id}
+                onClick={() => setTarget(option.id)}
+                className={`px-4 py-2 rounded-xl text-[10px] font-bold border transition-all ${target === option.id ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-100 hover:border-indigo-200'}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          {target === SEARCH_TARGET && (
+            <input
+              type="text"
+              value={question}
+              onChange={e => setQuestion(e.target.value)}
+              placeholder="Sample question"
+              className="w-full bg-slate-50 border border-slate-100 rounded-2xl px-5 py-3 text-sm text-slate-700 outline-none focus:border-indigo-300"
+            />
+          )}
+
+          {[{ title: 'System Instruction', text: composed.systemInstruction }, { title: 'User Prompt', text: composed.prompt }].map(block => (
+            <div key={block.title} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">{block.title}</label>
+                <span className="text-[9px] font-black uppercase tracking-widest text-slate-300">~{estimateTokens(block.text).toLocaleString()} tokens</span>
+              </div>
+              <pre className="bg-slate-900 text-slate-200 rounded-[2rem] p-8 text-xs font-mono leading-relaxed whitespace-pre-wrap max-h-96 overflow-y-auto">{block.text}</pre>
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+};
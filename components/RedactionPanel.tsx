@@ -0,0 +1,136 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { MeetingContext, RedactionKind, RedactionSettings, UploadedFile } from '../types';
+import { ICONS } from '../constants';
+import { compileCustomPatterns, createRedactor, redactContext } from '../services/redaction';
+
+interface RedactionPanelProps {
+  context: MeetingContext;
+  files: UploadedFile[];
+  onContextChange: (updated: MeetingContext) => void;
+}
+
+const DETECTORS: { kind: RedactionSettings['kinds'][number]; label: string }[] = [
+  { kind: 'email', label: 'Emails' },
+  { kind: 'phone', label: 'Phone Numbers' },
+  { kind: 'money', label: 'Monetary Values' },
+  { kind: 'name', label: 'People' },
+];
+
+const KIND_STYLES: Record<RedactionKind, string> = {
+  email: 'bg-sky-50 text-sky-700 border-sky-100',
+  phone: 'bg-violet-50 text-violet-700 border-violet-100',
+  money: 'bg-emerald-50 text-emerald-700 border-emerald-100',
+  name: 'bg-amber-50 text-amber-700 border-amber-100',
+  custom: 'bg-rose-50 text-rose-700 border-rose-100',
+};
+
+export const RedactionPanel: React.FC<RedactionPanelProps> = ({ context, files, onContextChange }) => {
+  const settings = context.redaction;
+  const [patternDraft, setPatternDraft] = useState(settings.customPatterns.join('\n'));
+  const [showAudit, setShowAudit] = useState(false);
+
+  useEffect(() => {
+    setPatternDraft(settings.customPatterns.join('\n'));
+  }, [settings.customPatterns]);
+
+  const update = (patch: Partial<RedactionSettings>) => onContextChange({ ...context, redaction: { ...settings, ...patch } });
+
+  const toggleKind = (kind: RedactionSettings['kinds'][number]) =>
+    update({ kinds: settings.kinds.includes(kind) ? settings.kinds.filter(k => k !== kind) : [...settings.kinds, kind] });
+
+  const invalidPatterns = useMemo(() => compileCustomPatterns(settings.customPatterns).invalid, [settings.customPatterns]);
+
+  // Replays exactly what the next model call would mask, file by file
+  const entries = useMemo(() => {
+    if (!settings.enabled) return [];
+    const redactor = createRedactor(settings, context);
+    files.filter(f => f.status === 'ready').forEach(f => redactor.redact(f.content, f.name));
+    redactContext(redactor, context);
+    return redactor.entries();
+  }, [settings, context, files]);
+
+  return (
+    <div className="bg-white rounded-[2.5rem] p-10 shadow-xl border border-slate-100 space-y-8">
+      <div className="flex items-center justify-between gap-6">
+        <div>
+          <h3 className="text-xl font-bold text-slate-800">Data Redaction</h3>
+          <p className="text-xs text-slate-400 leading-relaxed font-medium mt-1">Mask sensitive values locally before documents reach the model. Placeholders are restored in the brief.</p>
+        </div>
+        <button
+          onClick={() => update({ enabled: !settings.enabled })}
+          className={`shrink-0 px-5 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${settings.enabled ? 'bg-emerald-500 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+        >
+          {settings.enabled ? 'Redaction On' : 'Redaction Off'}
+        </button>
+      </div>
+
+      {settings.enabled && (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {DETECTORS.map(d => (
+              <button
+                key={d.kind}
+                onClick={() => toggleKind(d.kind)}
+                className={`px-4 py-2 rounded-xl text-[10px] font-bold border transition-all ${settings.kinds.includes(d.kind) ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-100 hover:border-indigo-200'}`}
+              >
+                {d.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-[10px] text-slate-400 font-medium">People are matched from the client, seller and stakeholder names above, plus titled names such as "Dr. Lee". Any other name in the documents is not detected and reaches the model as written; add it to the context or as a custom pattern. Scanned pages are read with local OCR only while redaction is on.</p>
+
+          <div className="space-y-2">
+            <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">Custom Patterns (one regular expression per line)</label>
+            <textarea
+              value={patternDraft}
+              onChange={e => setPatternDraft(e.target.value)}
+              onBlur={() => update({ customPatterns: patternDraft.split('\n').map(p => p.trim()).filter(Boolean) })}
+              rows={3}
+              placeholder={'Project\\s+Falcon\nACCT-\\d{6}'}
+              className="w-full bg-slate-50 border border-slate-100 rounded-2xl px-5 py-4 text-sm font-mono text-slate-700 outline-none focus:border-indigo-300"
+            />
+            {invalidPatterns.length > 0 && (
+              <p className="text-[10px] text-rose-500 font-bold">Ignored invalid or empty-matching pattern(s): {invalidPatterns.join(', ')}</p>
+            )}
+          </div>
+
+          <div className="space-y-4">
+            <button onClick={() => setShowAudit(v => !v)} className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-indigo-600 hover:text-indigo-800">
+              <ICONS.Shield className="w-3 h-3" /> {showAudit ? 'Hide' : 'Show'} Redaction Audit ({entries.length} value{entries.length === 1 ? '' : 's'} masked)
+            </button>
+            {showAudit && (
+              <p className="text-[10px] text-amber-600 font-medium">Only the values listed here are masked. Names that are not in the context and carry no title are sent unmasked.</p>
+            )}
+            {showAudit && (
+              entries.length === 0 ? (
+                <p className="text-slate-300 text-xs italic">Nothing in the loaded documents or context matches the active detectors.</p>
+              ) : (
+                <div className="overflow-x-auto rounded-[2rem] border border-slate-100 max-h-96 overflow-y-auto">
+                  <table className="w-full text-left text-xs">
+                    <thead className="bg-slate-50 sticky top-0">
+                      <tr>
+                        {['Placeholder', 'Type', 'Original Value', 'Found In'].map(h => (
+                          <th key={h} className="px-4 py-3 text-[9px] font-black uppercase tracking-widest text-slate-500">{h}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {entries.map(entry => (
+                        <tr key={entry.placeholder} className="border-t border-slate-100">
+                          <td className="px-4 py-3 font-mono font-bold text-slate-700">{entry.placeholder}</td>
+                          <td className="px-4 py-3"><span className={`px-2 py-0.5 rounded-full border text-[9px] font-black uppercase tracking-widest ${KIND_STYLES[entry.kind]}`}>{entry.kind}</span></td>
+                          <td className="px-4 py-3 text-slate-600">{entry.value}</td>
+                          <td className="px-4 py-3 text-slate-400">{Object.entries(entry.sources).map(([source, count]) => `${source} (${count})`).join(', ')}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
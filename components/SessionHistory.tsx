@@ -0,0 +1,102 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { PracticeRecording } from '../types';
+import { ICONS } from '../constants';
+
+interface SessionHistoryProps {
+  recordings: PracticeRecording[];
+  onDelete: (id: string) => void;
+}
+
+const formatDuration = (seconds: number) => {
+  const total = Math.round(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+export const SessionHistory: React.FC<SessionHistoryProps> = ({ recordings, onDelete }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  const selected = recordings.find(r => r.id === selectedId) ?? null;
+
+  useEffect(() => {
+    setCurrentTime(0);
+    if (!selected) {
+      setAudioUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(selected.audio);
+    setAudioUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [selected?.id]);
+
+  const seek = (seconds?: number) => {
+    if (seconds === undefined || !audioRef.current) return;
+    audioRef.current.currentTime = seconds;
+    audioRef.current.play();
+  };
+
+  return (
+    <div className="w-full text-left space-y-4">
+      <p className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400">Session History</p>
+      <div className="space-y-2">
+        {recordings.map(r => (
+          <div
+            key={r.id}
+            className={`flex items-center justify-between gap-4 p-4 rounded-2xl border transition-all ${r.id === selectedId ? 'bg-indigo-50 border-indigo-200' : 'bg-white border-slate-100 hover:border-indigo-200'}`}
+          >
+            <button onClick={() => setSelectedId(r.id === selectedId ? null : r.id)} className="flex-1 flex items-center gap-4 text-left">
+              <div className="p-2 bg-indigo-600 text-white rounded-xl"><ICONS.Play className="w-4 h-4" /></div>
+              <div>
+                <p className="text-sm font-bold text-slate-800">{r.buyerLabel}</p>
+                <p className="text-[9px] font-black uppercase tracking-widest text-slate-400">
+                  {new Date(r.createdAt).toLocaleString()} · {formatDuration(r.durationSeconds)} · {r.settings.difficulty}
+                </p>
+              </div>
+            </button>
+            {r.scorecard && <span className="text-lg font-black text-indigo-600">{r.scorecard.overallScore}</span>}
+            <button onClick={() => onDelete(r.id)} title="Delete recording" className="p-2 text-slate-300 hover:text-rose-500 transition-colors"><ICONS.X className="w-4 h-4" /></button>
+          </div>
+        ))}
+      </div>
+
+      {selected && audioUrl && (
+        <div className="p-6 bg-slate-900 rounded-[2rem] space-y-4">
+          <div className="flex items-center gap-4">
+            <audio
+              ref={audioRef}
+              src={audioUrl}
+              controls
+              onTimeUpdate={e => setCurrentTime(e.currentTarget.currentTime)}
+              className="flex-1"
+            />
+            <a
+              href={audioUrl}
+              download={`practice-${new Date(selected.createdAt).toISOString().slice(0, 19).replace(/:/g, '-')}.wav`}
+              className="px-4 py-2 bg-indigo-600 text-white text-[9px] font-black uppercase tracking-widest rounded-full hover:bg-indigo-700 transition-all"
+            >
+              Download WAV
+            </a>
+          </div>
+          <div className="max-h-72 overflow-y-auto space-y-2 pr-2">
+            {selected.transcript.map((turn, i) => {
+              const playing = turn.start !== undefined && turn.end !== undefined && currentTime >= turn.start && currentTime < turn.end;
+              return (
+                <button
+                  key={i}
+                  onClick={() => seek(turn.start)}
+                  className={`w-full text-left p-3 rounded-xl border transition-all space-y-1 ${playing ? 'bg-indigo-600/30 border-indigo-400' : 'bg-slate-800/50 border-slate-800 hover:border-slate-600'}`}
+                >
+                  {turn.start !== undefined && <p className="text-[8px] font-black uppercase tracking-widest text-slate-500">{formatDuration(turn.start)}</p>}
+                  {turn.user && <p className="text-xs text-indigo-200 italic">You: {turn.user}</p>}
+                  {turn.ai && <p className="text-xs text-emerald-300 font-bold">Buyer: {turn.ai}</p>}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
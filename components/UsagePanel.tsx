@@ -0,0 +1,171 @@
+import React, { useMemo, useState } from 'react';
+import { CostSettings, MeetingContext, ModelPrice, UsageOperation, UsageRecord } from '../types';
+import { ICONS } from '../constants';
+import { groupUsage } from '../services/usageTracker';
+
+interface UsagePanelProps {
+  context: MeetingContext;
+  usage: UsageRecord[];
+  onContextChange: (updated: MeetingContext) => void;
+}
+
+const OPERATION_LABELS: Record<UsageOperation, string> = {
+  analysis: 'Analysis Run',
+  search: 'Search',
+  practice: 'Practice Session',
+  ocr: 'Vision OCR',
+  audio: 'Audio Briefing',
+  explanation: 'Coach Question',
+  suggestions: 'Suggestions',
+};
+
+const formatCost = (cost: number) => cost > 0 && cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+const formatTokens = (tokens: number) => tokens.toLocaleString();
+
+export const UsagePanel: React.FC<UsagePanelProps> = ({ context, usage, onContextChange }) => {
+  const settings = context.costControls;
+  const [showPrices, setShowPrices] = useState(false);
+
+  const update = (patch: Partial<CostSettings>) => onContextChange({ ...context, costControls: { ...settings, ...patch } });
+  const updatePrice = (index: number, patch: Partial<ModelPrice>) =>
+    update({ prices: settings.prices.map((p, i) => i === index ? { ...p, ...patch } : p) });
+
+  const groups = useMemo(() => groupUsage(usage, settings.prices), [usage, settings.prices]);
+
+  const totals = useMemo(() => {
+    const byOperation = (ops: UsageOperation[]) => groups.filter(g => ops.includes(g.operation)).reduce((sum, g) => sum + g.cost, 0);
+    return {
+      cost: groups.reduce((sum, g) => sum + g.cost, 0),
+      tokens: groups.reduce((sum, g) => sum + g.inputTokens + g.outputTokens + g.thinkingTokens, 0),
+      tiles: [
+        { label: 'Analysis Runs', cost: byOperation(['analysis']), count: groups.filter(g => g.operation === 'analysis').length },
+        { label: 'Searches', cost: byOperation(['search']), count: groups.filter(g => g.operation === 'search').length },
+        { label: 'Practice Sessions', cost: byOperation(['practice']), count: groups.filter(g => g.operation === 'practice').length },
+        { label: 'OCR & Audio', cost: byOperation(['ocr', 'audio', 'explanation', 'suggestions']), count: groups.filter(g => !['analysis', 'search', 'practice'].includes(g.operation)).length },
+      ],
+    };
+  }, [groups]);
+
+  return (
+    <div className="bg-white rounded-[2.5rem] p-10 shadow-xl border border-slate-100 space-y-8">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-6">
+        <div>
+          <h3 className="text-xl font-bold text-slate-800">Usage & Cost</h3>
+          <p className="text-xs text-slate-400 leading-relaxed font-medium mt-1">Token usage of every model call in this workspace, priced from the table below. Costs are estimates.</p>
+        </div>
+        <div className="flex items-center gap-4 shrink-0">
+          <div className="text-right">
+            <p className="text-2xl font-black text-slate-900">{formatCost(totals.cost)}</p>
+            <p className="text-[9px] font-black uppercase tracking-widest text-slate-400">{formatTokens(totals.tokens)} tokens</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {totals.tiles.map(tile => (
+          <div key={tile.label} className="bg-slate-50 border border-slate-100 rounded-2xl p-5">
+            <p className="text-[9px] font-black uppercase tracking-widest text-slate-400 mb-2">{tile.label}</p>
+            <p className="text-lg font-black text-slate-800">{formatCost(tile.cost)}</p>
+            <p className="text-[10px] text-slate-400 font-medium">{tile.count} recorded</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">Budget Per Analysis Run (USD)</label>
+        <input
+          type="number"
+          min={0}
+          step={0.1}
+          value={settings.budgetPerRun}
+          onChange={e => update({ budgetPerRun: Math.max(0, parseFloat(e.target.value) || 0) })}
+          className="w-28 bg-slate-50 border border-slate-100 rounded-xl px-4 py-2 text-sm font-bold text-slate-700 outline-none focus:border-indigo-300"
+        />
+        <p className="text-[10px] text-slate-400 font-medium">Runs estimated above this ask for confirmation first. 0 turns the warning off.</p>
+      </div>
+
+      {groups.length === 0 ? (
+        <p className="text-slate-300 text-xs italic">No model calls recorded in this workspace yet.</p>
+      ) : (
+        <div className="overflow-x-auto rounded-[2rem] border border-slate-100 max-h-96 overflow-y-auto">
+          <table className="w-full text-left text-xs">
+            <thead className="bg-slate-50 sticky top-0">
+              <tr>
+                {['When', 'Activity', 'Calls', 'Input', 'Output', 'Thinking', 'Latency', 'Cost'].map(h => (
+                  <th key={h} className="px-4 py-3 text-[9px] font-black uppercase tracking-widest text-slate-500">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {groups.map(group => (
+                <tr key={group.key} className="border-t border-slate-100">
+                  <td className="px-4 py-3 text-slate-400 whitespace-nowrap">{new Date(group.startedAt).toLocaleString()}</td>
+                  <td className="px-4 py-3">
+                    <p className="font-bold text-slate-700">{OPERATION_LABELS[group.operation]}</p>
+                    {group.detail && <p className="text-[10px] text-slate-400 truncate max-w-xs">{group.detail}</p>}
+                  </td>
+                  <td className="px-4 py-3 text-slate-600">{group.calls}</td>
+                  <td className="px-4 py-3 text-slate-600">{formatTokens(group.inputTokens)}</td>
+                  <td className="px-4 py-3 text-slate-600">{formatTokens(group.outputTokens)}</td>
+                  <td className="px-4 py-3 text-slate-600">{formatTokens(group.thinkingTokens)}</td>
+                  <td className="px-4 py-3 text-slate-600">{(group.latencyMs / 1000).toFixed(1)}s</td>
+                  <td className="px-4 py-3 font-bold text-slate-800" title={group.unpriced ? 'Some calls used a model missing from the price table' : undefined}>
+                    {formatCost(group.cost)}{group.unpriced && <span className="text-amber-500"> *</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        <button onClick={() => setShowPrices(v => !v)} className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-indigo-600 hover:text-indigo-800">
+          <ICONS.Efficiency className="w-3 h-3" /> {showPrices ? 'Hide' : 'Edit'} Price Table ({settings.prices.length} model{settings.prices.length === 1 ? '' : 's'})
+        </button>
+        {showPrices && (
+          <div className="space-y-3">
+            {settings.prices.map((price, i) => (
+              <div key={i} className="grid grid-cols-[minmax(0,1fr)_8rem_8rem_auto] gap-3 items-center">
+                <input
+                  value={price.model}
+                  onChange={e => updatePrice(i, { model: e.target.value })}
+                  placeholder="Model id"
+                  className="bg-slate-50 border border-slate-100 rounded-xl px-4 py-2 text-xs font-mono text-slate-700 outline-none focus:border-indigo-300"
+                />
+                <input
+                  type="number"
+                  min={0}
+                  step={0.01}
+                  value={price.inputPerMillion}
+                  onChange={e => updatePrice(i, { inputPerMillion: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  title="USD per million input tokens"
+                  className="bg-slate-50 border border-slate-100 rounded-xl px-4 py-2 text-xs text-slate-700 outline-none focus:border-indigo-300"
+                />
+                <input
+                  type="number"
+                  min={0}
+                  step={0.01}
+                  value={price.outputPerMillion}
+                  onChange={e => updatePrice(i, { outputPerMillion: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  title="USD per million output and thinking tokens"
+                  className="bg-slate-50 border border-slate-100 rounded-xl px-4 py-2 text-xs text-slate-700 outline-none focus:border-indigo-300"
+                />
+                <button onClick={() => update({ prices: settings.prices.filter((_, j) => j !== i) })} className="p-2 text-slate-300 hover:text-rose-500 transition-colors">
+                  <ICONS.X className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            <p className="text-[10px] text-slate-400 font-medium">Prices are USD per million tokens: input, then output. Thinking tokens are billed as output.</p>
+            <button
+              onClick={() => update({ prices: [...settings.prices, { model: '', inputPerMillion: 0, outputPerMillion: 0 }] })}
+              className="px-4 py-2 rounded-xl text-[10px] font-bold border border-slate-100 text-slate-600 hover:border-indigo-200"
+            >
+              + Add Model
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,14 +1,16 @@
 
 import React, { useState, useRef, useCallback } from 'react';
-import { AnalysisResult } from '../types';
+import { AnalysisResult, MeetingContext } from '../types';
 import { ICONS } from '../constants';
-import { GoogleGenAI, Modality, LiveServerMessage } from '@google/genai';
+import { createLiveClient, maskLiveInstruction } from '../services/geminiService';
+import { Modality, LiveServerMessage } from '@google/genai';
 
 interface PracticeSessionProps {
   analysis: AnalysisResult;
+  context: MeetingContext;
 }
 
-export const PracticeSession: React.FC<PracticeSessionProps> = ({ analysis }) => {
+export const PracticeSession: React.FC<PracticeSessionProps> = ({ analysis, context }) => {
   const [isActive, setIsActive] = useState(false);
   const [status, setStatus] = useState<'idle' | 'connecting' | 'active' | 'error'>('idle');
   const [transcription, setTranscription] = useState<{ user: string; ai: string }[]>([]);
@@ -67,7 +69,19 @@ export const PracticeSession: React.FC<PracticeSessionProps> = ({ analysis }) =>
   const startPractice = async () => {
     setStatus('connecting');
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+      const ai = createLiveClient();
+      const { instruction } = maskLiveInstruction(`You are simulating a practice sales session. ACT AS THE BUYER defined in the following profile:
+          ROLE: ${analysis.snapshot.role}
+          DECISION STYLE: ${analysis.snapshot.decisionStyle}
+          RISK TOLERANCE: ${analysis.snapshot.riskTolerance}
+          TONE: ${analysis.snapshot.tone}
+          PRIORITIES: ${analysis.snapshot.priorities.map(p => p.text).join(', ')}
+          
+          Guidelines:
+          1. React naturally to the salesperson. 
+          2. Use objections like: ${analysis.objectionHandling.map(o => o.objection).join(', ')}.
+          3. Challenge their points based on your role's fears and priorities.
+          4. Keep responses brief to keep the flow alive.`, context);
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
       streamRef.current = stream;
 
@@ -140,18 +154,7 @@ export const PracticeSession: React.FC<PracticeSessionProps> = ({ analysis }) =>
           inputAudioTranscription: {},
           outputAudioTranscription: {},
           speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Charon' } } },
-          systemInstruction: `You are simulating a practice sales session. ACT AS THE BUYER defined in the following profile:
-          ROLE: ${analysis.snapshot.role}
-          DECISION STYLE: ${analysis.snapshot.decisionStyle}
-          RISK TOLERANCE: ${analysis.snapshot.riskTolerance}
-          TONE: ${analysis.snapshot.tone}
-          PRIORITIES: ${analysis.snapshot.priorities.map(p => p.text).join(', ')}
-          
-          Guidelines:
-          1. React naturally to the salesperson. 
-          2. Use objections like: ${analysis.objectionHandling.map(o => o.objection).join(', ')}.
-          3. Challenge their points based on your role's fears and priorities.
-          4. Keep responses brief to keep the flow alive.`
+          systemInstruction: instruction
         },
       });
       sessionRef.current = await sessionPromise;
@@ -1,5 +1,57 @@
 
 import React from 'react';
+import { MeetingContext, ThinkingLevel } from './types';
+
+export const DEFAULT_MEETING_CONTEXT: MeetingContext = {
+  sellerCompany: "",
+  sellerNames: "",
+  clientCompany: "",
+  clientNames: "",
+  targetProducts: "",
+  productDomain: "",
+  meetingFocus: "",
+  persona: "Balanced",
+  thinkingLevel: "Medium",
+  temperature: 1.0,
+  answerStyles: [
+    "Executive Summary",
+    "Data-Driven Insights",
+    "Concise Answer",
+    "Sales Points",
+    "Anticipated Customer Questions"
+  ],
+  executiveSnapshot: "",
+  strategicKeywords: [],
+  competitors: [
+    { name: "Cognigy", websiteNotes: "", knownWeaknesses: [] },
+    { name: "Amelia", websiteNotes: "", knownWeaknesses: [] }
+  ],
+  stakeholders: [],
+  redaction: {
+    enabled: false,
+    kinds: ['email', 'phone', 'money', 'name'],
+    customPatterns: []
+  },
+  costControls: {
+    budgetPerRun: 1.0,
+    // List prices at the time of writing; edit them in the usage panel when they change
+    prices: [
+      { model: 'gemini-3-pro-preview', inputPerMillion: 2.0, outputPerMillion: 12.0 },
+      { model: 'gemini-3-flash-preview', inputPerMillion: 0.5, outputPerMillion: 3.0 },
+      { model: 'gemini-2.5-flash-preview-tts', inputPerMillion: 0.5, outputPerMillion: 10.0 },
+      { model: 'gemini-2.5-flash-native-audio-preview-12-2025', inputPerMillion: 3.0, outputPerMillion: 12.0 },
+    ]
+  },
+  baseSystemPrompt: ""
+};
+
+// Thinking-token budget per call for each ThinkingLevel
+export const THINKING_BUDGETS: Record<ThinkingLevel, number> = {
+  'Minimal': 0,
+  'Low': 4000,
+  'Medium': 16000,
+  'High': 32768
+};
 
 export const ICONS = {
   Document: ({ className }: { className?: string } = {}) => (
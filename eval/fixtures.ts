@@ -0,0 +1,114 @@
+import { readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { MeetingContext, ThinkingLevel, TokenUsage, UploadedFile } from '../types';
+import { DEFAULT_MEETING_CONTEXT } from '../constants';
+import { extractTextDocument } from '../services/documentExtractors';
+
+/**
+ * Golden deal bundles and the model responses recorded against them. Each
+ * fixture folder holds text documents, a context.json and an expected.json;
+ * recordings live under eval/recordings/<fixture>/<variant>.json so scoring
+ * never needs the network.
+ */
+
+// Each fact lists interchangeable phrasings; any one of them appearing counts as covered
+export type Fact = string[];
+
+export interface SearchCase {
+  question: string;
+  facts: Fact[];
+}
+
+export interface ExpectedFacts {
+  roles: Fact[];
+  objections: Fact[];
+  metrics: Fact[];
+  // Source passages a well-grounded brief should quote
+  snippets: string[];
+  searches: SearchCase[];
+}
+
+export interface EvalFixture {
+  id: string;
+  files: UploadedFile[];
+  context: MeetingContext;
+  expected: ExpectedFacts;
+}
+
+export interface EvalVariant {
+  id: string;
+  thinkingLevel: ThinkingLevel;
+  temperature: number;
+}
+
+export interface EvalRecording {
+  fixture: string;
+  variant: EvalVariant;
+  provider: string;
+  model: string;
+  recordedAt: string;
+  // Raw provider output, validated at scoring time so schema gaps stay visible
+  analysis: unknown;
+  searches: { question: string; result: unknown }[];
+  usage: TokenUsage[];
+}
+
+const MIME_TYPES: Record<string, string> = {
+  txt: 'text/plain',
+  md: 'text/markdown',
+  csv: 'text/csv',
+};
+
+const RESERVED_FILES = ['context.json', 'expected.json'];
+
+const asFact = (value: string | string[]): Fact => Array.isArray(value) ? value : [value];
+
+const readJson = async (file: string) => JSON.parse(await readFile(file, 'utf8'));
+
+export const recordingPath = (recordingsDir: string, fixture: string, variant: string) =>
+  path.join(recordingsDir, fixture, `${variant}.json`);
+
+export async function loadFixture(fixturesDir: string, id: string): Promise<EvalFixture> {
+  const dir = path.join(fixturesDir, id);
+  const expected = await readJson(path.join(dir, 'expected.json'));
+  const names = (await readdir(dir)).filter(name => !RESERVED_FILES.includes(name)).sort();
+
+  const files: UploadedFile[] = [];
+  for (const name of names) {
+    const extension = name.split('.').pop()?.toLowerCase() || '';
+    if (!MIME_TYPES[extension]) throw new Error(`Unsupported fixture document ${id}/${name}; fixtures are text only`);
+    const buffer = await readFile(path.join(dir, name));
+    const arrayBuffer = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+    const { content, tables } = await extractTextDocument(name, arrayBuffer);
+    files.push({ name, type: MIME_TYPES[extension], status: 'ready', content, tables });
+  }
+
+  return {
+    id,
+    files,
+    context: { ...DEFAULT_MEETING_CONTEXT, ...(await readJson(path.join(dir, 'context.json'))) },
+    expected: {
+      roles: (expected.roles ?? []).map(asFact),
+      objections: (expected.objections ?? []).map(asFact),
+      metrics: (expected.metrics ?? []).map(asFact),
+      snippets: expected.snippets ?? [],
+      searches: (expected.searches ?? []).map((s: any) => ({ question: s.question, facts: (s.facts ?? []).map(asFact) })),
+    },
+  };
+}
+
+export async function loadFixtures(fixturesDir: string): Promise<EvalFixture[]> {
+  const entries = await readdir(fixturesDir, { withFileTypes: true });
+  const ids = entries.filter(entry => entry.isDirectory()).map(entry => entry.name).sort();
+  return Promise.all(ids.map(id => loadFixture(fixturesDir, id)));
+}
+
+/** Every recording for a fixture; a fixture that was never recorded has none. */
+export async function loadRecordings(recordingsDir: string, fixture: string): Promise<EvalRecording[]> {
+  const dir = path.join(recordingsDir, fixture);
+  const names = await readdir(dir).catch(() => [] as string[]);
+  return Promise.all(names.filter(name => name.endsWith('.json')).sort().map(name => readJson(path.join(dir, name))));
+}
+
+/** Same "FILE:" framing the app and the CLI send for a full brief. */
+export const combineFiles = (files: UploadedFile[]) => files.map(f => `FILE: ${f.name}\n${f.content}`).join('\n\n');
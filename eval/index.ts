@@ -0,0 +1,145 @@
+import { existsSync } from 'node:fs';
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { AnalysisResult, TokenUsage } from '../types';
+import { ANALYSIS_STAGES } from '../services/analysisPlanner';
+import { getProvider, ProviderCall, setProvider } from '../services/llmProvider';
+import { withRetry } from '../services/modelRequest';
+import { buildRetrievalIndex, formatChunksForPrompt, searchIndex } from '../services/retrieval';
+import { combineFiles, EvalFixture, EvalRecording, EvalVariant, loadFixtures, loadRecordings, recordingPath } from './fixtures';
+import { EvalScore, scoreRecording } from './scoring';
+import { formatReport } from './report';
+
+/**
+ * Offline evaluation of the analysis and search prompts. By default it scores
+ * the recorded responses in eval/recordings and never touches the network;
+ * --record runs every fixture through a provider once per variant and
+ * overwrites those recordings. Record again after changing a prompt, then
+ * compare the report against the previous one.
+ */
+
+const USAGE = `Usage: npm run eval -- [options]
+
+Options:
+  --record            Call the provider and overwrite the recordings before scoring them
+  --provider <id>     Provider to record with (default: gemini, needs GEMINI_API_KEY)
+  --variant <id>      Only this variant; repeatable
+  --fixture <id>      Only this fixture; repeatable
+  --baseline <id>     Variant the others are compared against (default: medium-t1.0)
+  --out <file>        Also write the Markdown report to a file
+  --help              Show this message`;
+
+const FIXTURES_DIR = path.resolve('eval/fixtures');
+const RECORDINGS_DIR = path.resolve('eval/recordings');
+// A single stage at the High thinking level can take minutes
+const ANALYSIS_TIMEOUT_MS = 300000;
+const SEARCH_TIMEOUT_MS = 120000;
+
+// Settings compared by --record; the first matches DEFAULT_MEETING_CONTEXT and is the usual baseline
+const EVAL_VARIANTS: EvalVariant[] = [
+  { id: 'medium-t1.0', thinkingLevel: 'Medium', temperature: 1.0 },
+  { id: 'low-t1.0', thinkingLevel: 'Low', temperature: 1.0 },
+  { id: 'high-t1.0', thinkingLevel: 'High', temperature: 1.0 },
+  { id: 'medium-t0.3', thinkingLevel: 'Medium', temperature: 0.3 },
+];
+
+/**
+ * Runs the same stages as the app's full brief, but calls the provider
+ * directly, without geminiService's redaction and validation, so the
+ * recording holds exactly what the model returned. A stage that still fails
+ * after retries is left out and shows up as schema repairs when scored.
+ */
+async function record(fixture: EvalFixture, variant: EvalVariant): Promise<EvalRecording> {
+  const provider = getProvider();
+  const context = { ...fixture.context, thinkingLevel: variant.thinkingLevel, temperature: variant.temperature };
+  const usage: TokenUsage[] = [];
+  const call = (signal: AbortSignal): ProviderCall => ({ signal, onUsage: u => usage.push(u) });
+
+  const filesContent = combineFiles(fixture.files);
+  let analysis: Partial<AnalysisResult> = {};
+  for (const { label, sections } of ANALYSIS_STAGES) {
+    try {
+      const request = { sections, filesContent, context, completed: analysis };
+      const update = await withRetry(signal => provider.analyzeSections(request, call(signal)), { timeoutMs: ANALYSIS_TIMEOUT_MS });
+      sections.forEach(section => {
+        if (update[section] !== undefined) analysis = { ...analysis, [section]: update[section] };
+      });
+    } catch (err: any) {
+      console.warn(`  ${label} stage failed: ${err?.message || err}`);
+    }
+  }
+  // Search gets the same retrieved chunks the Intelligence tab would send
+  const index = buildRetrievalIndex(fixture.files);
+  const searches: EvalRecording['searches'] = [];
+  for (const { question } of fixture.expected.searches) {
+    const chunks = formatChunksForPrompt(searchIndex(index, question));
+    const result = await withRetry(signal => provider.performCognitiveSearch({ question, filesContent: chunks, context, history: [] }, call(signal)), { timeoutMs: SEARCH_TIMEOUT_MS });
+    searches.push({ question, result });
+  }
+
+  return {
+    fixture: fixture.id,
+    variant,
+    provider: provider.id,
+    model: provider.models.analysis,
+    recordedAt: new Date().toISOString(),
+    analysis,
+    searches,
+    usage,
+  };
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      record: { type: 'boolean', default: false },
+      provider: { type: 'string', default: 'gemini' },
+      variant: { type: 'string', multiple: true },
+      fixture: { type: 'string', multiple: true },
+      baseline: { type: 'string' },
+      out: { type: 'string' },
+      help: { type: 'boolean', default: false },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const fixtures = (await loadFixtures(FIXTURES_DIR)).filter(f => !values.fixture || values.fixture.includes(f.id));
+  if (fixtures.length === 0) throw new Error(`No fixtures found in ${FIXTURES_DIR}`);
+  const wanted = (variant: string) => !values.variant || values.variant.includes(variant);
+
+  if (values.record) {
+    if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+    setProvider(values.provider!);
+    const variants = EVAL_VARIANTS.filter(v => wanted(v.id));
+    if (variants.length === 0) throw new Error(`Unknown variant; choose from ${EVAL_VARIANTS.map(v => v.id).join(', ')}`);
+    for (const fixture of fixtures) {
+      for (const variant of variants) {
+        console.log(`Recording ${fixture.id} / ${variant.id}`);
+        const file = recordingPath(RECORDINGS_DIR, fixture.id, variant.id);
+        await mkdir(path.dirname(file), { recursive: true });
+        await writeFile(file, JSON.stringify(await record(fixture, variant), null, 2) + '\n');
+      }
+    }
+  }
+
+  const scores: EvalScore[] = [];
+  for (const fixture of fixtures) {
+    const recordings = (await loadRecordings(RECORDINGS_DIR, fixture.id)).filter(r => wanted(r.variant.id));
+    if (recordings.length === 0) console.warn(`No recordings for ${fixture.id}; run with --record first`);
+    recordings.forEach(recording => scores.push(scoreRecording(fixture, recording, fixture.context.costControls.prices)));
+  }
+  if (scores.length === 0) throw new Error('Nothing to score');
+
+  const report = formatReport(scores, values.baseline ?? EVAL_VARIANTS[0].id);
+  console.log(report);
+  if (values.out) await writeFile(values.out, report);
+}
+
+main().catch(err => {
+  console.error(err?.message || err);
+  process.exit(1);
+});
@@ -0,0 +1,78 @@
+import { EvalScore } from './scoring';
+
+/**
+ * Markdown comparison of scored runs. The summary averages each variant over
+ * the fixtures it was recorded for and shows its overall delta against the
+ * baseline variant; the detail section lists what each run missed.
+ */
+
+interface VariantSummary {
+  variant: string;
+  provider: string;
+  fixtures: number;
+  citations: number;
+  coverage: number;
+  schema: number;
+  search: number;
+  overall: number;
+  tokens: number;
+  cost: number | null;
+}
+
+const mean = (values: number[]) => values.length === 0 ? 0 : values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const pct = (value: number) => `${Math.round(value * 100)}%`;
+
+const signed = (value: number) => `${value >= 0 ? '+' : ''}${Math.round(value * 100)}`;
+
+const coverageOf = (score: EvalScore) => mean(Object.values(score.coverage).map(c => c.score));
+
+export function summarizeVariants(scores: EvalScore[]): VariantSummary[] {
+  const variants = Array.from(new Set(scores.map(s => s.variant)));
+  return variants.map(variant => {
+    const runs = scores.filter(s => s.variant === variant);
+    const costs = runs.map(r => r.cost);
+    return {
+      variant,
+      provider: Array.from(new Set(runs.map(r => r.provider))).join(', '),
+      fixtures: runs.length,
+      citations: mean(runs.map(r => r.citations.score)),
+      coverage: mean(runs.map(coverageOf)),
+      schema: mean(runs.map(r => r.schema.score)),
+      search: mean(runs.map(r => r.search.coverage.score)),
+      overall: mean(runs.map(r => r.overall)),
+      tokens: runs.reduce((sum, r) => sum + r.tokens, 0),
+      cost: costs.some(c => c === null) ? null : costs.reduce<number>((sum, c) => sum + (c ?? 0), 0),
+    };
+  });
+}
+
+export function formatReport(scores: EvalScore[], baseline?: string): string {
+  const summaries = summarizeVariants(scores);
+  const base = summaries.find(s => s.variant === baseline) ?? summaries[0];
+  const lines = [
+    '# Prompt evaluation',
+    '',
+    `Baseline: ${base.variant}. Scores are 0-100%; Δ is the overall change in points against the baseline.`,
+    '',
+    '| Variant | Provider | Fixtures | Citations | Coverage | Schema | Search | Overall | Δ | Tokens | Cost |',
+    '| --- | --- | --- | --- | --- | --- | --- | --- | --- | --- | --- |',
+    ...summaries.map(s => `| ${s.variant} | ${s.provider} | ${s.fixtures} | ${pct(s.citations)} | ${pct(s.coverage)} | ${pct(s.schema)} | ${pct(s.search)} | ${pct(s.overall)} | ${s === base ? '-' : signed(s.overall - base.overall)} | ${s.tokens.toLocaleString()} | ${s.cost === null ? 'n/a' : `$${s.cost.toFixed(2)}`} |`),
+    '',
+    '## Runs',
+  ];
+
+  scores.forEach(score => {
+    const { citations, coverage, schema, search } = score;
+    lines.push(
+      '',
+      `### ${score.fixture} / ${score.variant}`,
+      '',
+      `- Citations: ${citations.verified} verified, ${citations.approximate} approximate, ${citations.unverified} unverified of ${citations.total}`,
+      ...Object.entries(coverage).map(([name, c]) => `- ${name}: ${c.matched}/${c.total}${c.missing.length ? ` (missing: ${c.missing.join('; ')})` : ''}`),
+      `- Schema: ${schema.repairs} repair(s)${schema.repairedSections.length ? ` in ${schema.repairedSections.join(', ')}` : ''}`,
+      `- Search: ${search.coverage.matched}/${search.coverage.total} facts${search.coverage.missing.length ? ` (missing: ${search.coverage.missing.join('; ')})` : ''}, ${search.citations.verified}/${search.citations.total} citations verified`,
+    );
+  });
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,196 @@
+import { AnalysisResult, CitationMatch, CitationStatus, CognitiveSearchResult, ModelPrice } from '../types';
+import { ANALYSIS_SECTIONS } from '../services/analysisPlanner';
+import { validateAnalysisResult } from '../services/analysisValidator';
+import { verifyAnalysisCitations, verifySearchCitations } from '../services/citationVerifier';
+import { costOf } from '../services/usageTracker';
+import { EvalFixture, EvalRecording, Fact } from './fixtures';
+
+/**
+ * Scores one recorded run against its fixture's expectations. Every score is
+ * 0-1: citation validity credits approximate matches at half weight,
+ * coverage is the share of expected facts found in the relevant sections,
+ * and schema completeness is the share of sections the validator did not
+ * have to repair.
+ */
+
+const APPROXIMATE_CREDIT = 0.5;
+// Shorter quotes match too much of the expected passage by accident
+const MIN_QUOTE_LENGTH = 12;
+
+export interface CitationScore {
+  total: number;
+  verified: number;
+  approximate: number;
+  unverified: number;
+  score: number;
+}
+
+export interface CoverageScore {
+  matched: number;
+  total: number;
+  // First phrasing of each fact that was not found
+  missing: string[];
+  score: number;
+}
+
+export interface SchemaScore {
+  repairedSections: string[];
+  repairs: number;
+  score: number;
+}
+
+export interface EvalScore {
+  fixture: string;
+  variant: string;
+  provider: string;
+  citations: CitationScore;
+  coverage: { roles: CoverageScore; objections: CoverageScore; metrics: CoverageScore; snippets: CoverageScore };
+  schema: SchemaScore;
+  search: { coverage: CoverageScore; citations: CitationScore };
+  tokens: number;
+  // null when a recorded model is missing from the price table
+  cost: number | null;
+  overall: number;
+}
+
+const normalize = (value: string) => value.toLowerCase().replace(/[’‘]/g, "'").replace(/\s+/g, ' ').trim();
+
+const mean = (values: number[]) => values.length === 0 ? 0 : values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+const collectMatches = (value: unknown, found: CitationMatch[] = []): CitationMatch[] => {
+  if (Array.isArray(value)) value.forEach(v => collectMatches(v, found));
+  else if (value && typeof value === 'object') {
+    const match = (value as { match?: CitationMatch }).match;
+    if (match && typeof match.status === 'string') found.push(match);
+    else Object.values(value).forEach(v => collectMatches(v, found));
+  }
+  return found;
+};
+
+const collectSnippets = (value: unknown, found: string[] = []): string[] => {
+  if (Array.isArray(value)) value.forEach(v => collectSnippets(v, found));
+  else if (value && typeof value === 'object') {
+    const snippet = (value as { snippet?: unknown }).snippet;
+    if (typeof snippet === 'string') found.push(snippet);
+    else Object.values(value).forEach(v => collectSnippets(v, found));
+  }
+  return found;
+};
+
+export function scoreCitations(matches: CitationMatch[]): CitationScore {
+  const count = (status: CitationStatus) => matches.filter(m => m.status === status).length;
+  const verified = count('verified');
+  const approximate = count('approximate');
+  return {
+    total: matches.length,
+    verified,
+    approximate,
+    unverified: count('unverified'),
+    score: matches.length === 0 ? 0 : round((verified + approximate * APPROXIMATE_CREDIT) / matches.length),
+  };
+}
+
+export function scoreCoverage(texts: string[], facts: Fact[]): CoverageScore {
+  const haystack = normalize(texts.join('\n'));
+  const missing = facts.filter(fact => !fact.some(phrase => haystack.includes(normalize(phrase)))).map(fact => fact[0]);
+  const matched = facts.length - missing.length;
+  return { matched, total: facts.length, missing, score: facts.length === 0 ? 1 : round(matched / facts.length) };
+}
+
+/** An expected passage counts as cited when some citation quotes it or a substantial part of it. */
+export function scoreSnippets(quotes: string[], expected: string[]): CoverageScore {
+  const normalizedQuotes = quotes.map(normalize).filter(q => q.length >= MIN_QUOTE_LENGTH);
+  const missing = expected.filter(passage => {
+    const target = normalize(passage);
+    return !normalizedQuotes.some(quote => quote.includes(target) || target.includes(quote));
+  });
+  const matched = expected.length - missing.length;
+  return { matched, total: expected.length, missing, score: expected.length === 0 ? 1 : round(matched / expected.length) };
+}
+
+export function scoreSchema(result: AnalysisResult): SchemaScore {
+  const repairedSections = result.validation?.repairedSections ?? [];
+  const broken = ANALYSIS_SECTIONS.filter(section => repairedSections.includes(section)).length;
+  return {
+    repairedSections,
+    repairs: result.validation?.repairs.length ?? 0,
+    // A root-level repair means the payload was not an object at all
+    score: repairedSections.includes('root') ? 0 : round(1 - broken / ANALYSIS_SECTIONS.length),
+  };
+}
+
+const roleTexts = (result: AnalysisResult) => [
+  result.snapshot.role,
+  ...result.buyingCommittee.flatMap(member => [member.title, member.committeeRole, member.snapshot.role]),
+];
+
+const objectionTexts = (result: AnalysisResult) => [
+  ...result.snapshot.likelyObjections.map(o => o.text),
+  ...result.objectionHandling.flatMap(o => [o.objection, o.realMeaning]),
+  ...result.buyingCommittee.flatMap(member => member.snapshot.likelyObjections.map(o => o.text)),
+];
+
+const metricTexts = (result: AnalysisResult) => [
+  ...result.documentInsights.entities.flatMap(e => [e.name, e.context]),
+  ...result.documentInsights.summaries.flatMap(s => [s.summary, ...s.criticalInsights]),
+  result.documentInsights.materialSynthesis,
+  ...result.groundMatrix.flatMap(m => [m.observation, m.significance]),
+];
+
+const searchTexts = (result: CognitiveSearchResult) => [
+  result.answer,
+  result.briefExplanation,
+  result.articularSoundbite,
+  ...result.citations.map(c => c.snippet),
+];
+
+export function scoreRecording(fixture: EvalFixture, recording: EvalRecording, prices: ModelPrice[]): EvalScore {
+  const competitorNames = fixture.context.competitors.map(c => c.name).filter(Boolean);
+  const result = verifyAnalysisCitations(validateAnalysisResult(recording.analysis, competitorNames), fixture.files);
+  const { expected } = fixture;
+
+  const coverage = {
+    roles: scoreCoverage(roleTexts(result), expected.roles),
+    objections: scoreCoverage(objectionTexts(result), expected.objections),
+    metrics: scoreCoverage(metricTexts(result), expected.metrics),
+    snippets: scoreSnippets(collectSnippets(result), expected.snippets),
+  };
+
+  // A search case with no recorded answer scores zero rather than being skipped
+  const searchFacts: Fact[] = [];
+  const searchTextsFound: string[] = [];
+  const searchMatches: CitationMatch[] = [];
+  expected.searches.forEach(searchCase => {
+    searchFacts.push(...searchCase.facts);
+    const recorded = recording.searches.find(s => s.question === searchCase.question);
+    if (!recorded?.result) return;
+    const verified = verifySearchCitations(recorded.result as CognitiveSearchResult, fixture.files);
+    searchTextsFound.push(...searchTexts(verified));
+    searchMatches.push(...collectMatches(verified.citations));
+  });
+
+  const citations = scoreCitations(collectMatches(result));
+  const schema = scoreSchema(result);
+  const search = { coverage: scoreCoverage(searchTextsFound, searchFacts), citations: scoreCitations(searchMatches) };
+  const costs = recording.usage.map(u => costOf(u, prices));
+
+  return {
+    fixture: fixture.id,
+    variant: recording.variant.id,
+    provider: recording.provider,
+    citations,
+    coverage,
+    schema,
+    search,
+    tokens: recording.usage.reduce((sum, u) => sum + u.inputTokens + u.outputTokens + u.thinkingTokens, 0),
+    cost: costs.some(c => c === null) ? null : costs.reduce<number>((sum, c) => sum + (c ?? 0), 0),
+    overall: round(mean([
+      citations.score,
+      mean(Object.values(coverage).map(c => c.score)),
+      schema.score,
+      search.coverage.score,
+    ])),
+  };
+}
@@ -0,0 +1,227 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { createReadStream, existsSync, statSync } from 'node:fs';
+import path from 'node:path';
+import { TokenUsage } from '../types';
+import { geminiProvider } from '../services/providers/geminiProvider';
+import { ProviderCall } from '../services/llmProvider';
+import { classifyError, ModelError, ModelErrorKind } from '../services/modelRequest';
+import { createRateLimiter } from './rateLimiter';
+import { attachLiveRelay } from './liveRelay';
+
+/**
+ * Local backend that keeps GEMINI_API_KEY out of the browser bundle. The
+ * client's proxyProvider posts each LLMProvider call to /api/<route>, where
+ * geminiProvider runs it with the server's key; live sessions go through the
+ * WebSocket relay. Every request is rate limited per user and logged. When a
+ * production build exists in dist/, the app itself is served too.
+ */
+
+if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+
+const PORT = Number(process.env.PROXY_PORT) || 8787;
+const RATE_LIMIT_PER_MINUTE = Number(process.env.RATE_LIMIT_PER_MINUTE) || 30;
+// Whole documents and page images travel in request bodies
+const MAX_BODY_BYTES = 25 * 1024 * 1024;
+const API_PREFIX = '/api';
+const STATIC_DIR = path.resolve('dist');
+
+type FieldType = 'string' | 'object' | 'array';
+
+interface Route {
+  // Required body fields; a request missing one is rejected before it reaches the model
+  fields: Record<string, FieldType>;
+  run: (body: any, call: ProviderCall) => Promise<unknown>;
+}
+
+const CONTEXT_FIELDS: Record<string, FieldType> = { filesContent: 'string', context: 'object' };
+
+const ROUTES: Record<string, Route> = {
+  'analyze': {
+    fields: CONTEXT_FIELDS,
+    run: (body, call) => geminiProvider.analyzeSalesContext(body.filesContent, body.context, call),
+  },
+  'analyze-sections': {
+    fields: { ...CONTEXT_FIELDS, sections: 'array', completed: 'object' },
+    run: (body, call) => geminiProvider.analyzeSections(body, call),
+  },
+  'regenerate': {
+    fields: { ...CONTEXT_FIELDS, mode: 'string', sections: 'array', previous: 'object' },
+    run: (body, call) => geminiProvider.regenerateSections(body, call),
+  },
+  'search': {
+    fields: { ...CONTEXT_FIELDS, question: 'string', history: 'array' },
+    run: (body, call) => geminiProvider.performCognitiveSearch(body, call),
+  },
+  'ocr': {
+    fields: { base64Data: 'string', mimeType: 'string' },
+    run: (body, call) => geminiProvider.performVisionOcr(body.base64Data, body.mimeType, call),
+  },
+  'tts': {
+    fields: { text: 'string', voiceName: 'string' },
+    run: async (body, call) => {
+      const audio = await geminiProvider.generatePitchAudio(body.text, body.voiceName, call);
+      return audio ? Buffer.from(audio).toString('base64') : null;
+    },
+  },
+  'explain': {
+    fields: { question: 'string', context: 'object' },
+    run: (body, call) => geminiProvider.generateExplanation(body.question, body.context, call),
+  },
+  'suggestions': {
+    fields: CONTEXT_FIELDS,
+    run: (body, call) => geminiProvider.generateDynamicSuggestions(body.filesContent, body.context, call),
+  },
+};
+
+const typeOf = (value: unknown): string => Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+
+/** Names the first field that is missing or has the wrong type; null when the body fits the route. */
+const invalidField = (body: unknown, fields: Record<string, FieldType>): string | null => {
+  if (typeOf(body) !== 'object') return `body must be a JSON object, got ${typeOf(body)}`;
+  const entry = Object.entries(fields).find(([name, type]) => typeOf((body as Record<string, unknown>)[name]) !== type);
+  return entry ? `"${entry[0]}" must be ${entry[1] === 'array' ? 'an' : 'a'} ${entry[1]}` : null;
+};
+
+const STATUS_BY_KIND: Record<ModelErrorKind, number> = {
+  quota: 429,
+  safety: 422,
+  timeout: 504,
+  schema: 502,
+  // The upstream rejected the server's key, which the browser cannot fix
+  auth: 502,
+  unavailable: 503,
+  cancelled: 499,
+  unknown: 500,
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+  '.woff2': 'font/woff2',
+};
+
+const limiter = createRateLimiter(RATE_LIMIT_PER_MINUTE, 60000);
+
+// Behind a reverse proxy every request shares one socket address, so the forwarded client is used instead
+const userOf = (req: IncomingMessage): string => {
+  const forwarded = process.env.TRUST_PROXY ? String(req.headers['x-forwarded-for'] ?? '').split(',')[0].trim() : '';
+  return forwarded || req.socket.remoteAddress || 'unknown';
+};
+
+const log = (user: string, method: string, url: string, status: number, startedAt: number, extra = '') =>
+  console.log(`${new Date().toISOString()} ${user} ${method} ${url} ${status} ${Date.now() - startedAt}ms${extra}`);
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req: IncomingMessage) => new Promise<string>((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new Error('Request body too large'));
+      req.destroy();
+    } else chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  req.on('error', reject);
+});
+
+async function handleApi(req: IncomingMessage, res: ServerResponse, route: string) {
+  const startedAt = Date.now();
+  const user = userOf(req);
+  const handler = ROUTES[route];
+  if (req.method !== 'POST' || !handler) {
+    sendJson(res, 404, { error: `Unknown route: ${req.method} ${req.url}` });
+    return log(user, req.method ?? '?', req.url ?? '', 404, startedAt);
+  }
+
+  const retryAfterMs = limiter.take(user);
+  if (retryAfterMs > 0) {
+    const error = new ModelError('quota', `proxy limit of ${RATE_LIMIT_PER_MINUTE} requests per minute`, retryAfterMs);
+    sendJson(res, 429, { kind: error.kind, detail: error.detail, retryAfterMs, error: error.message }, { 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) });
+    return log(user, 'POST', req.url ?? '', 429, startedAt);
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(await readBody(req));
+  } catch (err: any) {
+    const status = err instanceof SyntaxError ? 400 : 413;
+    sendJson(res, status, { error: err.message });
+    return log(user, 'POST', req.url ?? '', status, startedAt);
+  }
+  const problem = invalidField(body, handler.fields);
+  if (problem) {
+    sendJson(res, 400, { error: `Invalid request body: ${problem}` });
+    return log(user, 'POST', req.url ?? '', 400, startedAt);
+  }
+
+  // The browser aborting its fetch closes the connection; stop the model call with it
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+  const usage: TokenUsage[] = [];
+  try {
+    const result = await handler.run(body, { signal: controller.signal, onUsage: u => usage.push(u) });
+    sendJson(res, 200, { result, usage });
+    const tokens = usage.reduce((sum, u) => sum + u.inputTokens + u.outputTokens + u.thinkingTokens, 0);
+    log(user, 'POST', req.url ?? '', 200, startedAt, ` tokens=${tokens}`);
+  } catch (err) {
+    const error = controller.signal.aborted ? new ModelError('cancelled') : classifyError(err);
+    const status = STATUS_BY_KIND[error.kind];
+    if (!res.writableEnded && !controller.signal.aborted) {
+      sendJson(res, status, { kind: error.kind, detail: error.detail, retryAfterMs: error.retryAfterMs, error: error.message });
+    }
+    log(user, 'POST', req.url ?? '', status, startedAt, ` ${error.kind}`);
+  }
+}
+
+// Unknown paths fall back to index.html for client-side routing, as vercel.json does
+function serveStatic(req: IncomingMessage, res: ServerResponse, pathname: string) {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch {
+    // A malformed percent-escape must not take down the server holding the key
+    res.writeHead(400, { 'Content-Type': 'text/plain' });
+    res.end('Malformed URL');
+    return;
+  }
+  const requested = path.join(STATIC_DIR, path.normalize(decoded));
+  const isFile = requested.startsWith(STATIC_DIR) && existsSync(requested) && statSync(requested).isFile();
+  const file = isFile ? requested : path.join(STATIC_DIR, 'index.html');
+  if (!existsSync(file)) {
+    res.writeHead(404, { 'Content-Type': 'text/plain' });
+    res.end('No build found. Run "npm run build" or use "npm run dev" for the app.');
+    return;
+  }
+  res.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(file)] ?? 'application/octet-stream' });
+  createReadStream(file).pipe(res);
+}
+
+const server = createServer((req, res) => {
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+  if (pathname.startsWith(`${API_PREFIX}/`)) {
+    handleApi(req, res, pathname.slice(API_PREFIX.length + 1)).catch(err => {
+      console.error(err);
+      if (!res.headersSent) sendJson(res, 500, { error: 'Internal proxy error' });
+    });
+  } else {
+    serveStatic(req, res, pathname);
+  }
+});
+
+attachLiveRelay(server, { prefix: `${API_PREFIX}/live`, limiter, userOf, log });
+
+if (!process.env.GEMINI_API_KEY) console.warn('GEMINI_API_KEY is not set; model calls will fail with an auth error.');
+server.listen(PORT, () => console.log(`Proxy listening on http://localhost:${PORT} (${RATE_LIMIT_PER_MINUTE} requests per minute per user)`));
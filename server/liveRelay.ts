@@ -0,0 +1,89 @@
+import { IncomingMessage, Server } from 'node:http';
+import { Duplex } from 'node:stream';
+import { WebSocket, WebSocketServer } from 'ws';
+import { RateLimiter } from './rateLimiter';
+
+/**
+ * WebSocket relay for live sessions. The browser SDK connects to
+ * `<prefix>/ws/...BidiGenerateContent?key=proxy`; the relay opens the same
+ * path upstream with the real key and pipes frames both ways untouched, so
+ * the SDK's protocol handling stays in the browser.
+ */
+
+const UPSTREAM = 'wss://generativelanguage.googleapis.com';
+// Only the live endpoint is relayed, never an arbitrary upstream path
+const LIVE_ENDPOINT = /^\/ws\/google\.ai\.generativelanguage\.v\w+\.GenerativeService\.BidiGenerateContent$/;
+
+interface LiveRelayOptions {
+  prefix: string;
+  limiter: RateLimiter;
+  userOf: (req: IncomingMessage) => string;
+  log: (user: string, method: string, url: string, status: number, startedAt: number, extra?: string) => void;
+}
+
+// 1005 and 1006 are reserved for "no status" and "abnormal closure" and cannot be sent
+const sendableCode = (code: number) => code === 1005 ? 1000 : code === 1006 ? 1011 : code;
+
+const closeQuietly = (socket: WebSocket, code: number, reason: string) => {
+  if (socket.readyState === WebSocket.OPEN) socket.close(sendableCode(code), reason);
+  else if (socket.readyState === WebSocket.CONNECTING) socket.terminate();
+};
+
+export function attachLiveRelay(server: Server, { prefix, limiter, userOf, log }: LiveRelayOptions) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  const relay = (client: WebSocket, endpoint: string, user: string) => {
+    const startedAt = Date.now();
+    const upstreamUrl = new URL(endpoint, UPSTREAM);
+    upstreamUrl.searchParams.set('key', process.env.GEMINI_API_KEY ?? '');
+    const upstream = new WebSocket(upstreamUrl);
+    // The SDK sends its setup message as soon as the socket opens, before upstream is ready
+    const pending: { data: Buffer; isBinary: boolean }[] = [];
+    let bytesIn = 0;
+    let bytesOut = 0;
+
+    client.on('message', (data: Buffer, isBinary: boolean) => {
+      bytesIn += data.length;
+      if (upstream.readyState === WebSocket.OPEN) upstream.send(data, { binary: isBinary });
+      else pending.push({ data, isBinary });
+    });
+    upstream.on('open', () => {
+      pending.splice(0).forEach(({ data, isBinary }) => upstream.send(data, { binary: isBinary }));
+    });
+    upstream.on('message', (data: Buffer, isBinary: boolean) => {
+      bytesOut += data.length;
+      if (client.readyState === WebSocket.OPEN) client.send(data, { binary: isBinary });
+    });
+
+    // Upstream close reasons carry the model's error messages, so they are passed through
+    upstream.on('close', (code: number, reason: Buffer) => {
+      closeQuietly(client, code, reason.toString());
+      log(user, 'WS', prefix, code, startedAt, ` in=${bytesIn}B out=${bytesOut}B`);
+    });
+    client.on('close', (code: number, reason: Buffer) => closeQuietly(upstream, code, reason.toString()));
+    upstream.on('error', (err: Error) => {
+      console.error('Live upstream error:', err.message);
+      closeQuietly(client, 1011, 'Live model connection failed');
+    });
+    client.on('error', () => closeQuietly(upstream, 1011, 'Client connection failed'));
+  };
+
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const startedAt = Date.now();
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const endpoint = url.pathname.startsWith(prefix) ? url.pathname.slice(prefix.length) : '';
+    const user = userOf(req);
+    if (!LIVE_ENDPOINT.test(endpoint)) {
+      socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+      log(user, 'WS', url.pathname, 404, startedAt);
+      return;
+    }
+    const retryAfterMs = limiter.take(user);
+    if (retryAfterMs > 0) {
+      socket.end(`HTTP/1.1 429 Too Many Requests\r\nRetry-After: ${Math.ceil(retryAfterMs / 1000)}\r\n\r\n`);
+      log(user, 'WS', prefix, 429, startedAt);
+      return;
+    }
+    wss.handleUpgrade(req, socket, head, (client: WebSocket) => relay(client, endpoint, user));
+  });
+}
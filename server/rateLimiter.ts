@@ -0,0 +1,36 @@
+/**
+ * Token-bucket rate limiting keyed by user. Each user may burst up to
+ * `limit` requests and regains one every `windowMs / limit` milliseconds.
+ */
+
+export interface RateLimiter {
+  // Milliseconds until the user may send again; 0 means the request is admitted
+  take(user: string): number;
+}
+
+export function createRateLimiter(limit: number, windowMs: number): RateLimiter {
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+  const refillPerMs = limit / windowMs;
+
+  // A bucket idle for a whole window is full again, so forgetting it changes nothing
+  setInterval(() => {
+    const cutoff = Date.now() - windowMs;
+    buckets.forEach((bucket, user) => {
+      if (bucket.updatedAt < cutoff) buckets.delete(user);
+    });
+  }, windowMs).unref();
+
+  return {
+    take(user) {
+      const now = Date.now();
+      const bucket = buckets.get(user);
+      const tokens = bucket ? Math.min(limit, bucket.tokens + (now - bucket.updatedAt) * refillPerMs) : limit;
+      if (tokens < 1) {
+        buckets.set(user, { tokens, updatedAt: now });
+        return Math.ceil((1 - tokens) / refillPerMs);
+      }
+      buckets.set(user, { tokens: tokens - 1, updatedAt: now });
+      return 0;
+    },
+  };
+}
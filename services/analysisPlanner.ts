@@ -0,0 +1,157 @@
+import { AnalysisInputs, AnalysisResult, AnalysisSection, MeetingContext, UploadedFile } from "../types";
+
+/**
+ * Decides how much of a brief must be rebuilt when its inputs change.
+ * Context edits only invalidate the sections that read those fields, new
+ * documents are merged into the previous brief, and edited or removed
+ * documents fall back to a full regeneration.
+ */
+
+export const ANALYSIS_SECTIONS: AnalysisSection[] = [
+  'snapshot', 'buyingCommittee', 'documentInsights', 'groundMatrix', 'competitiveHub', 'openingLines', 'predictedQuestions',
+  'strategicQuestionsToAsk', 'objectionHandling', 'toneGuidance', 'finalCoaching', 'reportSections',
+];
+
+export const SECTION_LABELS: Record<AnalysisSection, string> = {
+  snapshot: 'Buyer Snapshot',
+  buyingCommittee: 'Buying Committee',
+  documentInsights: 'Document Insights',
+  groundMatrix: 'Ground Matrix',
+  competitiveHub: 'Competitive Hub',
+  openingLines: 'Opening Lines',
+  predictedQuestions: 'Predicted Questions',
+  strategicQuestionsToAsk: 'Questions To Ask',
+  objectionHandling: 'Objection Handling',
+  toneGuidance: 'Tone Guidance',
+  finalCoaching: 'Final Coaching',
+  reportSections: 'Report Sections',
+};
+
+// A full brief is generated in these stages, in order, so the UI can render each group as it lands
+export const ANALYSIS_STAGES: { label: string; sections: AnalysisSection[] }[] = [
+  { label: 'Buyer Snapshot', sections: ['snapshot', 'buyingCommittee', 'documentInsights', 'groundMatrix'] },
+  { label: 'Competitive Hub', sections: ['competitiveHub'] },
+  { label: 'Objections & Questions', sections: ['openingLines', 'predictedQuestions', 'strategicQuestionsToAsk', 'objectionHandling'] },
+  { label: 'Coaching', sections: ['toneGuidance', 'finalCoaching'] },
+  { label: 'Report', sections: ['reportSections'] },
+];
+
+// Generation settings (thinking level, temperature) never invalidate existing output; applying them is an explicit full rebuild
+const CONTEXT_DEPENDENCIES: Record<keyof MeetingContext, AnalysisSection[]> = {
+  sellerCompany: ANALYSIS_SECTIONS,
+  clientCompany: ANALYSIS_SECTIONS,
+  sellerNames: ['openingLines', 'reportSections'],
+  clientNames: ['snapshot', 'buyingCommittee', 'openingLines', 'reportSections'],
+  targetProducts: ['competitiveHub', 'predictedQuestions', 'strategicQuestionsToAsk', 'objectionHandling', 'reportSections'],
+  productDomain: ['competitiveHub', 'predictedQuestions', 'reportSections'],
+  meetingFocus: ['openingLines', 'predictedQuestions', 'strategicQuestionsToAsk', 'finalCoaching', 'reportSections'],
+  persona: ['snapshot', 'openingLines', 'objectionHandling', 'toneGuidance', 'finalCoaching'],
+  answerStyles: ['openingLines', 'toneGuidance'],
+  executiveSnapshot: ['snapshot', 'finalCoaching', 'reportSections'],
+  strategicKeywords: ['groundMatrix', 'predictedQuestions', 'objectionHandling'],
+  competitors: ['competitiveHub'],
+  stakeholders: ['buyingCommittee'],
+  // Placeholders are restored before display, so masking never changes the brief's content
+  redaction: [],
+  costControls: [],
+  // The base prompt is part of every analysis call's system instruction
+  baseSystemPrompt: ANALYSIS_SECTIONS,
+  thinkingLevel: [],
+  temperature: [],
+};
+
+export type AnalysisPlan =
+  | { mode: 'none' }
+  | { mode: 'full'; reason: string }
+  | { mode: 'sections'; sections: AnalysisSection[]; changedFields: (keyof MeetingContext)[] }
+  | { mode: 'merge'; sections: AnalysisSection[]; addedFiles: string[] };
+
+const hashString = (value: string) => {
+  let h = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return (h >>> 0).toString(16);
+};
+
+// Document hashes are reused while only the context is being edited
+const fileHashCache = new WeakMap<UploadedFile, string>();
+
+const fileHash = (file: UploadedFile) => {
+  if (!fileHashCache.has(file)) fileHashCache.set(file, hashString(file.content));
+  return fileHashCache.get(file)!;
+};
+
+export function fingerprintInputs(files: UploadedFile[], context: MeetingContext): AnalysisInputs {
+  return {
+    files: Object.fromEntries(files.map(f => [f.name, fileHash(f)])),
+    context: Object.fromEntries(Object.entries(context).map(([k, v]) => [k, hashString(JSON.stringify(v))])),
+  };
+}
+
+export const hashInputs = (inputs: AnalysisInputs) => hashString(JSON.stringify(inputs));
+
+export function planAnalysis(previous: AnalysisInputs | undefined, next: AnalysisInputs, failedSections: AnalysisSection[] = []): AnalysisPlan {
+  if (!previous) return { mode: 'full', reason: 'No previous brief to update' };
+
+  const previousFiles = Object.keys(previous.files);
+  if (previousFiles.some(name => !(name in next.files))) return { mode: 'full', reason: 'A document was removed' };
+  if (previousFiles.some(name => next.files[name] !== previous.files[name])) return { mode: 'full', reason: 'A document was edited' };
+
+  const changedFields = (Object.keys(CONTEXT_DEPENDENCIES) as (keyof MeetingContext)[])
+    .filter(field => previous.context[field] !== next.context[field]);
+  const addedFiles = Object.keys(next.files).filter(name => !(name in previous.files));
+
+  // Merging re-reads the previous brief, so every section can absorb the new evidence
+  if (addedFiles.length > 0) return { mode: 'merge', sections: ANALYSIS_SECTIONS, addedFiles };
+
+  // Sections the previous run failed to generate are stale whatever else changed
+  const affected = new Set([...changedFields.flatMap(field => CONTEXT_DEPENDENCIES[field]), ...failedSections]);
+  if (affected.size === 0) return { mode: 'none' };
+  if (affected.size === ANALYSIS_SECTIONS.length) {
+    const reason = changedFields.includes('sellerCompany') || changedFields.includes('clientCompany') ? 'Deal participants changed'
+      : changedFields.includes('baseSystemPrompt') ? 'System prompt changed'
+      : 'Every section is affected';
+    return { mode: 'full', reason };
+  }
+  return { mode: 'sections', sections: ANALYSIS_SECTIONS.filter(s => affected.has(s)), changedFields };
+}
+
+/** Overlays the rebuilt sections on the previous brief, dropping stale validation metadata. */
+export function mergeSections(previous: AnalysisResult, update: Partial<AnalysisResult>, sections: AnalysisSection[]): AnalysisResult {
+  const { validation, ...merged } = previous;
+  sections.forEach(section => {
+    if (update[section] !== undefined) Object.assign(merged, { [section]: update[section] } as Partial<AnalysisResult>);
+  });
+  return merged;
+}
+
+export interface SectionDiff {
+  section: AnalysisSection;
+  added: string[];
+  removed: string[];
+}
+
+const isCitation = (value: any) => value && typeof value === 'object' && 'snippet' in value && ('sourceFile' in value || 'source' in value);
+
+/** Flattens a section into its readable statements; citations are evidence, not content. */
+const statementsOf = (value: unknown, key = ''): string[] => {
+  if (typeof value === 'string') return value.trim() ? [value.trim()] : [];
+  if (typeof value === 'number') return [`${key}: ${value}`];
+  if (Array.isArray(value)) return value.flatMap(v => statementsOf(v, key));
+  if (!value || typeof value !== 'object' || isCitation(value)) return [];
+  return Object.entries(value).flatMap(([k, v]) => statementsOf(v, k));
+};
+
+export function diffAnalysis(previous: AnalysisResult, next: AnalysisResult): SectionDiff[] {
+  return ANALYSIS_SECTIONS.map(section => {
+    const before = new Set(statementsOf(previous[section]));
+    const after = new Set(statementsOf(next[section]));
+    return {
+      section,
+      added: [...after].filter(s => !before.has(s)),
+      removed: [...before].filter(s => !after.has(s)),
+    };
+  }).filter(d => d.added.length > 0 || d.removed.length > 0);
+}
@@ -0,0 +1,299 @@
+import {
+  AnalysisRepair,
+  AnalysisResult,
+  BuyerSnapshot,
+  Citation,
+  CompetitorInsight,
+  QuestionPair,
+  StakeholderAttitude,
+  StakeholderInsight,
+} from "../types";
+
+/**
+ * Runtime guard for model output. Mirrors the analyzeSalesContext
+ * responseSchema: every field is coerced to its declared type, missing
+ * values get safe defaults and each fix is recorded so the UI can flag
+ * the affected section instead of crashing on a partial payload.
+ */
+
+export const THREAT_PROFILES: CompetitorInsight['threatProfile'][] = ['Direct', 'Indirect', 'Niche'];
+export const QUESTION_CATEGORIES: QuestionPair['category'][] = ['Business Value', 'Technical', 'Risk', 'ROI', 'Integration'];
+export const STAKEHOLDER_ATTITUDES: StakeholderAttitude[] = ['Champion', 'Supporter', 'Neutral', 'Skeptic', 'Blocker'];
+
+type Raw = Record<string, any>;
+
+class RepairLog {
+  readonly repairs: AnalysisRepair[] = [];
+
+  note(path: string, issue: string) {
+    this.repairs.push({ section: path.split(/[.[]/)[0], path, issue });
+  }
+}
+
+const isObject = (v: unknown): v is Raw => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const asObject = (v: unknown, path: string, log: RepairLog): Raw => {
+  if (isObject(v)) return v;
+  log.note(path, v == null ? 'missing object' : 'expected object');
+  return {};
+};
+
+const asString = (v: unknown, path: string, log: RepairLog, fallback = ''): string => {
+  if (typeof v === 'string') return v;
+  if (v == null) {
+    log.note(path, 'missing text');
+    return fallback;
+  }
+  log.note(path, 'coerced to text');
+  return typeof v === 'object' ? JSON.stringify(v) : String(v);
+};
+
+const asArray = <T>(v: unknown, path: string, log: RepairLog, item: (entry: unknown, itemPath: string) => T): T[] => {
+  if (Array.isArray(v)) return v.map((entry, i) => item(entry, `${path}[${i}]`));
+  if (v == null) {
+    log.note(path, 'missing list');
+    return [];
+  }
+  log.note(path, 'wrapped single value in list');
+  return [item(v, `${path}[0]`)];
+};
+
+const asStringArray = (v: unknown, path: string, log: RepairLog): string[] =>
+  asArray(v, path, log, (entry, p) => asString(entry, p, log)).filter(s => s.length > 0);
+
+/** Clamps to 0-100, scaling 0-1 fractions that some model runs emit. */
+const asScore = (v: unknown, path: string, log: RepairLog, fallback = 50): number => {
+  let n = typeof v === 'number' ? v : typeof v === 'string' ? parseFloat(v) : NaN;
+  if (!Number.isFinite(n)) {
+    log.note(path, 'missing score');
+    return fallback;
+  }
+  if (n > 0 && n < 1) {
+    log.note(path, 'scaled fractional score');
+    n *= 100;
+  }
+  if (n < 0 || n > 100) log.note(path, 'clamped score to 0-100');
+  return Math.round(Math.min(100, Math.max(0, n)));
+};
+
+const asEnum = <T extends string>(v: unknown, allowed: T[], fallback: T, path: string, log: RepairLog): T => {
+  if (typeof v === 'string') {
+    if ((allowed as string[]).includes(v)) return v as T;
+    const lower = v.toLowerCase();
+    const exact = allowed.find(a => a.toLowerCase() === lower);
+    // Longest candidates first so "Indirect" is not read as "Direct".
+    const partial = exact || [...allowed].sort((a, b) => b.length - a.length).find(a => lower.includes(a.toLowerCase()));
+    if (partial) {
+      log.note(path, `coerced "${v}" to "${partial}"`);
+      return partial;
+    }
+  }
+  log.note(path, `unknown value replaced with "${fallback}"`);
+  return fallback;
+};
+
+const asCitation = (v: unknown, path: string, log: RepairLog): Citation => {
+  const raw = asObject(v, path, log);
+  return {
+    snippet: asString(raw.snippet, `${path}.snippet`, log),
+    sourceFile: asString(raw.sourceFile ?? raw.source, `${path}.sourceFile`, log, 'Unknown source'),
+  };
+};
+
+const asTextCitation = (v: unknown, path: string, log: RepairLog) => {
+  const raw = isObject(v) ? v : { text: v };
+  return { text: asString(raw.text, `${path}.text`, log), citation: asCitation(raw.citation, `${path}.citation`, log) };
+};
+
+const asCompetitor = (v: unknown, path: string, log: RepairLog, defaultName = 'Unknown competitor'): CompetitorInsight => {
+  const raw = asObject(v, path, log);
+  return {
+    name: asString(raw.name, `${path}.name`, log, defaultName),
+    overview: asString(raw.overview, `${path}.overview`, log),
+    threatProfile: asEnum(raw.threatProfile, THREAT_PROFILES, 'Indirect', `${path}.threatProfile`, log),
+    strengths: asStringArray(raw.strengths, `${path}.strengths`, log),
+    weaknesses: asStringArray(raw.weaknesses, `${path}.weaknesses`, log),
+    ourWedge: asString(raw.ourWedge, `${path}.ourWedge`, log),
+    citation: asCitation(raw.citation, `${path}.citation`, log),
+  };
+};
+
+const asSnapshot = (v: unknown, log: RepairLog, path = 'snapshot'): BuyerSnapshot => {
+  const raw = asObject(v, path, log);
+  const metrics = asObject(raw.metrics, `${path}.metrics`, log);
+  return {
+    role: asString(raw.role, `${path}.role`, log, 'Unidentified Stakeholder'),
+    roleCitation: asCitation(raw.roleCitation, `${path}.roleCitation`, log),
+    roleConfidence: raw.roleConfidence == null ? 0 : asScore(raw.roleConfidence, `${path}.roleConfidence`, log, 0),
+    priorities: asArray(raw.priorities, `${path}.priorities`, log, (e, p) => asTextCitation(e, p, log)),
+    likelyObjections: asArray(raw.likelyObjections, `${path}.likelyObjections`, log, (e, p) => asTextCitation(e, p, log)),
+    decisionStyle: asString(raw.decisionStyle, `${path}.decisionStyle`, log),
+    decisionStyleCitation: asCitation(raw.decisionStyleCitation, `${path}.decisionStyleCitation`, log),
+    riskTolerance: asString(raw.riskTolerance, `${path}.riskTolerance`, log),
+    riskToleranceCitation: asCitation(raw.riskToleranceCitation, `${path}.riskToleranceCitation`, log),
+    tone: asString(raw.tone, `${path}.tone`, log),
+    metrics: {
+      riskToleranceValue: asScore(metrics.riskToleranceValue, `${path}.metrics.riskToleranceValue`, log),
+      strategicPriorityFocus: asScore(metrics.strategicPriorityFocus, `${path}.metrics.strategicPriorityFocus`, log),
+      analyticalDepth: asScore(metrics.analyticalDepth, `${path}.metrics.analyticalDepth`, log),
+      directness: asScore(metrics.directness, `${path}.metrics.directness`, log),
+      innovationAppetite: asScore(metrics.innovationAppetite, `${path}.metrics.innovationAppetite`, log),
+    },
+    personaIdentity: asString(raw.personaIdentity, `${path}.personaIdentity`, log),
+    decisionLogic: asString(raw.decisionLogic, `${path}.decisionLogic`, log),
+  };
+};
+
+const asOpeningLine = (v: unknown, path: string, log: RepairLog) => {
+  const line = asObject(v, path, log);
+  return {
+    text: asString(line.text, `${path}.text`, log),
+    label: asString(line.label, `${path}.label`, log, 'Opening'),
+    citation: asCitation(line.citation, `${path}.citation`, log),
+  };
+};
+
+const asStakeholder = (v: unknown, path: string, log: RepairLog): StakeholderInsight => {
+  const raw = asObject(v, path, log);
+  return {
+    name: asString(raw.name, `${path}.name`, log, 'Unnamed stakeholder'),
+    title: asString(raw.title, `${path}.title`, log),
+    committeeRole: asString(raw.committeeRole, `${path}.committeeRole`, log, 'Influencer'),
+    influence: asScore(raw.influence, `${path}.influence`, log),
+    attitude: asEnum(raw.attitude, STAKEHOLDER_ATTITUDES, 'Neutral', `${path}.attitude`, log),
+    snapshot: asSnapshot(raw.snapshot, log, `${path}.snapshot`),
+    openingLines: asArray(raw.openingLines, `${path}.openingLines`, log, (e, p) => asOpeningLine(e, p, log)),
+    talkingPoints: asStringArray(raw.talkingPoints, `${path}.talkingPoints`, log),
+    citation: asCitation(raw.citation, `${path}.citation`, log),
+  };
+};
+
+/**
+ * Competitors come back keyed by roster order. Any configured competitor the
+ * model skipped gets a placeholder so the Competitive Hub always shows the
+ * full roster.
+ */
+const asRoster = (hub: Raw, expectedNames: string[], log: RepairLog): CompetitorInsight[] => {
+  // Pre-roster payloads used fixed cognigy/amelia keys
+  const legacy = [hub.cognigy, hub.amelia].filter(isObject);
+  const source = hub.competitors ?? (legacy.length > 0 ? legacy : undefined);
+  const parsed = asArray(source, 'competitiveHub.competitors', log, (e, p) => asCompetitor(e, p, log));
+  if (expectedNames.length === 0) return parsed;
+
+  return expectedNames.map((name, i) => {
+    const found = parsed.find(c => c.name.trim().toLowerCase() === name.trim().toLowerCase());
+    if (found) return found;
+    log.note(`competitiveHub.competitors[${i}]`, `missing insight for "${name}"`);
+    return asCompetitor({ name, threatProfile: 'Indirect' }, `competitiveHub.competitors[${i}]`, new RepairLog());
+  });
+};
+
+export function validateAnalysisResult(input: unknown, competitorNames: string[] = []): AnalysisResult {
+  const log = new RepairLog();
+  const raw = asObject(input, 'root', log);
+
+  const insights = asObject(raw.documentInsights, 'documentInsights', log);
+  const structure = asObject(insights.structure, 'documentInsights.structure', log);
+  const hub = asObject(raw.competitiveHub, 'competitiveHub', log);
+  const tone = asObject(raw.toneGuidance, 'toneGuidance', log);
+  const coaching = asObject(raw.finalCoaching, 'finalCoaching', log);
+  const report = asObject(raw.reportSections, 'reportSections', log);
+
+  const result: AnalysisResult = {
+    snapshot: asSnapshot(raw.snapshot, log),
+    buyingCommittee: asArray(raw.buyingCommittee, 'buyingCommittee', log, (e, p) => asStakeholder(e, p, log)),
+    documentInsights: {
+      entities: asArray(insights.entities, 'documentInsights.entities', log, (e, p) => {
+        const ent = asObject(e, p, log);
+        return {
+          name: asString(ent.name, `${p}.name`, log),
+          type: asString(ent.type, `${p}.type`, log, 'Unknown'),
+          context: asString(ent.context, `${p}.context`, log),
+          citation: asCitation(ent.citation, `${p}.citation`, log),
+        };
+      }),
+      structure: {
+        sections: asStringArray(structure.sections, 'documentInsights.structure.sections', log),
+        keyHeadings: asStringArray(structure.keyHeadings, 'documentInsights.structure.keyHeadings', log),
+        detectedTablesSummary: asString(structure.detectedTablesSummary, 'documentInsights.structure.detectedTablesSummary', log),
+      },
+      summaries: asArray(insights.summaries, 'documentInsights.summaries', log, (e, p) => {
+        const sum = asObject(e, p, log);
+        return {
+          fileName: asString(sum.fileName, `${p}.fileName`, log),
+          summary: asString(sum.summary, `${p}.summary`, log),
+          strategicImpact: asString(sum.strategicImpact, `${p}.strategicImpact`, log),
+          criticalInsights: asStringArray(sum.criticalInsights, `${p}.criticalInsights`, log),
+        };
+      }),
+      materialSynthesis: asString(insights.materialSynthesis, 'documentInsights.materialSynthesis', log),
+    },
+    groundMatrix: asArray(raw.groundMatrix, 'groundMatrix', log, (e, p) => {
+      const item = asObject(e, p, log);
+      return {
+        category: asString(item.category, `${p}.category`, log, 'General'),
+        observation: asString(item.observation, `${p}.observation`, log),
+        significance: asString(item.significance, `${p}.significance`, log),
+        evidence: asCitation(item.evidence, `${p}.evidence`, log),
+      };
+    }),
+    competitiveHub: {
+      competitors: asRoster(hub, competitorNames, log),
+      others: asArray(hub.others, 'competitiveHub.others', log, (e, p) => asCompetitor(e, p, log)),
+    },
+    openingLines: asArray(raw.openingLines, 'openingLines', log, (e, p) => asOpeningLine(e, p, log)),
+    predictedQuestions: asArray(raw.predictedQuestions, 'predictedQuestions', log, (e, p) => {
+      const q = asObject(e, p, log);
+      return {
+        customerAsks: asString(q.customerAsks, `${p}.customerAsks`, log),
+        salespersonShouldRespond: asString(q.salespersonShouldRespond, `${p}.salespersonShouldRespond`, log),
+        reasoning: asString(q.reasoning, `${p}.reasoning`, log),
+        category: asEnum(q.category, QUESTION_CATEGORIES, 'Business Value', `${p}.category`, log),
+        citation: asCitation(q.citation, `${p}.citation`, log),
+      };
+    }),
+    strategicQuestionsToAsk: asArray(raw.strategicQuestionsToAsk, 'strategicQuestionsToAsk', log, (e, p) => {
+      const q = asObject(e, p, log);
+      return {
+        question: asString(q.question, `${p}.question`, log),
+        whyItMatters: asString(q.whyItMatters, `${p}.whyItMatters`, log),
+        citation: asCitation(q.citation, `${p}.citation`, log),
+      };
+    }),
+    objectionHandling: asArray(raw.objectionHandling, 'objectionHandling', log, (e, p) => {
+      const o = asObject(e, p, log);
+      return {
+        objection: asString(o.objection, `${p}.objection`, log),
+        realMeaning: asString(o.realMeaning, `${p}.realMeaning`, log),
+        strategy: asString(o.strategy, `${p}.strategy`, log),
+        exactWording: asString(o.exactWording, `${p}.exactWording`, log),
+        citation: asCitation(o.citation, `${p}.citation`, log),
+      };
+    }),
+    toneGuidance: {
+      wordsToUse: asStringArray(tone.wordsToUse, 'toneGuidance.wordsToUse', log),
+      wordsToAvoid: asStringArray(tone.wordsToAvoid, 'toneGuidance.wordsToAvoid', log),
+      sentenceLength: asString(tone.sentenceLength, 'toneGuidance.sentenceLength', log),
+      technicalDepth: asString(tone.technicalDepth, 'toneGuidance.technicalDepth', log),
+    },
+    finalCoaching: {
+      dos: asStringArray(coaching.dos, 'finalCoaching.dos', log),
+      donts: asStringArray(coaching.donts, 'finalCoaching.donts', log),
+      finalAdvice: asString(coaching.finalAdvice, 'finalCoaching.finalAdvice', log),
+    },
+    reportSections: {
+      introBackground: asString(report.introBackground, 'reportSections.introBackground', log),
+      technicalDiscussion: asString(report.technicalDiscussion, 'reportSections.technicalDiscussion', log),
+      productIntegration: asString(report.productIntegration, 'reportSections.productIntegration', log),
+    },
+  };
+
+  if (log.repairs.length > 0) {
+    result.validation = {
+      repairedSections: Array.from(new Set(log.repairs.map(r => r.section))),
+      repairs: log.repairs,
+    };
+  }
+  return result;
+}
+
@@ -0,0 +1,185 @@
+import { AnalysisResult, CitationMatch, CognitiveSearchResult, UploadedFile } from "../types";
+
+/**
+ * Matches model-quoted snippets back to the extracted document text.
+ * Exact matches (ignoring case, whitespace and typographic quotes) are
+ * "verified"; close token-overlap matches are "approximate"; anything else
+ * is "unverified" and should be treated as potentially hallucinated.
+ */
+
+const APPROXIMATE_THRESHOLD = 0.6;
+const PAGE_MARKER = /--- PAGE (\d+) ---/g;
+
+interface NormalizedText {
+  text: string;
+  // offsets[i] is the index in the original string of normalized char i
+  offsets: number[];
+}
+
+const normalizeChar = (ch: string) => {
+  if (/[‘’‚′`]/.test(ch)) return "'";
+  if (/[“”„″]/.test(ch)) return '"';
+  if (/[–—−]/.test(ch)) return '-';
+  return ch.toLowerCase();
+};
+
+const normalize = (value: string): NormalizedText => {
+  let text = '';
+  const offsets: number[] = [];
+  let lastWasSpace = true;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value[i];
+    if (/\s/.test(ch)) {
+      if (!lastWasSpace) {
+        text += ' ';
+        offsets.push(i);
+      }
+      lastWasSpace = true;
+      continue;
+    }
+    text += normalizeChar(ch);
+    offsets.push(i);
+    lastWasSpace = false;
+  }
+  return { text: text.trimEnd(), offsets };
+};
+
+interface Token {
+  value: string;
+  start: number;
+  end: number;
+}
+
+const tokensOf = (value: string): Token[] => {
+  const tokens: Token[] = [];
+  const pattern = /[a-z0-9]+/gi;
+  let m: RegExpExecArray | null;
+  while ((m = pattern.exec(value))) tokens.push({ value: m[0].toLowerCase(), start: m.index, end: m.index + m[0].length });
+  return tokens;
+};
+
+export const pageAtOffset = (content: string, offset: number): number | null => {
+  let page: number | null = null;
+  PAGE_MARKER.lastIndex = 0;
+  let m: RegExpExecArray | null;
+  while ((m = PAGE_MARKER.exec(content)) && m.index <= offset) page = parseInt(m[1], 10);
+  return page;
+};
+
+// Documents are normalized/tokenized once and reused across every citation
+const normalizedCache = new WeakMap<UploadedFile, NormalizedText>();
+const tokenCache = new WeakMap<UploadedFile, Token[]>();
+
+const normalizedFile = (file: UploadedFile) => {
+  if (!normalizedCache.has(file)) normalizedCache.set(file, normalize(file.content));
+  return normalizedCache.get(file)!;
+};
+
+const fileTokens = (file: UploadedFile) => {
+  if (!tokenCache.has(file)) tokenCache.set(file, tokensOf(file.content));
+  return tokenCache.get(file)!;
+};
+
+const exactMatch = (snippet: string, file: UploadedFile): CitationMatch | null => {
+  const needle = normalize(snippet.replace(/^\s*(\.\.\.|…)|(\.\.\.|…)\s*$/g, '')).text;
+  if (needle.length < 4) return null;
+  const haystack = normalizedFile(file);
+  const at = haystack.text.indexOf(needle);
+  if (at === -1) return null;
+  const start = haystack.offsets[at];
+  const end = haystack.offsets[at + needle.length - 1] + 1;
+  return { status: 'verified', fileName: file.name, page: pageAtOffset(file.content, start), start, end, score: 1 };
+};
+
+/** Sliding-window token overlap; O(document tokens) per snippet. */
+const fuzzyMatch = (snippet: string, file: UploadedFile): CitationMatch | null => {
+  const needle = tokensOf(snippet);
+  const docTokens = fileTokens(file);
+  const m = needle.length;
+  if (m === 0 || docTokens.length === 0) return null;
+
+  const wanted = new Map<string, number>();
+  needle.forEach(t => wanted.set(t.value, (wanted.get(t.value) || 0) + 1));
+  const window = new Map<string, number>();
+  let overlap = 0;
+  const add = (v: string) => {
+    const c = (window.get(v) || 0) + 1;
+    window.set(v, c);
+    if (c <= (wanted.get(v) || 0)) overlap++;
+  };
+  const remove = (v: string) => {
+    const c = window.get(v) || 0;
+    if (c <= (wanted.get(v) || 0)) overlap--;
+    window.set(v, c - 1);
+  };
+
+  let best = { score: 0, index: 0 };
+  const size = Math.min(m, docTokens.length);
+  for (let i = 0; i < docTokens.length; i++) {
+    add(docTokens[i].value);
+    if (i >= size) remove(docTokens[i - size].value);
+    if (i >= size - 1 && overlap / m > best.score) best = { score: overlap / m, index: i - size + 1 };
+  }
+
+  if (best.score === 0) return null;
+  const first = docTokens[best.index];
+  const last = docTokens[Math.min(best.index + size - 1, docTokens.length - 1)];
+  return {
+    status: best.score >= APPROXIMATE_THRESHOLD ? 'approximate' : 'unverified',
+    fileName: file.name,
+    page: pageAtOffset(file.content, first.start),
+    start: first.start,
+    end: last.end,
+    score: Math.round(best.score * 100) / 100,
+  };
+};
+
+const resolveFile = (sourceFile: string, files: UploadedFile[]): UploadedFile | undefined => {
+  const target = sourceFile.trim().toLowerCase();
+  return files.find(f => f.name === sourceFile)
+    || files.find(f => f.name.toLowerCase() === target)
+    || (target ? files.find(f => f.name.toLowerCase().includes(target) || target.includes(f.name.toLowerCase())) : undefined);
+};
+
+export function locateCitation(snippet: string, sourceFile: string, files: UploadedFile[]): CitationMatch {
+  const unverified: CitationMatch = { status: 'unverified', fileName: null, page: null, start: 0, end: 0, score: 0 };
+  if (!snippet?.trim()) return unverified;
+
+  // Prefer the cited file, then fall back to any document (models often mislabel sources)
+  const cited = resolveFile(sourceFile || '', files);
+  const candidates = cited ? [cited, ...files.filter(f => f !== cited)] : files;
+  for (const file of candidates) {
+    const exact = exactMatch(snippet, file);
+    if (exact) return exact;
+  }
+
+  let best: CitationMatch | null = null;
+  for (const file of candidates) {
+    const fuzzy = fuzzyMatch(snippet, file);
+    if (fuzzy && (!best || fuzzy.score > best.score)) best = fuzzy;
+  }
+  return best || unverified;
+}
+
+const isCitation = (value: any): boolean =>
+  value && typeof value === 'object' && typeof value.snippet === 'string' && typeof value.sourceFile === 'string';
+
+/** Returns a copy of the analysis with every nested Citation enriched with a match. */
+export function verifyAnalysisCitations(result: AnalysisResult, files: UploadedFile[]): AnalysisResult {
+  const ready = files.filter(f => f.status === 'ready');
+  const visit = (value: any): any => {
+    if (Array.isArray(value)) return value.map(visit);
+    if (!value || typeof value !== 'object') return value;
+    if (isCitation(value)) return { ...value, match: locateCitation(value.snippet, value.sourceFile, ready) };
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, visit(v)]));
+  };
+  return visit(result);
+}
+
+export function verifySearchCitations(result: CognitiveSearchResult, files: UploadedFile[]): CognitiveSearchResult {
+  const ready = files.filter(f => f.status === 'ready');
+  return {
+    ...result,
+    citations: result.citations.map(c => ({ ...c, match: locateCitation(c.snippet, c.source, ready) })),
+  };
+}
@@ -0,0 +1,282 @@
+import { ExtractedTable, OcrPageResult } from "../types";
+import { layoutPdfPage } from "./pdfLayout";
+
+/**
+ * Extractors for PDFs, slide decks, spreadsheets and plain text. Every extractor
+ * emits `--- PAGE N ---` markers (one per page, slide or sheet; Word, Markdown
+ * and text files have no reliable page breaks and are a single page 1), the
+ * same convention as the OCR path, so retrieval, citation verification and
+ * the viewer treat all documents alike. Tables are kept as Markdown in the
+ * content and returned as structured rows alongside it.
+ */
+
+declare global {
+  interface Window {
+    JSZip: any;
+    XLSX: any;
+    mammoth: any;
+    pdfjsLib: any;
+  }
+}
+
+interface ExtractorLibraries {
+  pdfjsLib: any;
+  mammoth: any;
+  JSZip: any;
+  XLSX: any;
+}
+
+// The browser loads these from CDN script tags; the CLI registers the npm builds of the same libraries
+const registeredLibraries: Partial<ExtractorLibraries> = {};
+
+export const registerExtractorLibraries = (libraries: Partial<ExtractorLibraries>) => Object.assign(registeredLibraries, libraries);
+
+const library = <K extends keyof ExtractorLibraries>(name: K): ExtractorLibraries[K] => {
+  const loaded = registeredLibraries[name] ?? (typeof window !== 'undefined' ? window[name] : undefined);
+  if (!loaded) throw new Error(`${name} is not loaded, so this file type cannot be read here.`);
+  return loaded;
+};
+
+// mammoth's browser build reads an ArrayBuffer, its Node build only a Buffer
+const mammothInput = (arrayBuffer: ArrayBuffer) =>
+  typeof window === 'undefined' ? { buffer: Buffer.from(arrayBuffer) } : { arrayBuffer };
+
+const DRAWING_NS = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const PRESENTATION_NS = 'http://schemas.openxmlformats.org/presentationml/2006/main';
+const RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+// Header row is repeated so every retrieval chunk of a long sheet keeps its column names
+const ROWS_PER_BLOCK = 20;
+
+export interface ExtractedDocument {
+  content: string;
+  tables: ExtractedTable[];
+  ocrPages?: OcrPageResult[];
+}
+
+const pageMarker = (page: number) => `--- PAGE ${page} ---`;
+
+const normalizeText = (text: string) => text.replace(/^﻿/, '').replace(/\r\n?/g, '\n');
+
+const parseXml = (xml: string) => new DOMParser().parseFromString(xml, 'application/xml');
+
+const resolvePath = (base: string, target: string): string => {
+  if (target.startsWith('/')) return target.slice(1);
+  const parts = base.split('/').slice(0, -1);
+  target.split('/').forEach(part => {
+    if (part === '..') parts.pop();
+    else if (part !== '.') parts.push(part);
+  });
+  return parts.join('/');
+};
+
+const relsPathFor = (path: string) => {
+  const slash = path.lastIndexOf('/');
+  return `${path.slice(0, slash)}/_rels/${path.slice(slash + 1)}.rels`;
+};
+
+const readRelationships = async (zip: any, path: string): Promise<{ id: string; type: string; target: string }[]> => {
+  const rels = await zip.file(relsPathFor(path))?.async('string');
+  if (!rels) return [];
+  return Array.from(parseXml(rels).getElementsByTagName('Relationship')).map((r: Element) => ({
+    id: r.getAttribute('Id') || '',
+    type: r.getAttribute('Type') || '',
+    target: resolvePath(path, r.getAttribute('Target') || ''),
+  }));
+};
+
+const placeholderType = (shape: Element): string | null => {
+  const ph = shape.getElementsByTagNameNS(PRESENTATION_NS, 'ph')[0];
+  return ph ? ph.getAttribute('type') || 'body' : null;
+};
+
+const shapeText = (shape: Element): string =>
+  Array.from(shape.getElementsByTagNameNS(DRAWING_NS, 'p'))
+    .map(p => Array.from(p.getElementsByTagNameNS(DRAWING_NS, 't')).map(t => t.textContent || '').join(''))
+    .filter(line => line.trim())
+    .join('\n');
+
+/** Rows of an a:tbl inside a slide's graphicFrame, one string per cell. */
+const slideTableRows = (frame: Element): string[][] =>
+  Array.from(frame.getElementsByTagNameNS(DRAWING_NS, 'tr')).map(row =>
+    Array.from(row.getElementsByTagNameNS(DRAWING_NS, 'tc')).map(cell => shapeText(cell).replace(/\n/g, ' ')));
+
+/** Slide order comes from presentation.xml; the slideN file names are not guaranteed to match it. */
+const slidePaths = async (zip: any): Promise<string[]> => {
+  const presentation = await zip.file('ppt/presentation.xml')?.async('string');
+  const rels = await readRelationships(zip, 'ppt/presentation.xml');
+  if (presentation && rels.length > 0) {
+    const ordered = Array.from(parseXml(presentation).getElementsByTagNameNS(PRESENTATION_NS, 'sldId'))
+      .map(s => rels.find(r => r.id === s.getAttributeNS(RELATIONSHIP_NS, 'id'))?.target)
+      .filter((p): p is string => !!p && !!zip.file(p));
+    if (ordered.length > 0) return ordered;
+  }
+  const slideNumber = (path: string) => parseInt(path.match(/slide(\d+)\.xml$/)?.[1] || '0', 10);
+  return Object.keys(zip.files)
+    .filter(p => /^ppt\/slides\/slide\d+\.xml$/.test(p))
+    .sort((a, b) => slideNumber(a) - slideNumber(b));
+};
+
+export async function extractTextFromPptx(arrayBuffer: ArrayBuffer): Promise<ExtractedDocument> {
+  const zip = await library('JSZip').loadAsync(arrayBuffer);
+  const paths = await slidePaths(zip);
+  const slides: string[] = [];
+  const tables: ExtractedTable[] = [];
+
+  for (let i = 0; i < paths.length; i++) {
+    const slide = parseXml(await zip.file(paths[i]).async('string'));
+    const shapes = Array.from(slide.getElementsByTagNameNS(PRESENTATION_NS, 'sp'));
+    const titleShape = shapes.find(s => ['title', 'ctrTitle'].includes(placeholderType(s) || ''));
+    const title = titleShape ? shapeText(titleShape).replace(/\n/g, ' ') : '';
+    const body = shapes.filter(s => s !== titleShape).map(shapeText).filter(Boolean);
+    // Tables sit in graphicFrames rather than shapes, so they need their own pass
+    const slideTables: ExtractedTable[] = [];
+    Array.from(slide.getElementsByTagNameNS(PRESENTATION_NS, 'graphicFrame'))
+      .filter(frame => frame.getElementsByTagNameNS(DRAWING_NS, 'tbl').length > 0)
+      .forEach(frame => {
+        const table = buildTable(`Table ${tables.length + 1}`, i + 1, slideTableRows(frame));
+        if (table) {
+          tables.push(table);
+          slideTables.push(table);
+        }
+      });
+
+    // Speaker notes live in the notes placeholder of the linked notesSlide part
+    const notesPath = (await readRelationships(zip, paths[i])).find(r => r.type.endsWith('/notesSlide'))?.target;
+    const notesXml = notesPath ? await zip.file(notesPath)?.async('string') : null;
+    const notes = notesXml
+      ? Array.from(parseXml(notesXml).getElementsByTagNameNS(PRESENTATION_NS, 'sp')).filter(s => placeholderType(s) === 'body').map(shapeText).filter(Boolean)
+      : [];
+
+    slides.push([
+      pageMarker(i + 1),
+      `# Slide ${i + 1}${title ? `: ${title}` : ''}`,
+      ...body,
+      ...slideTables.map(table => `\n${formatTable(table)}`),
+      ...(notes.length > 0 ? ['', 'Speaker Notes:', ...notes] : []),
+    ].join('\n'));
+  }
+  return { content: slides.join('\n\n'), tables };
+}
+
+const cleanCell = (value: unknown) => String(value ?? '').replace(/\s+/g, ' ').trim();
+
+/** Takes the first non-empty row as the header and pads every row to the widest one. */
+const buildTable = (label: string, page: number | null, rows: unknown[][]): ExtractedTable | null => {
+  const cleaned = rows.map(r => r.map(cleanCell)).filter(r => r.some(c => c));
+  if (cleaned.length === 0) return null;
+  const width = Math.max(...cleaned.map(r => r.length));
+  const pad = (r: string[]) => [...r, ...Array(width - r.length).fill('')];
+  return { label, page, headers: pad(cleaned[0]), rows: cleaned.slice(1).map(pad) };
+};
+
+/** Renders a table as Markdown under a "[Table N]" caption line. */
+const formatTable = (table: ExtractedTable): string => {
+  const toLine = (r: string[]) => `| ${r.map(c => c.replace(/\|/g, '\\|')).join(' | ')} |`;
+  const header = `${toLine(table.headers)}\n|${' --- |'.repeat(table.headers.length)}`;
+  const blocks: string[] = [];
+  for (let i = 0; i < Math.max(table.rows.length, 1); i += ROWS_PER_BLOCK) {
+    blocks.push([header, ...table.rows.slice(i, i + ROWS_PER_BLOCK).map(toLine)].join('\n'));
+  }
+  return `[${table.label}]\n${blocks.join('\n\n')}`;
+};
+
+export const fileExtension = (fileName: string) => fileName.split('.').pop()?.toLowerCase() || '';
+
+export const openPdf = (arrayBuffer: ArrayBuffer): Promise<any> => library('pdfjsLib').getDocument({ data: arrayBuffer }).promise;
+
+/** Under 50 characters of text per page means the pages are scans that need OCR. */
+export const needsOcr = (extracted: ExtractedDocument, pageCount: number) =>
+  pageCount > 0 && extracted.content.replace(/--- PAGE \d+ ---/g, '').trim().length < 50 * pageCount;
+
+/** Text-layer extraction; scanned PDFs come back nearly empty and fall through to OCR. */
+export async function extractTextFromPdfDocument(pdf: any): Promise<ExtractedDocument> {
+  const tables: ExtractedTable[] = [];
+  const pages: string[] = [];
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const page = await pdf.getPage(i);
+    const { items } = await page.getTextContent();
+    const blocks = layoutPdfPage(items).map(block => {
+      if (block.kind === 'text') return block.text;
+      const table = buildTable(`Table ${tables.length + 1}`, i, block.rows);
+      if (!table) return '';
+      tables.push(table);
+      return `\n${formatTable(table)}\n`;
+    });
+    pages.push(`${pageMarker(i)}\n${blocks.filter(Boolean).join('\n')}`);
+  }
+  return { content: pages.join('\n\n'), tables };
+}
+
+export async function extractTextFromSpreadsheet(arrayBuffer: ArrayBuffer): Promise<ExtractedDocument> {
+  const XLSX = library('XLSX');
+  const workbook = XLSX.read(arrayBuffer, { type: 'array' });
+  const tables: ExtractedTable[] = [];
+  const pages = workbook.SheetNames.map((name: string, i: number) => {
+    const rows: unknown[][] = XLSX.utils.sheet_to_json(workbook.Sheets[name], { header: 1, raw: false, defval: '' });
+    const table = buildTable(`Table ${tables.length + 1}`, i + 1, rows);
+    if (table) tables.push(table);
+    return `${pageMarker(i + 1)}\n# Sheet: ${name}\n${table ? formatTable(table) : '(empty sheet)'}`;
+  });
+  return { content: pages.join('\n\n'), tables };
+}
+
+/** RFC 4180 parsing: quoted fields may contain delimiters, escaped quotes and newlines. */
+const parseCsv = (text: string): string[][] => {
+  const firstLine = text.slice(0, text.indexOf('\n') === -1 ? undefined : text.indexOf('\n'));
+  const delimiter = [',', ';', '\t'].reduce((best, d) => firstLine.split(d).length > firstLine.split(best).length ? d : best, ',');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length > 0) rows.push([...row, field]);
+  return rows;
+};
+
+export function extractTextFromCsv(arrayBuffer: ArrayBuffer, fileName: string): ExtractedDocument {
+  const table = buildTable('Table 1', 1, parseCsv(normalizeText(new TextDecoder().decode(arrayBuffer))));
+  return {
+    content: `${pageMarker(1)}\n# Sheet: ${fileName.replace(/\.[^.]+$/, '')}\n${table ? formatTable(table) : '(empty sheet)'}`,
+    tables: table ? [table] : [],
+  };
+}
+
+export function extractTextFromMarkdown(arrayBuffer: ArrayBuffer): string {
+  // Front matter is metadata for static site tools, not deal content
+  return normalizeText(new TextDecoder().decode(arrayBuffer)).replace(/^---\n[\s\S]*?\n---\n/, '').trim();
+}
+
+export function extractPlainText(arrayBuffer: ArrayBuffer): string {
+  return normalizeText(new TextDecoder().decode(arrayBuffer)).trim();
+}
+
+/** Every format except PDFs and images, which need the page-by-page OCR pipeline. */
+export async function extractTextDocument(fileName: string, arrayBuffer: ArrayBuffer): Promise<ExtractedDocument> {
+  const extension = fileExtension(fileName);
+  if (extension === 'docx') return { content: `${pageMarker(1)}\n${(await library('mammoth').extractRawText(mammothInput(arrayBuffer))).value}`, tables: [] };
+  if (extension === 'pptx') return extractTextFromPptx(arrayBuffer);
+  if (extension === 'xlsx' || extension === 'xls') return extractTextFromSpreadsheet(arrayBuffer);
+  if (extension === 'csv') return extractTextFromCsv(arrayBuffer, fileName);
+  if (extension === 'md' || extension === 'markdown') return { content: `${pageMarker(1)}\n${extractTextFromMarkdown(arrayBuffer)}`, tables: [] };
+  return { content: `${pageMarker(1)}\n${extractPlainText(arrayBuffer)}`, tables: [] };
+}
@@ -1,287 +1,191 @@
+import { AnalysisResult, AnalysisStage, CognitiveSearchResult, MeetingContext, SearchRequest, SectionUpdateRequest, UsageOperation } from "../types";
+import { THINKING_BUDGETS } from "../constants";
+import { getProvider, ProviderCall } from "./llmProvider";
+import { validateAnalysisResult } from "./analysisValidator";
+import { ANALYSIS_STAGES, mergeSections } from "./analysisPlanner";
+import { createRedactor, redactContext, Redactor, speakablePlaceholders } from "./redaction";
+import { ModelError, withRetry } from "./modelRequest";
+import { costOf, estimateTokens, recordUsage, usageWorkspace } from "./usageTracker";
+
+export type { CognitiveSearchResult } from "../types";
+export { decode, decodeAudioData } from "./audio";
+export { ModelError } from "./modelRequest";
+export { createLiveClient } from "./providers/proxyProvider";
+
+// Per-attempt limits; full briefs at the High thinking level take minutes
+const TIMEOUT_MS = {
+  ocr: 90000,
+  analysis: 300000,
+  search: 120000,
+  quick: 30000,
+  audio: 60000,
+};
 
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { AnalysisResult, MeetingContext, ThinkingLevel } from "../types";
+// Typical JSON size of one brief section, used only for pre-run estimates
+const ESTIMATED_TOKENS_PER_SECTION = 1500;
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export interface CallOptions {
+  signal?: AbortSignal;
+  // Groups the usage of several calls, e.g. every stage of one analysis run
+  runId?: string;
+  detail?: string;
+}
 
-const THINKING_LEVEL_MAP: Record<ThinkingLevel, number> = {
-  'Minimal': 0,
-  'Low': 4000,
-  'Medium': 16000,
-  'High': 32768
+/** One logical model call: retried per modelRequest, with every attempt's tokens recorded. */
+const callModel = <T>(
+  operation: UsageOperation,
+  timeoutMs: number,
+  { signal, runId, detail }: CallOptions,
+  run: (call: ProviderCall) => Promise<T>,
+  retries?: number
+): Promise<T> => {
+  // Captured up front so a call that outlives a workspace switch is billed to the workspace it started in
+  const workspaceId = usageWorkspace();
+  return withRetry(attemptSignal => {
+    const startedAt = Date.now();
+    return run({
+      signal: attemptSignal,
+      onUsage: usage => recordUsage({ ...usage, operation, runId, detail, workspaceId, latencyMs: Date.now() - startedAt }),
+    });
+  }, { signal, timeoutMs, retries });
 };
 
-export async function performVisionOcr(base64Data: string, mimeType: string): Promise<string> {
-  const modelName = 'gemini-3-pro-preview'; 
-  try {
-    const response = await ai.models.generateContent({
-      model: modelName,
-      contents: {
-        parts: [
-          { inlineData: { data: base64Data, mimeType: mimeType } },
-          { 
-            text: `Act as a high-precision Cognitive OCR engine. 
-            TRANSCRIPTION TASK: Extract ALL text from this image exactly as written. Maintain layout. Output ONLY text.` 
-          },
-        ],
-      },
-    });
-    return response.text || "";
-  } catch (error) {
-    console.error("Vision OCR failed:", error);
-    return "";
-  }
+export async function performVisionOcr(base64Data: string, mimeType: string, options: CallOptions = {}): Promise<string> {
+  return callModel('ocr', TIMEOUT_MS.ocr, options, call => getProvider().performVisionOcr(base64Data, mimeType, call));
 }
 
-export interface CognitiveSearchResult {
-  answer: string;
-  briefExplanation: string;
-  articularSoundbite: string; 
-  psychologicalProjection: {
-    buyerFear: string;
-    buyerIncentive: string;
-    strategicLever: string;
-  };
-  citations: { snippet: string; source: string }[];
-  reasoningChain: {
-    painPoint: string;
-    capability: string;
-    strategicValue: string;
+// When the workspace has redaction on, document text and context are masked on the way out and restored on the way back
+const redactorFor = (context: MeetingContext) => createRedactor(context.redaction, context);
+
+export async function performCognitiveSearch(request: SearchRequest, options: CallOptions = {}): Promise<CognitiveSearchResult> {
+  const redactor = redactorFor(request.context);
+  const masked: SearchRequest = {
+    question: redactor.redact(request.question),
+    filesContent: redactor.redact(request.filesContent),
+    context: redactContext(redactor, request.context),
+    history: redactor.redactDeep(request.history),
   };
+  const result = await callModel('search', TIMEOUT_MS.search, { detail: request.question, ...options },
+    call => getProvider().performCognitiveSearch(masked, call));
+  return redactor.restoreDeep(result);
 }
 
-export async function performCognitiveSearch(
-  question: string, 
-  filesContent: string, 
-  context: MeetingContext
-): Promise<CognitiveSearchResult> {
-  const modelName = 'gemini-3-pro-preview';
-  const styleDirectives = context.answerStyles.map(style => `- Create a section exactly titled "### ${style}"`).join('\n');
-
-  const prompt = `MEETING INTELLIGENCE CONTEXT:
-  - Seller: ${context.sellerNames} from ${context.sellerCompany}
-  - Prospect: ${context.clientNames} from ${context.clientCompany}
-  - Focus: ${context.meetingFocus}
-  
-  TASK: Synthesize a response to: "${question}". Organize "answer" using:
-  ${styleDirectives}
-
-  SOURCE:
-  ${filesContent}
-
-  RESPONSE FORMAT: JSON`;
-
-  try {
-    const response = await ai.models.generateContent({
-      model: modelName,
-      contents: prompt,
-      config: {
-        systemInstruction: `You are a world-class Sales Intelligence Agent. Provide persona-aligned strategic answers.`,
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            answer: { type: Type.STRING },
-            briefExplanation: { type: Type.STRING },
-            articularSoundbite: { type: Type.STRING },
-            psychologicalProjection: {
-              type: Type.OBJECT,
-              properties: { buyerFear: { type: Type.STRING }, buyerIncentive: { type: Type.STRING }, strategicLever: { type: Type.STRING } },
-              required: ["buyerFear", "buyerIncentive", "strategicLever"]
-            },
-            citations: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { snippet: { type: Type.STRING }, source: { type: Type.STRING } }, required: ["snippet", "source"] } },
-            reasoningChain: { type: Type.OBJECT, properties: { painPoint: { type: Type.STRING }, capability: { type: Type.STRING }, strategicValue: { type: Type.STRING } }, required: ["painPoint", "capability", "strategicValue"] }
-          },
-          required: ["answer", "briefExplanation", "articularSoundbite", "psychologicalProjection", "citations", "reasoningChain"]
-        }
-      }
-    });
-    return JSON.parse(response.text || "{}");
-  } catch (error) { throw new Error("Search failed."); }
+export async function generateDynamicSuggestions(filesContent: string, context: MeetingContext, options: CallOptions = {}): Promise<string[]> {
+  const redactor = redactorFor(context);
+  const maskedFiles = redactor.redact(filesContent);
+  const maskedContext = redactContext(redactor, context);
+  const suggestions = await callModel('suggestions', TIMEOUT_MS.quick, options,
+    call => getProvider().generateDynamicSuggestions(maskedFiles, maskedContext, call), 1);
+  return redactor.restoreDeep(suggestions);
 }
 
-export async function generateDynamicSuggestions(filesContent: string, context: MeetingContext): Promise<string[]> {
-  const modelName = 'gemini-3-flash-preview';
-  const prompt = `Suggest 3 strategic questions for ${context.clientCompany}. JSON array of strings.`;
-  const response = await ai.models.generateContent({ model: modelName, contents: prompt, config: { responseMimeType: "application/json" } });
-  return JSON.parse(response.text || "[]");
+export async function generateExplanation(question: string, analysis: AnalysisResult, context: MeetingContext, options: CallOptions = {}): Promise<string> {
+  const redactor = redactorFor(context);
+  const maskedQuestion = redactor.redact(question);
+  const maskedAnalysis = redactor.redactDeep(analysis);
+  const explanation = await callModel('explanation', TIMEOUT_MS.quick, { detail: question, ...options },
+    call => getProvider().generateExplanation(maskedQuestion, maskedAnalysis, call));
+  return redactor.restore(explanation);
 }
 
-export function decode(base64: string) {
-  const binaryString = atob(base64);
-  const bytes = new Uint8Array(binaryString.length);
-  for (let i = 0; i < binaryString.length; i++) bytes[i] = binaryString.charCodeAt(i);
-  return bytes;
+// Spoken audio cannot be restored afterwards, so masked values are read out as neutral words
+export async function generatePitchAudio(text: string, voiceName: string, context: MeetingContext, options: CallOptions = {}): Promise<Uint8Array | null> {
+  const spoken = speakablePlaceholders(redactorFor(context).redact(text));
+  return callModel('audio', TIMEOUT_MS.audio, options, call => getProvider().generatePitchAudio(spoken, voiceName, call));
 }
 
-export async function decodeAudioData(data: Uint8Array, ctx: AudioContext, sampleRate: number, numChannels: number): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-  }
-  return buffer;
-}
+const SPOKEN_PLACEHOLDER_NOTE = `Bracketed codes such as [NAME_3FA91C] or [AMOUNT_1B2C3D] stand for details withheld for privacy. Never read them aloud; refer to them naturally, e.g. "your colleague" or "the budget".`;
 
-export async function generateExplanation(question: string, context: AnalysisResult): Promise<string> {
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: `Explain: "${question}" based on: ${JSON.stringify(context.snapshot)}`,
-  });
-  return response.text || "";
+/**
+ * Masks a live session's system instruction, which is built from the restored
+ * brief. The returned redactor restores any placeholders in the transcripts.
+ */
+export function maskLiveInstruction(instruction: string, context: MeetingContext): { instruction: string; redactor: Redactor } {
+  const redactor = redactorFor(context);
+  const masked = redactor.redact(instruction);
+  return { redactor, instruction: masked === instruction ? masked : `${masked}\n\n${SPOKEN_PLACEHOLDER_NOTE}` };
 }
 
-export async function generatePitchAudio(text: string, voiceName: string = 'Kore'): Promise<Uint8Array | null> {
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash-preview-tts",
-    contents: [{ parts: [{ text: text }] }],
-    config: {
-      responseModalities: [Modality.AUDIO],
-      speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: voiceName } } },
-    },
-  });
-  const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-  return base64Audio ? decode(base64Audio) : null;
+export async function analyzeSalesContext(filesContent: string, context: MeetingContext, options: CallOptions = {}): Promise<AnalysisResult> {
+  const redactor = redactorFor(context);
+  const maskedFiles = redactor.redact(filesContent);
+  const maskedContext = redactContext(redactor, context);
+  const raw = await callModel('analysis', TIMEOUT_MS.analysis, options, call => getProvider().analyzeSalesContext(maskedFiles, maskedContext, call));
+  return validateAnalysisResult(redactor.restoreDeep(raw), context.competitors.map(c => c.name).filter(Boolean));
 }
 
-export async function analyzeSalesContext(filesContent: string, context: MeetingContext): Promise<AnalysisResult> {
-  const modelName = 'gemini-3-pro-preview';
-  const citationSchema = {
-    type: Type.OBJECT,
-    properties: { snippet: { type: Type.STRING }, sourceFile: { type: Type.STRING } },
-    required: ["snippet", "sourceFile"],
-  };
+/**
+ * Prices a brief before it runs: a full brief resends the documents once per
+ * stage, an update sends them once. Returns null when the active provider's
+ * model is missing from the price table.
+ */
+export function estimateAnalysisCost(mode: 'full' | 'update', filesContent: string, context: MeetingContext, sectionCount: number): number | null {
+  const provider = getProvider();
+  const calls = mode === 'full' ? ANALYSIS_STAGES.length : 1;
+  return costOf({
+    model: mode === 'full' ? provider.models.analysis : provider.models.update,
+    inputTokens: calls * estimateTokens(filesContent + JSON.stringify(context)),
+    outputTokens: sectionCount * ESTIMATED_TOKENS_PER_SECTION,
+    thinkingTokens: calls * THINKING_BUDGETS[context.thinkingLevel],
+  }, context.costControls.prices);
+}
 
-  const competitorSchema = {
-    type: Type.OBJECT,
-    properties: {
-      name: { type: Type.STRING },
-      overview: { type: Type.STRING },
-      threatProfile: { type: Type.STRING, description: "Direct, Indirect, or Niche" },
-      strengths: { type: Type.ARRAY, items: { type: Type.STRING } },
-      weaknesses: { type: Type.ARRAY, items: { type: Type.STRING } },
-      ourWedge: { type: Type.STRING },
-      citation: citationSchema
-    },
-    required: ["name", "overview", "threatProfile", "strengths", "weaknesses", "ourWedge", "citation"]
+/**
+ * Builds a fresh brief stage by stage. After every stage the caller receives
+ * the stage list and a renderable preview in which unfinished sections hold
+ * safe defaults. A failed stage is recorded and skipped so the sections that
+ * did arrive are kept; only a run where every stage fails, or a cancelled
+ * run, throws.
+ */
+export async function analyzeSalesContextInStages(
+  filesContent: string,
+  context: MeetingContext,
+  onProgress: (stages: AnalysisStage[], preview: AnalysisResult) => void,
+  options: CallOptions = {}
+): Promise<AnalysisResult> {
+  const redactor = redactorFor(context);
+  const competitorNames = context.competitors.map(c => c.name).filter(Boolean);
+  const maskedFiles = redactor.redact(filesContent);
+  const maskedContext = redactContext(redactor, context);
+  let stages: AnalysisStage[] = ANALYSIS_STAGES.map(stage => ({ ...stage, status: 'queued' }));
+  let completed: Partial<AnalysisResult> = {};
+
+  const report = (index: number, patch: Partial<AnalysisStage>) => {
+    stages = stages.map((stage, i) => i === index ? { ...stage, ...patch } : stage);
+    const { validation, ...preview } = validateAnalysisResult(redactor.restoreDeep(completed), competitorNames);
+    onProgress(stages, preview);
   };
 
-  const responseSchema = {
-    type: Type.OBJECT,
-    properties: {
-      snapshot: {
-        type: Type.OBJECT,
-        properties: {
-          role: { type: Type.STRING },
-          roleCitation: citationSchema,
-          priorities: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { text: { type: Type.STRING }, citation: citationSchema }, required: ["text", "citation"] } },
-          likelyObjections: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { text: { type: Type.STRING }, citation: citationSchema }, required: ["text", "citation"] } },
-          decisionStyle: { type: Type.STRING },
-          decisionStyleCitation: citationSchema,
-          riskTolerance: { type: Type.STRING },
-          riskToleranceCitation: citationSchema,
-          tone: { type: Type.STRING },
-          metrics: {
-            type: Type.OBJECT,
-            properties: {
-              riskToleranceValue: { type: Type.NUMBER },
-              strategicPriorityFocus: { type: Type.NUMBER },
-              analyticalDepth: { type: Type.NUMBER },
-              directness: { type: Type.NUMBER },
-              innovationAppetite: { type: Type.NUMBER }
-            },
-            required: ["riskToleranceValue", "strategicPriorityFocus", "analyticalDepth", "directness", "innovationAppetite"]
-          },
-          personaIdentity: { type: Type.STRING },
-          decisionLogic: { type: Type.STRING }
-        },
-        required: ["role", "roleCitation", "priorities", "likelyObjections", "decisionStyle", "decisionStyleCitation", "riskTolerance", "riskToleranceCitation", "tone", "metrics", "personaIdentity", "decisionLogic"],
-      },
-      documentInsights: {
-        type: Type.OBJECT,
-        properties: {
-          entities: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { name: { type: Type.STRING }, type: { type: Type.STRING }, context: { type: Type.STRING }, citation: citationSchema }, required: ["name", "type", "context", "citation"] } },
-          structure: { type: Type.OBJECT, properties: { sections: { type: Type.ARRAY, items: { type: Type.STRING } }, keyHeadings: { type: Type.ARRAY, items: { type: Type.STRING } }, detectedTablesSummary: { type: Type.STRING } }, required: ["sections", "keyHeadings", "detectedTablesSummary"] },
-          summaries: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { fileName: { type: Type.STRING }, summary: { type: Type.STRING }, strategicImpact: { type: Type.STRING }, criticalInsights: { type: Type.ARRAY, items: { type: Type.STRING } } }, required: ["fileName", "summary", "strategicImpact", "criticalInsights"] } },
-          materialSynthesis: { type: Type.STRING }
-        },
-        required: ["entities", "structure", "summaries", "materialSynthesis"]
-      },
-      groundMatrix: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            category: { type: Type.STRING, description: "e.g. Operational, Financial, Strategic" },
-            observation: { type: Type.STRING },
-            significance: { type: Type.STRING },
-            evidence: citationSchema
-          },
-          required: ["category", "observation", "significance", "evidence"]
-        }
-      },
-      competitiveHub: {
-        type: Type.OBJECT,
-        properties: {
-          cognigy: competitorSchema,
-          amelia: competitorSchema,
-          others: { type: Type.ARRAY, items: competitorSchema }
-        },
-        required: ["cognigy", "amelia", "others"]
-      },
-      openingLines: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { text: { type: Type.STRING }, label: { type: Type.STRING }, citation: citationSchema }, required: ["text", "label", "citation"] } },
-      predictedQuestions: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { customerAsks: { type: Type.STRING }, salespersonShouldRespond: { type: Type.STRING }, reasoning: { type: Type.STRING }, category: { type: Type.STRING }, citation: citationSchema }, required: ["customerAsks", "salespersonShouldRespond", "reasoning", "category", "citation"] } },
-      strategicQuestionsToAsk: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { question: { type: Type.STRING }, whyItMatters: { type: Type.STRING }, citation: citationSchema }, required: ["question", "whyItMatters", "citation"] } },
-      objectionHandling: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { objection: { type: Type.STRING }, realMeaning: { type: Type.STRING }, strategy: { type: Type.STRING }, exactWording: { type: Type.STRING }, citation: citationSchema }, required: ["objection", "realMeaning", "strategy", "exactWording", "citation"] } },
-      toneGuidance: { type: Type.OBJECT, properties: { wordsToUse: { type: Type.ARRAY, items: { type: Type.STRING } }, wordsToAvoid: { type: Type.ARRAY, items: { type: Type.STRING } }, sentenceLength: { type: Type.STRING }, technicalDepth: { type: Type.STRING } }, required: ["wordsToUse", "wordsToAvoid", "sentenceLength", "technicalDepth"] },
-      finalCoaching: { type: Type.OBJECT, properties: { dos: { type: Type.ARRAY, items: { type: Type.STRING } }, donts: { type: Type.ARRAY, items: { type: Type.STRING } }, finalAdvice: { type: Type.STRING } }, required: ["dos", "donts", "finalAdvice"] },
-      reportSections: {
-        type: Type.OBJECT,
-        properties: {
-          introBackground: { type: Type.STRING },
-          technicalDiscussion: { type: Type.STRING },
-          productIntegration: { type: Type.STRING }
-        },
-        required: ["introBackground", "technicalDiscussion", "productIntegration"]
-      }
-    },
-    required: ["snapshot", "documentInsights", "groundMatrix", "competitiveHub", "openingLines", "predictedQuestions", "strategicQuestionsToAsk", "objectionHandling", "toneGuidance", "finalCoaching", "reportSections"]
-  };
+  for (let i = 0; i < stages.length; i++) {
+    report(i, { status: 'running' });
+    try {
+      const request = { sections: stages[i].sections, filesContent: maskedFiles, context: maskedContext, completed };
+      const update = await callModel('analysis', TIMEOUT_MS.analysis, { detail: stages[i].label, ...options }, call => getProvider().analyzeSections(request, call));
+      stages[i].sections.forEach(section => {
+        if (update[section] !== undefined) completed = { ...completed, [section]: update[section] };
+      });
+      report(i, { status: 'done' });
+    } catch (err: any) {
+      if (err instanceof ModelError && err.kind === 'cancelled') throw err;
+      console.error(err);
+      report(i, { status: 'error', error: err?.message || String(err) });
+    }
+  }
 
-  const prompt = `Synthesize high-fidelity cognitive sales intelligence. 
-  
-  COMPETITIVE INTELLIGENCE HUB TASK:
-  Specifically analyze threat profiles for Cognigy and Amelia based on any document clues or market context. If not mentioned in docs, infer typical B2B dynamics.
-  
-  COGNITIVE GROUND MATRIX TASK:
-  Extract exactly 5 foundational truths directly from the user's uploaded documents. These should be high-impact observations (Financial, Strategic, or Operational) that act as the 'grounding' for all sales strategy.
-  
-  PSYCHOLOGY TASK:
-  Provide 0-100 values for: Risk Tolerance, Strategic Priority Focus, Analytical Depth, Directness, Innovation Appetite.
-  
-  PDF REPORT SECTIONS:
-  Synthesize content for:
-  1. Introduction and Background
-  2. Technical Discussion
-  3. Product and Integration Discussion
-  
-  --- SOURCE --- 
-  ${filesContent}`;
+  const failed = stages.filter(stage => stage.status === 'error');
+  if (failed.length === stages.length) throw new Error(failed[0].error);
+  return validateAnalysisResult(redactor.restoreDeep(completed), competitorNames);
+}
 
-  try {
-    const response = await ai.models.generateContent({
-      model: modelName,
-      contents: prompt,
-      config: {
-        systemInstruction: `You are a Cognitive Sales Strategist. Provide grounded intelligence in JSON.`,
-        responseMimeType: "application/json",
-        responseSchema,
-        temperature: context.temperature,
-        thinkingConfig: { thinkingBudget: THINKING_LEVEL_MAP[context.thinkingLevel] }
-      },
-    });
-    return JSON.parse(response.text || "{}") as AnalysisResult;
-  } catch (error: any) { throw new Error(`Analysis Failed: ${error.message}`); }
+export async function updateSalesContext(request: SectionUpdateRequest, options: CallOptions = {}): Promise<AnalysisResult> {
+  const redactor = redactorFor(request.context);
+  const masked: SectionUpdateRequest = {
+    ...request,
+    filesContent: redactor.redact(request.filesContent),
+    context: redactContext(redactor, request.context),
+    previous: redactor.redactDeep(request.previous),
+  };
+  const update = redactor.restoreDeep(await callModel('analysis', TIMEOUT_MS.analysis, options, call => getProvider().regenerateSections(masked, call)));
+  const merged = mergeSections(request.previous, update, request.sections);
+  return validateAnalysisResult(merged, request.context.competitors.map(c => c.name).filter(Boolean));
 }
@@ -0,0 +1,60 @@
+import { AnalysisResult, CognitiveSearchResult, MeetingContext, SearchRequest, SectionUpdateRequest, StagedSectionRequest, TokenUsage } from "../types";
+import { geminiProvider } from "./providers/geminiProvider";
+import { mockProvider } from "./providers/mockProvider";
+import { proxyProvider } from "./providers/proxyProvider";
+
+/** Per-attempt hooks: the attempt's abort signal and a sink for the tokens the call consumed. */
+export interface ProviderCall {
+  signal?: AbortSignal;
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+/**
+ * Contract every model backend must fulfil. geminiService delegates to the
+ * active provider, so components never talk to a vendor SDK directly.
+ */
+export interface LLMProvider {
+  id: string;
+  label: string;
+  // Model ids used for full briefs and for section updates, so runs can be priced before they start
+  models: { analysis: string; update: string };
+  // geminiService owns retries and timeouts; each method sees a single attempt
+  analyzeSalesContext(filesContent: string, context: MeetingContext, call?: ProviderCall): Promise<AnalysisResult>;
+  // Generates one stage of a fresh brief; earlier stages are passed back in for consistency
+  analyzeSections(request: StagedSectionRequest, call?: ProviderCall): Promise<Partial<AnalysisResult>>;
+  // Returns only the requested sections; callers merge them into the previous brief
+  regenerateSections(request: SectionUpdateRequest, call?: ProviderCall): Promise<Partial<AnalysisResult>>;
+  // Follow-ups carry the thread so far; the answer should build on it rather than restart
+  performCognitiveSearch(request: SearchRequest, call?: ProviderCall): Promise<CognitiveSearchResult>;
+  performVisionOcr(base64Data: string, mimeType: string, call?: ProviderCall): Promise<string>;
+  generatePitchAudio(text: string, voiceName: string, call?: ProviderCall): Promise<Uint8Array | null>;
+  generateExplanation(question: string, context: AnalysisResult, call?: ProviderCall): Promise<string>;
+  generateDynamicSuggestions(filesContent: string, context: MeetingContext, call?: ProviderCall): Promise<string[]>;
+}
+
+const PROVIDERS: Record<string, LLMProvider> = {
+  [geminiProvider.id]: geminiProvider,
+  [mockProvider.id]: mockProvider,
+  [proxyProvider.id]: proxyProvider,
+};
+
+// The browser talks to the proxy by default; geminiProvider needs the API key and runs server-side
+let activeProvider: LLMProvider = PROVIDERS[process.env.LLM_PROVIDER || ''] || proxyProvider;
+
+export function registerProvider(provider: LLMProvider) {
+  PROVIDERS[provider.id] = provider;
+}
+
+export function listProviders(): LLMProvider[] {
+  return Object.values(PROVIDERS);
+}
+
+export function getProvider(): LLMProvider {
+  return activeProvider;
+}
+
+export function setProvider(id: string) {
+  const provider = PROVIDERS[id];
+  if (!provider) throw new Error(`Unknown LLM provider: ${id}`);
+  activeProvider = provider;
+}
@@ -0,0 +1,111 @@
+/**
+ * Shared wrapper for every model call: a timeout per attempt, exponential
+ * backoff on transient failures and cancellation through AbortSignal.
+ * Failures surface as ModelError, whose kind decides whether a retry can
+ * help and whose message tells the user what to do next.
+ */
+
+export type ModelErrorKind = 'quota' | 'safety' | 'timeout' | 'schema' | 'auth' | 'unavailable' | 'cancelled' | 'unknown';
+
+const MESSAGES: Record<ModelErrorKind, string> = {
+  quota: 'The model rate limit or quota was reached. Wait a minute and retry, or check the limits on your API plan.',
+  safety: 'The model declined this request under its safety filters. Rephrase it or remove the flagged content.',
+  timeout: 'The model did not respond in time. Retry, or lower the thinking level for faster answers.',
+  schema: 'The model returned a malformed response. Retry; if it keeps happening, lower the temperature.',
+  auth: 'The API key was rejected. Check that GEMINI_API_KEY is set on the proxy server and has access to this model.',
+  unavailable: 'The model service is temporarily unavailable. Retry in a few moments.',
+  cancelled: 'The request was cancelled.',
+  unknown: 'The model request failed.',
+};
+
+const RETRYABLE: ModelErrorKind[] = ['quota', 'timeout', 'schema', 'unavailable'];
+
+const DEFAULT_TIMEOUT_MS = 60000;
+const DEFAULT_RETRIES = 3;
+const BASE_DELAY_MS = 1000;
+// Longer server-requested waits (e.g. a daily quota) fail fast instead of stalling the UI
+const MAX_DELAY_MS = 30000;
+
+export class ModelError extends Error {
+  constructor(readonly kind: ModelErrorKind, readonly detail?: string, readonly retryAfterMs?: number) {
+    super(detail ? `${MESSAGES[kind]} (${detail})` : MESSAGES[kind]);
+    this.name = 'ModelError';
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE.includes(this.kind);
+  }
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  retries?: number;
+}
+
+/** Maps SDK, HTTP and network failures onto a ModelError. */
+export function classifyError(err: unknown): ModelError {
+  if (err instanceof ModelError) return err;
+  const status = Number((err as any)?.status ?? (err as any)?.code) || 0;
+  const message = String((err as any)?.message ?? err);
+  const detail = message.length > 160 ? `${message.slice(0, 160)}...` : message;
+
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate.?limit/i.test(message)) {
+    const delay = message.match(/retryDelay"?\s*:\s*"?(\d+(?:\.\d+)?)s/);
+    return new ModelError('quota', undefined, delay ? Math.ceil(parseFloat(delay[1]) * 1000) : undefined);
+  }
+  if (status === 401 || status === 403 || /API.?key|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) return new ModelError('auth', detail);
+  if (status >= 500 || /UNAVAILABLE|overloaded|Failed to fetch|fetch failed|NetworkError/i.test(message)) return new ModelError('unavailable', detail);
+  if (/SAFETY|PROHIBITED_CONTENT|blocked/i.test(message)) return new ModelError('safety', detail);
+  return new ModelError('unknown', detail);
+}
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new ModelError('cancelled'));
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new ModelError('cancelled'));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export async function withRetry<T>(
+  call: (signal: AbortSignal) => Promise<T>,
+  { signal, timeoutMs = DEFAULT_TIMEOUT_MS, retries = DEFAULT_RETRIES }: RequestOptions = {}
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw new ModelError('cancelled');
+    const controller = new AbortController();
+    const forwardAbort = () => controller.abort();
+    signal?.addEventListener('abort', forwardAbort, { once: true });
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+
+    try {
+      // Racing the abort keeps providers that ignore the signal cancellable too
+      return await Promise.race([
+        call(controller.signal),
+        new Promise<never>((_, reject) => controller.signal.addEventListener('abort', () => reject(new ModelError('cancelled')), { once: true })),
+      ]);
+    } catch (err) {
+      const error = timedOut ? new ModelError('timeout', `no response after ${Math.round(timeoutMs / 1000)}s`)
+        : signal?.aborted ? new ModelError('cancelled')
+        : classifyError(err);
+      if (!error.retryable || attempt >= retries || (error.retryAfterMs ?? 0) > MAX_DELAY_MS) throw error;
+      // Full jitter keeps parallel OCR pages from retrying in lockstep
+      const backoff = Math.random() * Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt + 1));
+      console.warn(`Model call failed (${error.kind}), retry ${attempt + 1} of ${retries}`);
+      await wait(Math.max(backoff, error.retryAfterMs ?? 0), signal);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', forwardAbort);
+    }
+  }
+}
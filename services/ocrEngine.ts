@@ -0,0 +1,74 @@
+import { OcrEngine, OcrPageResult } from "../types";
+import { CallOptions, ModelError, performVisionOcr } from "./geminiService";
+
+/**
+ * Page-level OCR behind a single engine switch. Local recognition runs
+ * Tesseract in its own Web Worker so confidential pages never leave the
+ * browser; hybrid mode reads locally first and escalates only the pages
+ * Tesseract is unsure of to the vision model.
+ */
+
+declare global {
+  interface Window {
+    Tesseract: any;
+  }
+}
+
+// Below this Tesseract confidence, hybrid mode re-reads the page with the vision model
+export const HYBRID_CONFIDENCE_THRESHOLD = 70;
+
+export const OCR_ENGINES: { engine: OcrEngine; label: string; description: string }[] = [
+  { engine: 'vision', label: 'Vision LLM', description: 'Highest accuracy. Pages are sent to the model.' },
+  { engine: 'local', label: 'Local', description: 'Tesseract in the browser. Nothing leaves this device.' },
+  { engine: 'hybrid', label: 'Hybrid', description: `Local first; pages under ${HYBRID_CONFIDENCE_THRESHOLD}% confidence go to the model.` },
+];
+
+let workerPromise: Promise<any> | null = null;
+
+const getWorker = () => {
+  if (!window.Tesseract) throw new Error("Local OCR is unavailable: tesseract.js failed to load.");
+  return workerPromise ??= window.Tesseract.createWorker('eng');
+};
+
+export async function recognizeLocally(canvas: HTMLCanvasElement): Promise<{ text: string; confidence: number }> {
+  const worker = await getWorker();
+  const { data } = await worker.recognize(canvas);
+  return { text: data.text || '', confidence: Math.round(data.confidence ?? 0) };
+}
+
+/** Releases the Tesseract worker; the next local page spins up a fresh one. */
+export async function terminateLocalOcr(): Promise<void> {
+  if (!workerPromise) return;
+  // Cleared before awaiting so a page started meanwhile creates a new worker instead of reusing this one
+  const pending = workerPromise;
+  workerPromise = null;
+  await (await pending).terminate();
+}
+
+const visionRead = (canvas: HTMLCanvasElement, options: CallOptions) =>
+  performVisionOcr(canvas.toDataURL('image/png').split(',')[1], 'image/png', options);
+
+export async function recognizePage(
+  canvas: HTMLCanvasElement,
+  page: number,
+  engine: OcrEngine,
+  options: CallOptions = {}
+): Promise<{ text: string; result: OcrPageResult }> {
+  if (engine === 'vision') {
+    return { text: await visionRead(canvas, options), result: { page, engine: 'vision', confidence: null } };
+  }
+
+  const local = await recognizeLocally(canvas);
+  if (engine === 'hybrid' && local.confidence < HYBRID_CONFIDENCE_THRESHOLD) {
+    try {
+      const text = await visionRead(canvas, options);
+      // An empty vision read is worse than a shaky local one
+      if (text.trim()) return { text, result: { page, engine: 'vision', confidence: local.confidence } };
+    } catch (err) {
+      if (err instanceof ModelError && err.kind === 'cancelled') throw err;
+      // Escalation is best-effort: the local text and its low confidence score are kept
+      console.warn(`Vision OCR escalation failed for page ${page}:`, err);
+    }
+  }
+  return { text: local.text, result: { page, engine: 'local', confidence: local.confidence } };
+}
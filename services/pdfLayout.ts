@@ -0,0 +1,130 @@
+/**
+ * Rebuilds reading order and tables from pdf.js text items. Items are
+ * grouped into lines by baseline, lines are split into cells at wide
+ * horizontal gaps, and runs of multi-cell lines sharing a column grid are
+ * returned as table rows instead of being flattened into prose.
+ */
+
+export type LayoutBlock = { kind: 'text'; text: string } | { kind: 'table'; rows: string[][] };
+
+interface PositionedText {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface Cell {
+  text: string;
+  x: number;
+  end: number;
+}
+
+interface Line {
+  y: number;
+  height: number;
+  cells: Cell[];
+}
+
+// Gaps are measured in multiples of the font height so they hold at any scale
+const SAME_LINE_TOLERANCE = 0.4;
+const WORD_GAP = 0.15;
+const CELL_GAP = 1.0;
+const ROW_GAP = 2.5;
+const MIN_TABLE_ROWS = 3;
+// Two-column prose also yields two cells per line; real table cells are short
+const MAX_MEDIAN_CELL_CHARS = 40;
+
+const toPositioned = (items: any[]): PositionedText[] =>
+  items
+    .filter(item => typeof item.str === 'string' && item.str.trim())
+    .map(item => ({
+      text: item.str,
+      x: item.transform[4],
+      y: item.transform[5],
+      width: item.width,
+      height: Math.abs(item.height || item.transform[3]) || 10,
+    }));
+
+const groupLines = (items: PositionedText[]): Line[] => {
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const lines: { y: number; height: number; items: PositionedText[] }[] = [];
+  sorted.forEach(item => {
+    const line = lines.find(l => Math.abs(l.y - item.y) <= Math.max(l.height, item.height) * SAME_LINE_TOLERANCE);
+    if (line) {
+      line.items.push(item);
+      line.height = Math.max(line.height, item.height);
+    } else {
+      lines.push({ y: item.y, height: item.height, items: [item] });
+    }
+  });
+
+  return lines
+    .sort((a, b) => b.y - a.y)
+    .map(line => {
+      const cells: Cell[] = [];
+      [...line.items].sort((a, b) => a.x - b.x).forEach(item => {
+        const last = cells[cells.length - 1];
+        const gap = last ? item.x - last.end : Infinity;
+        if (last && gap < line.height * CELL_GAP) {
+          const space = gap > line.height * WORD_GAP && !last.text.endsWith(' ') && !item.text.startsWith(' ');
+          last.text += (space ? ' ' : '') + item.text;
+          last.end = Math.max(last.end, item.x + item.width);
+        } else {
+          cells.push({ text: item.text, x: item.x, end: item.x + item.width });
+        }
+      });
+      return { y: line.y, height: line.height, cells: cells.map(c => ({ ...c, text: c.text.replace(/\s+/g, ' ').trim() })) };
+    });
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] ?? 0;
+};
+
+/** Uses the widest row as the column grid and places every cell in the column it overlaps most. */
+const toTableRows = (run: Line[]): string[][] | null => {
+  const grid = run.reduce((widest, line) => line.cells.length > widest.cells.length ? line : widest).cells;
+  if (median(run.flatMap(l => l.cells.map(c => c.text.length))) > MAX_MEDIAN_CELL_CHARS) return null;
+
+  return run.map(line => {
+    const row: string[] = grid.map(() => '');
+    line.cells.forEach(cell => {
+      let column = 0;
+      let best = -Infinity;
+      grid.forEach((g, i) => {
+        const overlap = Math.min(cell.end, g.end) - Math.max(cell.x, g.x);
+        // Without overlap, prefer the nearest column centre
+        const score = overlap > 0 ? overlap : -Math.abs((cell.x + cell.end) / 2 - (g.x + g.end) / 2);
+        if (score > best) { best = score; column = i; }
+      });
+      row[column] = row[column] ? `${row[column]} ${cell.text}` : cell.text;
+    });
+    return row;
+  });
+};
+
+export function layoutPdfPage(items: any[]): LayoutBlock[] {
+  const lines = groupLines(toPositioned(items));
+  const blocks: LayoutBlock[] = [];
+  let run: Line[] = [];
+
+  const flushRun = () => {
+    const rows = run.length >= MIN_TABLE_ROWS ? toTableRows(run) : null;
+    if (rows) blocks.push({ kind: 'table', rows });
+    else run.forEach(line => blocks.push({ kind: 'text', text: line.cells.map(c => c.text).join(' ') }));
+    run = [];
+  };
+
+  lines.forEach(line => {
+    const previous = run[run.length - 1];
+    const continuesRun = line.cells.length >= 2 && (!previous || previous.y - line.y <= line.height * ROW_GAP);
+    if (!continuesRun) flushRun();
+    if (line.cells.length >= 2) run.push(line);
+    else blocks.push({ kind: 'text', text: line.cells.map(c => c.text).join(' ') });
+  });
+  flushRun();
+  return blocks;
+}
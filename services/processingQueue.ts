@@ -0,0 +1,188 @@
+import { OcrPageResult, PageJob, ProcessingJob } from "../types";
+
+/**
+ * Bounded-concurrency queue for document extraction. Files run a few at a
+ * time and OCR pages within a file run in parallel; every job can be
+ * cancelled, and a failed or cancelled job resumes from the pages it had
+ * already finished. Page progress is kept in memory only, so resuming works
+ * within one session; after a reload the file has to be extracted again.
+ * The queue is a module singleton so jobs survive the upload panel
+ * unmounting when the user switches tabs.
+ */
+
+const FILE_CONCURRENCY = 2;
+const PAGE_CONCURRENCY = 3;
+
+export interface PageOutput {
+  text: string;
+  result: OcrPageResult;
+}
+
+export interface JobContext {
+  signal: AbortSignal;
+  setStage(stage: string, progress?: number): void;
+  /** Runs per-page work, skipping pages finished by an earlier attempt. Resolves in page order. */
+  runPages(count: number, work: (page: number) => Promise<PageOutput>): Promise<PageOutput[]>;
+}
+
+export type JobRunner = (context: JobContext) => Promise<void>;
+
+type Listener = (jobs: ProcessingJob[]) => void;
+
+export class CancelledError extends Error {
+  constructor() {
+    super('Processing cancelled');
+    this.name = 'CancelledError';
+  }
+}
+
+class ProcessingQueue {
+  private jobs: ProcessingJob[] = [];
+  private runners = new Map<string, JobRunner>();
+  private controllers = new Map<string, AbortController>();
+  private listeners = new Set<Listener>();
+  // Jobs whose runner has not settled yet; a cancelled runner keeps its slot until it does
+  private active = new Set<string>();
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    listener(this.jobs);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  enqueue(fileName: string, runner: JobRunner): string {
+    const id = crypto.randomUUID();
+    this.runners.set(id, runner);
+    // A re-upload under the same name replaces the old job
+    this.jobs.filter(j => j.fileName === fileName).forEach(j => this.remove(j.id));
+    this.jobs = [...this.jobs, { id, fileName, status: 'queued', stage: 'Queued', progress: 0, pages: [] }];
+    this.emit();
+    this.pump();
+    return id;
+  }
+
+  cancel(id: string) {
+    const job = this.find(id);
+    if (!job || (job.status !== 'queued' && job.status !== 'running')) return;
+    this.controllers.get(id)?.abort();
+    this.update(id, {
+      status: 'cancelled',
+      stage: 'Cancelled',
+      pages: job.pages.map(p => p.status === 'done' ? p : { ...p, status: 'cancelled' }),
+    });
+  }
+
+  /** Requeues a failed or cancelled job; finished pages are kept and only the rest are redone. */
+  retry(id: string, page?: number) {
+    const job = this.find(id);
+    if (!job || job.status === 'queued' || job.status === 'running') return;
+    this.update(id, {
+      status: 'queued',
+      stage: 'Queued',
+      error: undefined,
+      pages: job.pages.map(p => p.status !== 'done' && (page === undefined || p.page === page) ? { ...p, status: 'queued', error: undefined } : p),
+    });
+    this.pump();
+  }
+
+  remove(id: string) {
+    this.controllers.get(id)?.abort();
+    this.controllers.delete(id);
+    this.runners.delete(id);
+    this.jobs = this.jobs.filter(j => j.id !== id);
+    this.emit();
+    this.pump();
+  }
+
+  private find(id: string) {
+    return this.jobs.find(j => j.id === id);
+  }
+
+  private update(id: string, patch: Partial<ProcessingJob>) {
+    this.jobs = this.jobs.map(j => j.id === id ? { ...j, ...patch } : j);
+    this.emit();
+  }
+
+  private updatePage(id: string, page: number, patch: Partial<PageJob>) {
+    const job = this.find(id);
+    if (!job) return;
+    const pages = job.pages.map(p => p.page === page ? { ...p, ...patch } : p);
+    const done = pages.filter(p => p.status === 'done').length;
+    this.update(id, { pages, progress: Math.round((done / pages.length) * 100) });
+  }
+
+  private emit() {
+    this.listeners.forEach(listener => listener(this.jobs));
+  }
+
+  private pump() {
+    this.jobs
+      .filter(j => j.status === 'queued' && !this.active.has(j.id))
+      .slice(0, Math.max(0, FILE_CONCURRENCY - this.active.size))
+      .forEach(j => this.run(j.id));
+  }
+
+  private async run(id: string) {
+    const runner = this.runners.get(id);
+    if (!runner) return;
+    const controller = new AbortController();
+    this.active.add(id);
+    this.controllers.set(id, controller);
+    this.update(id, { status: 'running', stage: 'Starting', progress: 0 });
+
+    const context: JobContext = {
+      signal: controller.signal,
+      setStage: (stage, progress) => {
+        if (!controller.signal.aborted) this.update(id, progress === undefined ? { stage } : { stage, progress });
+      },
+      runPages: (count, work) => this.runPages(id, controller.signal, count, work),
+    };
+
+    try {
+      await runner(context);
+      if (controller.signal.aborted) return;
+      this.update(id, { status: 'done', stage: 'Done', progress: 100 });
+    } catch (err: any) {
+      if (controller.signal.aborted) return;
+      this.update(id, { status: 'error', stage: 'Failed', error: err?.message || String(err) });
+    } finally {
+      if (this.controllers.get(id) === controller) this.controllers.delete(id);
+      this.active.delete(id);
+      this.pump();
+    }
+  }
+
+  private async runPages(id: string, signal: AbortSignal, count: number, work: (page: number) => Promise<PageOutput>): Promise<PageOutput[]> {
+    const job = this.find(id);
+    if (!job) throw new CancelledError();
+    // First attempt, or a different page count: start from a clean slate
+    if (job.pages.length !== count) {
+      this.update(id, { pages: Array.from({ length: count }, (_, i) => ({ page: i + 1, status: 'queued' as const, text: '' })) });
+    }
+
+    const pending = this.find(id)!.pages.filter(p => p.status === 'queued').map(p => p.page);
+    const worker = async () => {
+      for (let page = pending.shift(); page !== undefined; page = pending.shift()) {
+        if (signal.aborted) return;
+        this.updatePage(id, page, { status: 'running' });
+        try {
+          const output = await work(page);
+          if (signal.aborted) return;
+          this.updatePage(id, page, { status: 'done', text: output.text, result: output.result });
+        } catch (err: any) {
+          if (signal.aborted) return;
+          this.updatePage(id, page, { status: 'error', error: err?.message || String(err) });
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(PAGE_CONCURRENCY, pending.length) }, worker));
+    if (signal.aborted) throw new CancelledError();
+
+    const pages = this.find(id)!.pages;
+    const failed = pages.filter(p => p.status !== 'done');
+    if (failed.length > 0) throw new Error(`${failed.length} of ${count} page(s) failed`);
+    return pages.map(p => ({ text: p.text, result: p.result! }));
+  }
+}
+
+export const processingQueue = new ProcessingQueue();
@@ -0,0 +1,197 @@
+import { AnalysisResult, AnalysisSection, CustomerPersonaType, MeetingContext, SearchRequest, SearchTurn, SectionUpdateRequest } from "../types";
+import { ANALYSIS_SECTIONS } from "./analysisPlanner";
+
+/**
+ * Builds the system and user prompts for analysis and search from the whole
+ * MeetingContext: the saved base prompt, persona, keywords, offering and
+ * opportunity snapshot all reach the model. Providers send these verbatim and
+ * the Config tab's inspector renders the same output, so what you see there
+ * is what the model receives.
+ */
+
+export interface ComposedPrompt {
+  systemInstruction: string;
+  prompt: string;
+}
+
+type PromptRole = 'analysis' | 'search';
+
+const ROLE_INSTRUCTIONS: Record<PromptRole, string> = {
+  analysis: `You are a Cognitive Sales Strategist. Provide grounded intelligence in JSON.`,
+  search: `You are a world-class Sales Intelligence Agent. Provide persona-aligned strategic answers.`,
+};
+
+const PERSONA_DIRECTIVES: Record<CustomerPersonaType, string> = {
+  'Balanced': `A mixed B2B audience. Balance business value with enough technical and commercial substance for every attendee, and keep jargon explained.`,
+  'Technical': `Technical buyers (CTO, VP Engineering, Tech Lead). Lead with architecture, integration, security and implementation detail; jargon is welcome, vague claims are not.`,
+  'Financial': `Financial buyers (CFO, Financial Controller). Lead with ROI, total cost, payback and risk; quantify every claim with figures from the documents.`,
+  'Business Executives': `Executive buyers (CEO, Founder, MD). Lead with strategic impact, outcomes and operational clarity; keep points short and decision-oriented.`,
+};
+
+function composeSystemInstruction(context: MeetingContext, role: PromptRole): string {
+  const keywords = context.strategicKeywords.filter(k => k.trim());
+  return [
+    ROLE_INSTRUCTIONS[role],
+    context.baseSystemPrompt.trim() && `OPERATING INSTRUCTIONS:\n${context.baseSystemPrompt.trim()}`,
+    `AUDIENCE: ${PERSONA_DIRECTIVES[context.persona]}`,
+    keywords.length > 0 && `STRATEGIC THEMES: Wherever the documents support it, frame points around ${keywords.map(k => `"${k}"`).join(', ')}. Never invent evidence to fit a theme.`,
+    // The auto-generated base prompt mentions answer styles as headers, which must not break the brief's JSON
+    role === 'analysis' && `The response schema always takes precedence over any formatting instruction above.`,
+  ].filter(Boolean).join('\n\n');
+}
+
+/** Only filled-in fields are listed, so an empty field never reads as "from ." to the model. */
+export function describeContext(context: MeetingContext): string {
+  const line = (label: string, value: string) => value.trim() ? `  - ${label}: ${value.trim()}` : null;
+  const party = (names: string, company: string) => [names.trim(), company.trim()].filter(Boolean).join(' from ');
+  const offering = [context.targetProducts.trim(), context.productDomain.trim() && `(${context.productDomain.trim()})`].filter(Boolean).join(' ');
+  return ['MEETING CONTEXT:',
+    line('Seller', party(context.sellerNames, context.sellerCompany)),
+    line('Prospect', party(context.clientNames, context.clientCompany)),
+    line('Offering', offering),
+    line('Focus', context.meetingFocus),
+    line('Buyer Persona', context.persona),
+    line('Response Styles', context.answerStyles.join(', ')),
+    line('Strategic Keywords', context.strategicKeywords.join(', ')),
+    line("Opportunity Snapshot (the seller's own summary; use as framing, never cite it)", context.executiveSnapshot),
+  ].filter(Boolean).join('\n');
+}
+
+function buyingCommitteeTask(context: MeetingContext): string {
+  const configured = context.stakeholders.filter(s => s.name.trim());
+  const roster = configured.length > 0
+    ? `Include every stakeholder below, using the exact name given:
+  ${configured.map((s, i) => `${i + 1}. ${s.name}${s.title ? ` (${s.title})` : ''}${s.notes ? ` | Notes: ${s.notes}` : ''}`).join('\n  ')}
+  Add any other decision participants found in the documents.`
+    : `Identify every decision participant named or implied in the documents${context.clientNames ? ` (known attendees: ${context.clientNames})` : ''}.`;
+  return `${roster}
+  For each stakeholder provide a full buyer snapshot (metrics, priorities, likely objections), their committee role, influence (0-100), attitude toward our proposal, tailored opening lines and talking points.`;
+}
+
+function competitorRosterTask(context: MeetingContext): string {
+  const roster = context.competitors.filter(c => c.name.trim());
+  const market = context.productDomain.trim() ? ` in the ${context.productDomain.trim()} market` : '';
+  return roster.length > 0
+    ? `Return exactly one entry in "competitiveHub.competitors" for each competitor below, in this order, using the exact name given. Analyze threat profiles${market} based on any document clues or market context. If not mentioned in docs, infer typical B2B dynamics. Place any other competitors found in the documents in "others".
+  ${roster.map((c, i) => `${i + 1}. ${c.name}${c.websiteNotes ? ` | Notes: ${c.websiteNotes}` : ''}${c.knownWeaknesses.length > 0 ? ` | Known weaknesses: ${c.knownWeaknesses.join('; ')}` : ''}`).join('\n  ')}`
+    : `No competitor roster is configured. Identify the most likely competitors${market} from the documents and market context and return them in "competitiveHub.competitors"; leave "others" empty.`;
+}
+
+function keywordTask(context: MeetingContext): string {
+  const keywords = context.strategicKeywords.filter(k => k.trim());
+  return `Tie the ground matrix, predicted questions and objection handling back to these strategic keywords where the documents support it: ${keywords.join(', ')}. When a keyword has no support in the documents, say so in the closest section rather than inventing evidence.`;
+}
+
+// Extraction rebuilds tables as Markdown under "[Table N]" captions
+const TABLE_GROUNDING_TASK = `Tables in the source appear as Markdown under "[Table N]" caption lines. Whenever a point concerns pricing, volumes, dates or metrics, quote the exact figures from those tables (never round or estimate) and use the table row as the citation snippet.`;
+
+const KEYWORD_SECTIONS: AnalysisSection[] = ['groundMatrix', 'predictedQuestions', 'objectionHandling'];
+
+/** Task blocks for the sections being generated; a full brief asks for all of them. */
+function sectionTasks(sections: AnalysisSection[], context: MeetingContext): string {
+  const tasks: [AnalysisSection, string, string][] = [
+    ['buyingCommittee', 'BUYING COMMITTEE TASK', buyingCommitteeTask(context)],
+    ['competitiveHub', 'COMPETITIVE INTELLIGENCE HUB TASK', competitorRosterTask(context)],
+    ['documentInsights', 'TABLES TASK', `${TABLE_GROUNDING_TASK}
+  In "documentInsights.structure.detectedTablesSummary", list each table by its caption and file with what it measures and its key figures, or state that no tables were found.`],
+    ['groundMatrix', 'COGNITIVE GROUND MATRIX TASK', `Extract exactly 5 foundational truths directly from the user's uploaded documents. These should be high-impact observations (Financial, Strategic, or Operational) that act as the 'grounding' for all sales strategy.`],
+    ['snapshot', 'PSYCHOLOGY TASK', `Provide 0-100 values for: Risk Tolerance, Strategic Priority Focus, Analytical Depth, Directness, Innovation Appetite.`],
+    ['reportSections', 'PDF REPORT SECTIONS', `Synthesize content for:
+  1. Introduction and Background
+  2. Technical Discussion
+  3. Product and Integration Discussion`],
+  ];
+  // Figures must come from the tables in every section, not only the one that summarises them
+  const tableGrounding = sections.includes('documentInsights') ? [] : [`TABLES:\n  ${TABLE_GROUNDING_TASK}`];
+  const keywords = context.strategicKeywords.some(k => k.trim()) && sections.some(s => KEYWORD_SECTIONS.includes(s))
+    ? [`STRATEGIC KEYWORDS TASK:\n  ${keywordTask(context)}`] : [];
+  return [
+    ...tableGrounding,
+    ...tasks.filter(([section]) => sections.includes(section)).map(([, title, body]) => `${title}:\n  ${body}`),
+    ...keywords,
+  ].join('\n  \n  ');
+}
+
+/** A full brief in one call, or one stage of it with the sections generated so far for consistency. */
+export function composeAnalysisPrompt(
+  sections: AnalysisSection[],
+  filesContent: string,
+  context: MeetingContext,
+  completed: Partial<AnalysisResult> = {}
+): ComposedPrompt {
+  const partial = sections.length < ANALYSIS_SECTIONS.length;
+  const prompt = `Synthesize high-fidelity cognitive sales intelligence${partial ? `, one part of the brief at a time.
+  Return ONLY these sections: ${sections.join(', ')}.` : '.'}
+
+  ${describeContext(context)}
+
+  ${sectionTasks(sections, context)}
+  ${Object.keys(completed).length > 0 ? `
+  --- BRIEF SO FAR (stay consistent with it; do not repeat it) ---
+  ${JSON.stringify(completed)}
+  ` : ''}
+  --- SOURCE ---
+  ${filesContent}`;
+  return { systemInstruction: composeSystemInstruction(context, 'analysis'), prompt };
+}
+
+export function composeUpdatePrompt({ mode, sections, filesContent, context, previous }: SectionUpdateRequest): ComposedPrompt {
+  const currentBrief = JSON.stringify(previous, (key, value) => key === 'match' || key === 'validation' ? undefined : value);
+
+  const task = mode === 'merge'
+    ? `NEW DOCUMENTS have been added to this deal. Fold them into the existing brief: keep existing points that remain valid (with their original citations), revise or add points the new documents support, and cite new evidence verbatim from the new documents.`
+    : `The meeting context changed. Rebuild the listed sections so they reflect the context below, grounded in the source documents. Keep them consistent with the rest of the brief.`;
+
+  const prompt = `Update an existing cognitive sales brief.
+
+  ${task}
+  Return the complete updated value of ONLY these sections: ${sections.join(', ')}.
+
+  ${describeContext(context)}
+
+  ${sectionTasks(sections.filter(s => s !== 'documentInsights'), context)}
+
+  --- CURRENT BRIEF ---
+  ${currentBrief}
+
+  --- ${mode === 'merge' ? 'NEW DOCUMENTS' : 'SOURCE'} ---
+  ${filesContent}`;
+  return { systemInstruction: composeSystemInstruction(context, 'analysis'), prompt };
+}
+
+// Older turns are dropped first so long threads stay within the prompt budget
+const MAX_HISTORY_TURNS = 6;
+
+/** Earlier turns as the model needs them: what was asked, what it concluded, and the evidence it used. */
+function conversationBlock(history: SearchTurn[]): string {
+  if (history.length === 0) return '';
+  const turns = history.slice(-MAX_HISTORY_TURNS).map((turn, i) => {
+    const { briefExplanation, reasoningChain, citations } = turn.result;
+    return `  [Turn ${i + 1}] Q: "${turn.question}"
+  Conclusion: ${briefExplanation}
+  Reasoning chain: pain point: ${reasoningChain.painPoint} -> capability: ${reasoningChain.capability} -> strategic value: ${reasoningChain.strategicValue}
+  Evidence: ${citations.map(c => `"${c.snippet}" (${c.chunkId || c.source})`).join('; ') || 'none'}`;
+  });
+  return `
+  --- CONVERSATION SO FAR (oldest first) ---
+${turns.join('\n\n')}
+
+  This question is a follow-up. Resolve references such as "they", "that" or "their team" against the conversation above, build on the last reasoning chain instead of repeating it, and reuse earlier evidence only where it still applies.
+`;
+}
+
+export function composeSearchPrompt({ question, filesContent, context, history }: SearchRequest): ComposedPrompt {
+  const styleDirectives = context.answerStyles.map(style => `- Create a section exactly titled "### ${style}"`).join('\n  ');
+
+  const prompt = `${describeContext(context)}
+  ${conversationBlock(history)}
+  TASK: Synthesize a response to: "${question}". Organize "answer" using:
+  ${styleDirectives || '- A single concise section'}
+  In "followUps", suggest 3 short questions the seller could ask next to go deeper on this answer.
+
+  SOURCE CHUNKS (each begins with [CHUNK id]; cite the exact id in "chunkId" and copy snippets verbatim):
+  ${filesContent}
+
+  RESPONSE FORMAT: JSON`;
+  return { systemInstruction: composeSystemInstruction(context, 'search'), prompt };
+}
@@ -0,0 +1,337 @@
+import { GoogleGenAI, GenerateContentParameters, GenerateContentResponse, Type, Modality } from "@google/genai";
+import { AnalysisResult, CognitiveSearchResult, MeetingContext, SearchRequest, SectionUpdateRequest, StagedSectionRequest } from "../../types";
+import { THINKING_BUDGETS } from "../../constants";
+import { LLMProvider, ProviderCall } from "../llmProvider";
+import { ANALYSIS_SECTIONS } from "../analysisPlanner";
+import { decode } from "../audio";
+import { ModelError } from "../modelRequest";
+import { composeAnalysisPrompt, composeSearchPrompt, composeUpdatePrompt } from "../promptComposer";
+
+// Created lazily so offline providers never require an API key. Runs on the proxy server, never in the browser.
+let client: GoogleGenAI | null = null;
+const getClient = () => client ??= new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+
+const MODELS = {
+  analysis: 'gemini-3-pro-preview',
+  update: 'gemini-3-flash-preview',
+};
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION', 'IMAGE_SAFETY'];
+
+/** Turns blocked responses into typed errors instead of letting them read as empty answers. */
+const checkResponse = (response: GenerateContentResponse): GenerateContentResponse => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) throw new ModelError('safety', `prompt blocked: ${blockReason}`);
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) throw new ModelError('safety', `response stopped: ${finishReason}`);
+  return response;
+};
+
+/** Single attempt: wires the abort signal in, reports token usage, then rejects blocked responses. */
+const generate = async (params: GenerateContentParameters, call?: ProviderCall): Promise<GenerateContentResponse> => {
+  const response = await getClient().models.generateContent({ ...params, config: { ...params.config, abortSignal: call?.signal } });
+  const usage = response.usageMetadata;
+  call?.onUsage?.({
+    model: params.model,
+    inputTokens: usage?.promptTokenCount ?? 0,
+    outputTokens: usage?.candidatesTokenCount ?? 0,
+    thinkingTokens: usage?.thoughtsTokenCount ?? 0,
+  });
+  return checkResponse(response);
+};
+
+const parseJson = <T>(response: GenerateContentResponse): T => {
+  const text = response.text;
+  try {
+    return JSON.parse(text || '');
+  } catch {
+    const truncated = response.candidates?.[0]?.finishReason === 'MAX_TOKENS';
+    throw new ModelError('schema', truncated ? 'response was cut off at the token limit' : 'response was not valid JSON');
+  }
+};
+
+async function performVisionOcr(base64Data: string, mimeType: string, call?: ProviderCall): Promise<string> {
+  const modelName = 'gemini-3-pro-preview'; 
+  const response = await generate({
+    model: modelName,
+    contents: {
+      parts: [
+        { inlineData: { data: base64Data, mimeType: mimeType } },
+        { 
+          text: `Act as a high-precision Cognitive OCR engine. 
+          TRANSCRIPTION TASK: Extract ALL text from this image exactly as written. Maintain layout. Output ONLY text.` 
+        },
+      ],
+    },
+  }, call);
+  return response.text || "";
+}
+
+async function performCognitiveSearch(request: SearchRequest, call?: ProviderCall): Promise<CognitiveSearchResult> {
+  const modelName = 'gemini-3-pro-preview';
+  const { systemInstruction, prompt } = composeSearchPrompt(request);
+
+  const response = await generate({
+    model: modelName,
+    contents: prompt,
+    config: {
+      systemInstruction,
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          answer: { type: Type.STRING },
+          briefExplanation: { type: Type.STRING },
+          articularSoundbite: { type: Type.STRING },
+          psychologicalProjection: {
+            type: Type.OBJECT,
+            properties: { buyerFear: { type: Type.STRING }, buyerIncentive: { type: Type.STRING }, strategicLever: { type: Type.STRING } },
+            required: ["buyerFear", "buyerIncentive", "strategicLever"]
+          },
+          citations: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { snippet: { type: Type.STRING }, source: { type: Type.STRING }, chunkId: { type: Type.STRING } }, required: ["snippet", "source", "chunkId"] } },
+          reasoningChain: { type: Type.OBJECT, properties: { painPoint: { type: Type.STRING }, capability: { type: Type.STRING }, strategicValue: { type: Type.STRING } }, required: ["painPoint", "capability", "strategicValue"] },
+          followUps: { type: Type.ARRAY, items: { type: Type.STRING } }
+        },
+        required: ["answer", "briefExplanation", "articularSoundbite", "psychologicalProjection", "citations", "reasoningChain", "followUps"]
+      }
+    }
+  }, call);
+  return parseJson<CognitiveSearchResult>(response);
+}
+
+async function generateDynamicSuggestions(filesContent: string, context: MeetingContext, call?: ProviderCall): Promise<string[]> {
+  const modelName = 'gemini-3-flash-preview';
+  const prompt = `Suggest 3 strategic questions for ${context.clientCompany}. JSON array of strings.`;
+  const response = await generate({ model: modelName, contents: prompt, config: { responseMimeType: "application/json" } }, call);
+  return parseJson<string[]>(response);
+}
+
+async function generateExplanation(question: string, context: AnalysisResult, call?: ProviderCall): Promise<string> {
+  const response = await generate({
+    model: 'gemini-3-flash-preview',
+    contents: `Explain: "${question}" based on: ${JSON.stringify(context.snapshot)}`,
+  }, call);
+  return response.text || "";
+}
+
+async function generatePitchAudio(text: string, voiceName: string, call?: ProviderCall): Promise<Uint8Array | null> {
+  const response = await generate({
+    model: "gemini-2.5-flash-preview-tts",
+    contents: [{ parts: [{ text: text }] }],
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: voiceName } } },
+    },
+  }, call);
+  const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+  return base64Audio ? decode(base64Audio) : null;
+}
+
+function buildAnalysisSchema() {
+  const citationSchema = {
+    type: Type.OBJECT,
+    properties: { snippet: { type: Type.STRING }, sourceFile: { type: Type.STRING } },
+    required: ["snippet", "sourceFile"],
+  };
+
+  const competitorSchema = {
+    type: Type.OBJECT,
+    properties: {
+      name: { type: Type.STRING },
+      overview: { type: Type.STRING },
+      threatProfile: { type: Type.STRING, description: "Direct, Indirect, or Niche" },
+      strengths: { type: Type.ARRAY, items: { type: Type.STRING } },
+      weaknesses: { type: Type.ARRAY, items: { type: Type.STRING } },
+      ourWedge: { type: Type.STRING },
+      citation: citationSchema
+    },
+    required: ["name", "overview", "threatProfile", "strengths", "weaknesses", "ourWedge", "citation"]
+  };
+
+  const snapshotSchema = {
+    type: Type.OBJECT,
+    properties: {
+      role: { type: Type.STRING },
+      roleCitation: citationSchema,
+      priorities: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { text: { type: Type.STRING }, citation: citationSchema }, required: ["text", "citation"] } },
+      likelyObjections: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { text: { type: Type.STRING }, citation: citationSchema }, required: ["text", "citation"] } },
+      decisionStyle: { type: Type.STRING },
+      decisionStyleCitation: citationSchema,
+      riskTolerance: { type: Type.STRING },
+      riskToleranceCitation: citationSchema,
+      tone: { type: Type.STRING },
+      metrics: {
+        type: Type.OBJECT,
+        properties: {
+          riskToleranceValue: { type: Type.NUMBER },
+          strategicPriorityFocus: { type: Type.NUMBER },
+          analyticalDepth: { type: Type.NUMBER },
+          directness: { type: Type.NUMBER },
+          innovationAppetite: { type: Type.NUMBER }
+        },
+        required: ["riskToleranceValue", "strategicPriorityFocus", "analyticalDepth", "directness", "innovationAppetite"]
+      },
+      personaIdentity: { type: Type.STRING },
+      decisionLogic: { type: Type.STRING }
+    },
+    required: ["role", "roleCitation", "priorities", "likelyObjections", "decisionStyle", "decisionStyleCitation", "riskTolerance", "riskToleranceCitation", "tone", "metrics", "personaIdentity", "decisionLogic"],
+  };
+
+  const openingLineSchema = { type: Type.OBJECT, properties: { text: { type: Type.STRING }, label: { type: Type.STRING }, citation: citationSchema }, required: ["text", "label", "citation"] };
+
+  const responseSchema = {
+    type: Type.OBJECT,
+    properties: {
+      snapshot: snapshotSchema,
+      buyingCommittee: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            name: { type: Type.STRING },
+            title: { type: Type.STRING },
+            committeeRole: { type: Type.STRING, description: "e.g. Economic Buyer, Technical Evaluator, Champion, End User, Gatekeeper" },
+            influence: { type: Type.NUMBER, description: "0-100 influence over the decision" },
+            attitude: { type: Type.STRING, description: "Champion, Supporter, Neutral, Skeptic, or Blocker" },
+            snapshot: snapshotSchema,
+            openingLines: { type: Type.ARRAY, items: openingLineSchema },
+            talkingPoints: { type: Type.ARRAY, items: { type: Type.STRING } },
+            citation: citationSchema
+          },
+          required: ["name", "title", "committeeRole", "influence", "attitude", "snapshot", "openingLines", "talkingPoints", "citation"]
+        }
+      },
+      documentInsights: {
+        type: Type.OBJECT,
+        properties: {
+          entities: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { name: { type: Type.STRING }, type: { type: Type.STRING }, context: { type: Type.STRING }, citation: citationSchema }, required: ["name", "type", "context", "citation"] } },
+          structure: { type: Type.OBJECT, properties: { sections: { type: Type.ARRAY, items: { type: Type.STRING } }, keyHeadings: { type: Type.ARRAY, items: { type: Type.STRING } }, detectedTablesSummary: { type: Type.STRING } }, required: ["sections", "keyHeadings", "detectedTablesSummary"] },
+          summaries: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { fileName: { type: Type.STRING }, summary: { type: Type.STRING }, strategicImpact: { type: Type.STRING }, criticalInsights: { type: Type.ARRAY, items: { type: Type.STRING } } }, required: ["fileName", "summary", "strategicImpact", "criticalInsights"] } },
+          materialSynthesis: { type: Type.STRING }
+        },
+        required: ["entities", "structure", "summaries", "materialSynthesis"]
+      },
+      groundMatrix: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            category: { type: Type.STRING, description: "e.g. Operational, Financial, Strategic" },
+            observation: { type: Type.STRING },
+            significance: { type: Type.STRING },
+            evidence: citationSchema
+          },
+          required: ["category", "observation", "significance", "evidence"]
+        }
+      },
+      competitiveHub: {
+        type: Type.OBJECT,
+        properties: {
+          competitors: { type: Type.ARRAY, items: competitorSchema },
+          others: { type: Type.ARRAY, items: competitorSchema }
+        },
+        required: ["competitors", "others"]
+      },
+      openingLines: { type: Type.ARRAY, items: openingLineSchema },
+      predictedQuestions: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { customerAsks: { type: Type.STRING }, salespersonShouldRespond: { type: Type.STRING }, reasoning: { type: Type.STRING }, category: { type: Type.STRING }, citation: citationSchema }, required: ["customerAsks", "salespersonShouldRespond", "reasoning", "category", "citation"] } },
+      strategicQuestionsToAsk: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { question: { type: Type.STRING }, whyItMatters: { type: Type.STRING }, citation: citationSchema }, required: ["question", "whyItMatters", "citation"] } },
+      objectionHandling: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { objection: { type: Type.STRING }, realMeaning: { type: Type.STRING }, strategy: { type: Type.STRING }, exactWording: { type: Type.STRING }, citation: citationSchema }, required: ["objection", "realMeaning", "strategy", "exactWording", "citation"] } },
+      toneGuidance: { type: Type.OBJECT, properties: { wordsToUse: { type: Type.ARRAY, items: { type: Type.STRING } }, wordsToAvoid: { type: Type.ARRAY, items: { type: Type.STRING } }, sentenceLength: { type: Type.STRING }, technicalDepth: { type: Type.STRING } }, required: ["wordsToUse", "wordsToAvoid", "sentenceLength", "technicalDepth"] },
+      finalCoaching: { type: Type.OBJECT, properties: { dos: { type: Type.ARRAY, items: { type: Type.STRING } }, donts: { type: Type.ARRAY, items: { type: Type.STRING } }, finalAdvice: { type: Type.STRING } }, required: ["dos", "donts", "finalAdvice"] },
+      reportSections: {
+        type: Type.OBJECT,
+        properties: {
+          introBackground: { type: Type.STRING },
+          technicalDiscussion: { type: Type.STRING },
+          productIntegration: { type: Type.STRING }
+        },
+        required: ["introBackground", "technicalDiscussion", "productIntegration"]
+      }
+    },
+    required: ["snapshot", "buyingCommittee", "documentInsights", "groundMatrix", "competitiveHub", "openingLines", "predictedQuestions", "strategicQuestionsToAsk", "objectionHandling", "toneGuidance", "finalCoaching", "reportSections"]
+  };
+  return responseSchema;
+}
+
+async function analyzeSalesContext(filesContent: string, context: MeetingContext, call?: ProviderCall): Promise<AnalysisResult> {
+  const modelName = MODELS.analysis;
+  const { systemInstruction, prompt } = composeAnalysisPrompt(ANALYSIS_SECTIONS, filesContent, context);
+
+  const response = await generate({
+    model: modelName,
+    contents: prompt,
+    config: {
+      systemInstruction,
+      responseMimeType: "application/json",
+      responseSchema: buildAnalysisSchema(),
+      temperature: context.temperature,
+      thinkingConfig: { thinkingBudget: THINKING_BUDGETS[context.thinkingLevel] }
+    },
+  }, call);
+  return parseJson<AnalysisResult>(response);
+}
+
+async function analyzeSections({ sections, filesContent, context, completed }: StagedSectionRequest, call?: ProviderCall): Promise<Partial<AnalysisResult>> {
+  const modelName = MODELS.analysis;
+  const fullSchema = buildAnalysisSchema();
+  const responseSchema = {
+    type: Type.OBJECT,
+    properties: Object.fromEntries(sections.map(section => [section, fullSchema.properties[section]])),
+    required: sections,
+  };
+
+  const { systemInstruction, prompt } = composeAnalysisPrompt(sections, filesContent, context, completed);
+
+  const response = await generate({
+    model: modelName,
+    contents: prompt,
+    config: {
+      systemInstruction,
+      responseMimeType: "application/json",
+      responseSchema,
+      temperature: context.temperature,
+      thinkingConfig: { thinkingBudget: THINKING_BUDGETS[context.thinkingLevel] }
+    },
+  }, call);
+  return parseJson<Partial<AnalysisResult>>(response);
+}
+
+async function regenerateSections(request: SectionUpdateRequest, call?: ProviderCall): Promise<Partial<AnalysisResult>> {
+  // Section updates are much smaller than a full brief, so the faster model suffices
+  const modelName = MODELS.update;
+  const { sections, context } = request;
+  const fullSchema = buildAnalysisSchema();
+  const responseSchema = {
+    type: Type.OBJECT,
+    properties: Object.fromEntries(sections.map(section => [section, fullSchema.properties[section]])),
+    required: sections,
+  };
+  const { systemInstruction, prompt } = composeUpdatePrompt(request);
+
+  const response = await generate({
+    model: modelName,
+    contents: prompt,
+    config: {
+      systemInstruction,
+      responseMimeType: "application/json",
+      responseSchema,
+      temperature: context.temperature,
+      thinkingConfig: { thinkingBudget: THINKING_BUDGETS[context.thinkingLevel] }
+    },
+  }, call);
+  return parseJson<Partial<AnalysisResult>>(response);
+}
+
+export const geminiProvider: LLMProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  models: MODELS,
+  analyzeSalesContext,
+  analyzeSections,
+  regenerateSections,
+  performCognitiveSearch,
+  performVisionOcr,
+  generatePitchAudio,
+  generateExplanation,
+  generateDynamicSuggestions,
+};
@@ -0,0 +1,332 @@
+import { AnalysisResult, BuyerSnapshot, Citation, CognitiveSearchResult, CompetitorInsight, CompetitorProfile, MeetingContext, SearchTurn, StakeholderInsight, StakeholderProfile } from "../../types";
+import { LLMProvider, ProviderCall } from "../llmProvider";
+import { estimateTokens } from "../usageTracker";
+
+/**
+ * Deterministic offline provider. Every payload is derived from the supplied
+ * documents and MeetingContext, so the same input always renders the same UI
+ * and citations always point at text that really exists in the sources.
+ */
+
+const MOCK_LATENCY_MS = 400;
+const TTS_SAMPLE_RATE = 24000;
+
+const simulateLatency = () => new Promise(resolve => setTimeout(resolve, MOCK_LATENCY_MS));
+
+// Not in the default price table, so offline usage shows token counts without a cost
+const MOCK_MODEL = 'mock';
+
+/** Reports estimated token counts so the usage panel can be exercised offline. */
+const withUsage = <T>(call: ProviderCall | undefined, input: string, output: T): T => {
+  const text = typeof output === 'string' ? output : output instanceof Uint8Array ? '' : JSON.stringify(output);
+  call?.onUsage?.({ model: MOCK_MODEL, inputTokens: estimateTokens(input), outputTokens: estimateTokens(text), thinkingTokens: 0 });
+  return output;
+};
+
+interface SourceText {
+  name: string;
+  chunkId?: string;
+  sentences: string[];
+}
+
+const hash = (value: string) => {
+  let h = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+};
+
+const CHUNK_HEADER = /^\[CHUNK ([^\]]+)\] FILE: (.+?)(?: \(page \d+\))?$/;
+const FILE_HEADER = /^FILE: (.+)$/;
+
+const toSentences = (text: string) => text
+  .replace(/--- PAGE \d+ ---/g, ' ')
+  .split(/(?<=[.!?])\s+|\n+/)
+  .map(s => s.replace(/\s+/g, ' ').trim())
+  .filter(s => s.length >= 25)
+  .map(s => s.length > 220 ? s.slice(0, 220) : s);
+
+/** Splits on retrieval chunk headers or plain "FILE:" headers, whichever the caller used. */
+const parseSources = (filesContent: string): SourceText[] => {
+  const sources: { name: string; chunkId?: string; lines: string[] }[] = [];
+  for (const line of filesContent.split('\n')) {
+    const chunk = line.match(CHUNK_HEADER);
+    const file = chunk ? null : line.match(FILE_HEADER);
+    if (chunk) sources.push({ name: chunk[2], chunkId: chunk[1], lines: [] });
+    else if (file) sources.push({ name: file[1].trim(), lines: [] });
+    else {
+      if (sources.length === 0) sources.push({ name: 'Uploaded Material', lines: [] });
+      sources[sources.length - 1].lines.push(line);
+    }
+  }
+  return sources
+    .map(({ name, chunkId, lines }) => ({ name, chunkId, sentences: toSentences(lines.join('\n')) }))
+    .filter(s => s.sentences.length > 0);
+};
+
+const TABLE_CAPTION = /^\[(Table \d+)\]$/;
+
+/** Lists extracted tables by caption with their header row as a stand-in for what they measure. */
+const summarizeTables = (filesContent: string): string => {
+  const found: string[] = [];
+  let fileName = 'Uploaded Material';
+  const lines = filesContent.split('\n');
+  lines.forEach((line, i) => {
+    const header = line.match(CHUNK_HEADER)?.[2] ?? line.match(FILE_HEADER)?.[1];
+    if (header) fileName = header.trim();
+    const caption = line.trim().match(TABLE_CAPTION);
+    if (!caption) return;
+    const columns = (lines[i + 1] || '').split('|').map(c => c.trim()).filter(Boolean);
+    const entry = `${fileName} ${caption[1]}${columns.length > 0 ? ` (${columns.join(', ')})` : ''}`;
+    if (!found.includes(entry)) found.push(entry);
+  });
+  return found.length > 0 ? `${found.length} table(s): ${found.join('; ')}.` : 'No tables detected by the offline provider.';
+};
+
+const createCitationPicker = (sources: SourceText[]) => {
+  const pool = sources.flatMap(s => s.sentences.map(snippet => ({ snippet, sourceFile: s.name })));
+  let cursor = 0;
+  return (): Citation => {
+    if (pool.length === 0) return { snippet: 'No source text available.', sourceFile: 'N/A' };
+    return pool[cursor++ % pool.length];
+  };
+};
+
+const score = (seed: string, salt: string) => 20 + (hash(seed + salt) % 71);
+
+const COMMITTEE_ROLES = ['Economic Buyer', 'Technical Evaluator', 'Champion', 'End User'];
+const ATTITUDES: StakeholderInsight['attitude'][] = ['Supporter', 'Neutral', 'Skeptic', 'Champion', 'Blocker'];
+
+/** Configured stakeholders win; otherwise names are split out of the free-text clientNames field. */
+const committeeProfiles = (context: MeetingContext): StakeholderProfile[] => {
+  const configured = context.stakeholders.filter(s => s.name.trim());
+  if (configured.length > 0) return configured;
+  return context.clientNames
+    .split(/,|;|&|\band\b/)
+    .map(name => name.trim())
+    .filter(Boolean)
+    .map(name => ({ name, title: '', notes: '' }));
+};
+
+function buildAnalysis(filesContent: string, context: MeetingContext): AnalysisResult {
+  const sources = parseSources(filesContent);
+  const cite = createCitationPicker(sources);
+  const client = context.clientCompany || 'the prospect';
+  const product = context.targetProducts || 'our platform';
+  const focus = context.meetingFocus || 'the evaluation';
+  const seed = filesContent + context.clientCompany;
+
+  const buyerSnapshot = (role: string, salt: string): BuyerSnapshot => ({
+    role,
+    roleCitation: cite(),
+    roleConfidence: 70 + (hash(seed + salt) % 25),
+    priorities: [0, 1, 2].map(() => {
+      const citation = cite();
+      return { text: citation.snippet, citation };
+    }),
+    likelyObjections: [
+      { text: 'Implementation risk and timeline', citation: cite() },
+      { text: 'Total cost of ownership', citation: cite() },
+    ],
+    decisionStyle: context.persona === 'Technical' ? 'Analytical and evidence-led' : 'Consensus-driven and value-focused',
+    decisionStyleCitation: cite(),
+    riskTolerance: 'Moderate',
+    riskToleranceCitation: cite(),
+    tone: 'Professional, direct',
+    metrics: {
+      riskToleranceValue: score(seed + salt, 'risk'),
+      strategicPriorityFocus: score(seed + salt, 'focus'),
+      analyticalDepth: score(seed + salt, 'depth'),
+      directness: score(seed + salt, 'direct'),
+      innovationAppetite: score(seed + salt, 'innovation'),
+    },
+    personaIdentity: `A ${context.persona.toLowerCase()} stakeholder at ${client} accountable for ${focus}.`,
+    decisionLogic: `Will commit once ${product} demonstrates measurable impact against stated priorities.`,
+  });
+
+  const stakeholder = (profile: StakeholderProfile, index: number): StakeholderInsight => {
+    const committeeRole = COMMITTEE_ROLES[index % COMMITTEE_ROLES.length];
+    return {
+      name: profile.name,
+      title: profile.title || committeeRole,
+      committeeRole,
+      influence: score(seed + profile.name, 'influence'),
+      attitude: ATTITUDES[hash(seed + profile.name) % ATTITUDES.length],
+      snapshot: buyerSnapshot(profile.title ? `${profile.name}, ${profile.title}` : profile.name, profile.name),
+      openingLines: [{ text: `${profile.name}, I know ${focus} lands on your desk. What would make this worth your time today?`, label: 'Stakeholder Hook', citation: cite() }],
+      talkingPoints: [
+        profile.notes || `Frame ${product} in terms a ${committeeRole.toLowerCase()} is measured on.`,
+        `Connect the proposal to ${client}'s stated priorities.`,
+      ],
+      citation: cite(),
+    };
+  };
+
+  const competitor = (profile: CompetitorProfile, index: number): CompetitorInsight => ({
+    name: profile.name,
+    overview: profile.websiteNotes || `${profile.name} is positioned as an established alternative in ${context.productDomain || 'this category'}.`,
+    threatProfile: index === 0 ? 'Direct' : 'Indirect',
+    strengths: ['Brand recognition', 'Existing integrations', 'Analyst coverage'],
+    weaknesses: profile.knownWeaknesses.length > 0 ? profile.knownWeaknesses : ['Lengthy implementation', 'Rigid licensing', 'Limited customisation'],
+    ourWedge: `Lead with time-to-value for ${client} and a phased rollout of ${product}.`,
+    citation: cite(),
+  });
+
+  return {
+    snapshot: buyerSnapshot(context.clientNames ? `${context.clientNames} (${context.persona} buyer)` : `${context.persona} Decision Maker`, ''),
+    buyingCommittee: committeeProfiles(context).map(stakeholder),
+    documentInsights: {
+      entities: sources.slice(0, 5).map(s => ({
+        name: s.name,
+        type: 'Document',
+        context: `Source material supplied for ${client}.`,
+        citation: { snippet: s.sentences[0], sourceFile: s.name },
+      })),
+      structure: {
+        sections: sources.map(s => s.name),
+        keyHeadings: sources.flatMap(s => s.sentences.slice(0, 1)).slice(0, 5),
+        detectedTablesSummary: summarizeTables(filesContent),
+      },
+      summaries: sources.map(s => ({
+        fileName: s.name,
+        summary: s.sentences.slice(0, 2).join(' '),
+        strategicImpact: `Frames the ${focus} conversation with ${client}.`,
+        criticalInsights: s.sentences.slice(0, 3),
+      })),
+      materialSynthesis: `${sources.length} document(s) analysed offline for ${client}.`,
+    },
+    groundMatrix: ['Strategic', 'Financial', 'Operational', 'Strategic', 'Operational'].map(category => {
+      const evidence = cite();
+      return { category, observation: evidence.snippet, significance: `Anchors the ${category.toLowerCase()} narrative for ${focus}.`, evidence };
+    }),
+    competitiveHub: {
+      competitors: context.competitors.map(competitor),
+      others: [],
+    },
+    openingLines: [
+      { text: `Thanks for making time. I'd like to focus on ${focus} and what success looks like for ${client}.`, label: 'Agenda Setter', citation: cite() },
+      { text: `Before we dive in, what has changed at ${client} since we last spoke?`, label: 'Discovery Hook', citation: cite() },
+    ],
+    predictedQuestions: [
+      { customerAsks: 'How long does implementation take?', salespersonShouldRespond: `Typical rollouts of ${product} are phased so value lands early.`, reasoning: 'Addresses timeline risk.', category: 'Integration', citation: cite() },
+      { customerAsks: 'What return should we expect?', salespersonShouldRespond: 'We model ROI against your own baseline metrics.', reasoning: 'Financial validation.', category: 'ROI', citation: cite() },
+    ],
+    strategicQuestionsToAsk: [
+      { question: `What would make ${focus} a success in the next quarter?`, whyItMatters: 'Defines measurable outcomes.', citation: cite() },
+      { question: 'Who else needs to be comfortable before a decision?', whyItMatters: 'Maps the buying committee.', citation: cite() },
+    ],
+    objectionHandling: [
+      { objection: 'This looks expensive.', realMeaning: 'Value has not been quantified yet.', strategy: 'Reframe around cost of inaction.', exactWording: 'Let us compare that against what the current process costs you each quarter.', citation: cite() },
+      { objection: 'We are worried about disruption.', realMeaning: 'Fear of a failed rollout.', strategy: 'De-risk with a phased pilot.', exactWording: 'We can start with a contained pilot and expand only once you see results.', citation: cite() },
+    ],
+    toneGuidance: {
+      wordsToUse: ['measurable', 'phased', 'proven'],
+      wordsToAvoid: ['revolutionary', 'guaranteed', 'cheap'],
+      sentenceLength: 'Short to medium',
+      technicalDepth: context.persona === 'Technical' ? 'High' : 'Moderate',
+    },
+    finalCoaching: {
+      dos: ['Quantify impact', 'Confirm next steps'],
+      donts: ['Over-promise timelines', 'Dismiss incumbent tools'],
+      finalAdvice: `Keep every point tied to ${client}'s own words.`,
+    },
+    reportSections: {
+      introBackground: `${context.sellerCompany || 'Our team'} is meeting ${client} to discuss ${focus}.`,
+      technicalDiscussion: `Technical discussion grounded in ${sources.length} uploaded document(s).`,
+      productIntegration: `${product} integrates with existing systems through a phased rollout.`,
+    },
+  };
+}
+
+function buildSearchResult(question: string, filesContent: string, context: MeetingContext, history: SearchTurn[]): CognitiveSearchResult {
+  const previous = history[history.length - 1];
+  const client = context.clientCompany || 'the prospect';
+  // A follow-up keeps the previous question's terms so "what about them?" still finds passages
+  const terms = `${previous?.question ?? ''} ${question}`.toLowerCase().split(/\W+/).filter(t => t.length > 3);
+  const ranked = parseSources(filesContent)
+    .flatMap(s => s.sentences.map(snippet => ({ snippet, source: s.name, chunkId: s.chunkId })))
+    .map(c => ({ ...c, hits: terms.filter(t => c.snippet.toLowerCase().includes(t)).length }))
+    .sort((a, b) => b.hits - a.hits)
+    .slice(0, 3);
+  const lead = ranked[0]?.snippet || 'The uploaded documents do not address this directly.';
+  const answer = context.answerStyles.length > 0
+    ? context.answerStyles.map(style => `### ${style}\n- ${lead}`).join('\n\n')
+    : lead;
+
+  return {
+    answer,
+    briefExplanation: previous
+      ? `Offline follow-up to "${previous.question}": "${question}" answered from the highest-overlap source passages.`
+      : `Offline answer to "${question}" assembled from the highest-overlap source passages.`,
+    articularSoundbite: lead,
+    psychologicalProjection: {
+      buyerFear: 'Committing to a change that fails to deliver.',
+      buyerIncentive: 'Visible, defensible progress on stated priorities.',
+      strategicLever: 'Evidence drawn from their own documentation.',
+    },
+    citations: ranked.map(({ snippet, source, chunkId }) => ({ snippet, source, chunkId })),
+    reasoningChain: {
+      painPoint: lead,
+      capability: context.targetProducts || 'Core platform capability',
+      strategicValue: `Advances ${context.meetingFocus || 'the deal'} for ${client}.`,
+    },
+    followUps: [
+      `Who at ${client} is most affected by this?`,
+      `What would ${client} need to see to act on this?`,
+      `How does ${context.targetProducts || 'our solution'} address this?`,
+    ],
+  };
+}
+
+export const mockProvider: LLMProvider = {
+  id: 'mock',
+  label: 'Offline Fixtures',
+  models: { analysis: MOCK_MODEL, update: MOCK_MODEL },
+  async analyzeSalesContext(filesContent, context, call) {
+    await simulateLatency();
+    return withUsage(call, filesContent, buildAnalysis(filesContent, context));
+  },
+  async analyzeSections({ sections, filesContent, context }, call) {
+    await simulateLatency();
+    const fresh = buildAnalysis(filesContent, context);
+    return withUsage(call, filesContent, Object.fromEntries(sections.map(section => [section, fresh[section]])));
+  },
+  async regenerateSections({ mode, sections, filesContent, context, previous }, call) {
+    await simulateLatency();
+    const fresh = buildAnalysis(filesContent, context);
+    // Merges append list sections to the previous brief so existing points survive
+    return withUsage(call, filesContent, Object.fromEntries(sections.map(section => {
+      const before = previous[section];
+      const after = fresh[section];
+      return [section, mode === 'merge' && Array.isArray(before) && Array.isArray(after) ? [...before, ...after] : after];
+    })));
+  },
+  async performCognitiveSearch({ question, filesContent, context, history }, call) {
+    await simulateLatency();
+    return withUsage(call, question + filesContent, buildSearchResult(question, filesContent, context, history));
+  },
+  async performVisionOcr(base64Data, _mimeType, call) {
+    await simulateLatency();
+    return withUsage(call, '', `[Offline OCR] Image received (${Math.round(base64Data.length * 0.75 / 1024)} KB). No text extracted.`);
+  },
+  async generatePitchAudio(text, _voiceName, call) {
+    await simulateLatency();
+    // Silent PCM sized to the script so playback state behaves like real TTS.
+    const seconds = Math.min(15, Math.max(1, text.split(/\s+/).length * 0.3));
+    return withUsage(call, text, new Uint8Array(new Int16Array(Math.round(seconds * TTS_SAMPLE_RATE)).buffer));
+  },
+  async generateExplanation(question, context, call) {
+    await simulateLatency();
+    return withUsage(call, question, `Regarding "${question}": the ${context.snapshot.role} prioritises ${context.snapshot.priorities.map(p => p.text).slice(0, 2).join(' and ')}.`);
+  },
+  async generateDynamicSuggestions(filesContent, context, call) {
+    const client = context.clientCompany || 'the prospect';
+    return withUsage(call, filesContent, [
+      `What are ${client}'s top priorities this quarter?`,
+      `Which risks could stall a decision at ${client}?`,
+      `How does ${context.targetProducts || 'our solution'} map to their stated goals?`,
+    ]);
+  },
+};
@@ -0,0 +1,72 @@
+import { GoogleGenAI } from "@google/genai";
+import { AnalysisResult, CognitiveSearchResult, MeetingContext, SearchRequest, SectionUpdateRequest, StagedSectionRequest, TokenUsage } from "../../types";
+import { LLMProvider, ProviderCall } from "../llmProvider";
+import { geminiProvider } from "./geminiProvider";
+import { decode } from "../audio";
+import { ModelError, ModelErrorKind } from "../modelRequest";
+
+/**
+ * Browser-side provider that forwards every call to the local proxy server
+ * (server/index.ts), which holds the Gemini API key and runs geminiProvider.
+ * Errors come back with their ModelError kind so retries behave the same as
+ * a direct call.
+ */
+
+const API_BASE = '/api';
+const LIVE_PATH = `${API_BASE}/live`;
+
+interface ProxyResponse<T> {
+  result: T;
+  usage: TokenUsage[];
+}
+
+const post = async <T>(route: string, body: unknown, call?: ProviderCall): Promise<T> => {
+  const response = await fetch(`${API_BASE}/${route}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal: call?.signal,
+  });
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    if (payload?.kind) throw new ModelError(payload.kind as ModelErrorKind, payload.detail, payload.retryAfterMs);
+    throw new ModelError(response.status === 404 || response.status >= 500 ? 'unavailable' : 'unknown', `proxy returned ${response.status}`);
+  }
+  const { result, usage } = payload as ProxyResponse<T>;
+  usage.forEach(u => call?.onUsage?.(u));
+  return result;
+};
+
+/**
+ * Live sessions keep the SDK's own protocol; only the socket is pointed at the
+ * proxy's relay, which swaps the placeholder key for the real one upstream.
+ */
+export const createLiveClient = () => new GoogleGenAI({
+  apiKey: 'proxy',
+  httpOptions: { baseUrl: `${window.location.origin}${LIVE_PATH}` },
+});
+
+export const proxyProvider: LLMProvider = {
+  id: 'proxy',
+  label: 'Google Gemini (via proxy)',
+  models: geminiProvider.models,
+  analyzeSalesContext: (filesContent: string, context: MeetingContext, call?: ProviderCall) =>
+    post<AnalysisResult>('analyze', { filesContent, context }, call),
+  analyzeSections: (request: StagedSectionRequest, call?: ProviderCall) =>
+    post<Partial<AnalysisResult>>('analyze-sections', request, call),
+  regenerateSections: (request: SectionUpdateRequest, call?: ProviderCall) =>
+    post<Partial<AnalysisResult>>('regenerate', request, call),
+  performCognitiveSearch: (request: SearchRequest, call?: ProviderCall) =>
+    post<CognitiveSearchResult>('search', request, call),
+  performVisionOcr: (base64Data: string, mimeType: string, call?: ProviderCall) =>
+    post<string>('ocr', { base64Data, mimeType }, call),
+  // Audio travels as base64 because the response is JSON
+  generatePitchAudio: async (text: string, voiceName: string, call?: ProviderCall) => {
+    const audio = await post<string | null>('tts', { text, voiceName }, call);
+    return audio ? decode(audio) : null;
+  },
+  generateExplanation: (question: string, context: AnalysisResult, call?: ProviderCall) =>
+    post<string>('explain', { question, context }, call),
+  generateDynamicSuggestions: (filesContent: string, context: MeetingContext, call?: ProviderCall) =>
+    post<string[]>('suggestions', { filesContent, context }, call),
+};
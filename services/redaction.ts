@@ -0,0 +1,165 @@
+import { MeetingContext, RedactionEntry, RedactionKind, RedactionSettings } from "../types";
+
+/**
+ * Local masking of sensitive values before anything is sent to the model.
+ * Each distinct value gets a placeholder derived from its hash, such as
+ * [EMAIL_3FA91C], so the model can still reason about "the same person"
+ * across files and calls, and the audit preview shows exactly what a call
+ * sends. Placeholders in the response are swapped back before display.
+ */
+
+const PLACEHOLDER_PREFIX: Record<RedactionKind, string> = {
+  email: 'EMAIL',
+  phone: 'PHONE',
+  money: 'AMOUNT',
+  name: 'NAME',
+  custom: 'REDACTED',
+};
+
+// Brackets are optional on the way back because models sometimes drop them
+const PLACEHOLDER = /\[?\b(EMAIL|PHONE|AMOUNT|NAME|REDACTED)_([0-9A-F]{6})\b\]?/g;
+const PROTECTED = /(\[(?:EMAIL|PHONE|AMOUNT|NAME|REDACTED)_[0-9A-F]{6}\])/;
+
+// Neutral words for placeholders in text that is spoken and so can never be restored
+const SPOKEN_PLACEHOLDER: Record<string, string> = {
+  EMAIL: 'an email address',
+  PHONE: 'a phone number',
+  AMOUNT: 'an amount',
+  NAME: 'a contact',
+  REDACTED: 'a withheld detail',
+};
+
+const EMAIL = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+const PHONE = /(?<![\w$€£¥])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]?\d{2,4}){1,3}(?![\w%])/g;
+const MONEY = /(?:[$€£¥]\s?\d[\d,]*(?:\.\d+)?|\b(?:USD|EUR|GBP)\s?\d[\d,]*(?:\.\d+)?|\b\d[\d,]*(?:\.\d+)?\s?(?:USD|EUR|GBP|dollars|euros|pounds)\b)(?:\s?(?:k|m|bn|million|billion|thousand)\b)?/gi;
+const HONORIFIC_NAME = /\b(?:Mr|Mrs|Ms|Miss|Dr|Prof)\.?\s+[A-Z][a-z'-]+(?:\s+[A-Z][a-z'-]+)?/g;
+
+const hashValue = (value: string, salt: number) => {
+  let h = 2166136261 ^ salt;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return ((h >>> 0) & 0xffffff).toString(16).toUpperCase().padStart(6, '0');
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Phone candidates need 7-15 digits and must not look like a year range or a plain number. */
+const isPhone = (match: string) => {
+  const digits = match.replace(/\D/g, '').length;
+  if (digits < 7 || digits > 15) return false;
+  if (/^\d{4}\s*[-–]\s*\d{4}$/.test(match)) return false;
+  return /[\s.()+-]/.test(match) || digits >= 10;
+};
+
+/** People named in the meeting context are masked wherever they appear in the documents. */
+const knownNames = (context: MeetingContext): string[] => {
+  const split = (value: string) => value.split(/,|;|&|\band\b/).map(n => n.trim()).filter(n => n.length > 2);
+  return [...new Set([
+    ...split(context.clientNames),
+    ...split(context.sellerNames),
+    ...context.stakeholders.map(s => s.name.trim()).filter(n => n.length > 2),
+  ])].sort((a, b) => b.length - a.length);
+};
+
+/** Compiles custom patterns, returning the ones that failed so the UI can flag them. */
+export const compileCustomPatterns = (patterns: string[]): { compiled: RegExp[]; invalid: string[] } => {
+  const compiled: RegExp[] = [];
+  const invalid: string[] = [];
+  patterns.filter(p => p.trim()).forEach(p => {
+    try {
+      const re = new RegExp(p, 'g');
+      // A pattern that matches the empty string would loop forever
+      if (re.test('')) invalid.push(p);
+      else compiled.push(re);
+    } catch {
+      invalid.push(p);
+    }
+  });
+  return { compiled, invalid };
+};
+
+export interface Redactor {
+  redact(text: string, source?: string): string;
+  redactDeep<T>(value: T, source?: string): T;
+  restore(text: string): string;
+  restoreDeep<T>(value: T): T;
+  entries(): RedactionEntry[];
+}
+
+export function createRedactor(settings: RedactionSettings, context: MeetingContext): Redactor {
+  const byValue = new Map<string, RedactionEntry>();
+  const byPlaceholder = new Map<string, RedactionEntry>();
+
+  const detectors: { kind: RedactionKind; pattern: RegExp; accept?: (match: string) => boolean }[] = [
+    ...compileCustomPatterns(settings.customPatterns).compiled.map(pattern => ({ kind: 'custom' as const, pattern })),
+  ];
+  if (settings.kinds.includes('email')) detectors.push({ kind: 'email', pattern: EMAIL });
+  if (settings.kinds.includes('money')) detectors.push({ kind: 'money', pattern: MONEY });
+  if (settings.kinds.includes('phone')) detectors.push({ kind: 'phone', pattern: PHONE, accept: isPhone });
+  if (settings.kinds.includes('name')) {
+    const names = knownNames(context);
+    if (names.length > 0) detectors.push({ kind: 'name', pattern: new RegExp(`\\b(?:${names.map(escapeRegExp).join('|')})\\b`, 'g') });
+    detectors.push({ kind: 'name', pattern: HONORIFIC_NAME });
+  }
+
+  const placeholderFor = (kind: RedactionKind, value: string, source: string) => {
+    const key = `${kind}:${value.toLowerCase()}`;
+    let entry = byValue.get(key);
+    if (!entry) {
+      // Re-salt on the rare hash collision so two values never share a placeholder
+      let salt = 0;
+      while (byPlaceholder.has(`${PLACEHOLDER_PREFIX[kind]}_${hashValue(key, salt)}`)) salt++;
+      entry = { placeholder: `[${PLACEHOLDER_PREFIX[kind]}_${hashValue(key, salt)}]`, kind, value, sources: {} };
+      byValue.set(key, entry);
+      byPlaceholder.set(entry.placeholder.slice(1, -1), entry);
+    }
+    entry.sources[source] = (entry.sources[source] || 0) + 1;
+    return entry.placeholder;
+  };
+
+  const redact = (text: string, source = 'Meeting Context'): string => {
+    if (!settings.enabled || !text) return text;
+    return detectors.reduce((current, { kind, pattern, accept }) =>
+      // Split on existing placeholders so later detectors never rewrite them
+      current.split(PROTECTED).map((segment, i) => i % 2 === 1 ? segment : segment.replace(pattern, match =>
+        accept && !accept(match) ? match : placeholderFor(kind, match, source)
+      )).join(''),
+    text);
+  };
+
+  const restore = (text: string): string =>
+    text.replace(PLACEHOLDER, (match, prefix, id) => byPlaceholder.get(`${prefix}_${id}`)?.value ?? match);
+
+  const mapStrings = (value: any, fn: (text: string) => string): any => {
+    if (typeof value === 'string') return fn(value);
+    if (Array.isArray(value)) return value.map(v => mapStrings(v, fn));
+    if (value && typeof value === 'object') return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, mapStrings(v, fn)]));
+    return value;
+  };
+
+  return {
+    redact,
+    redactDeep: (value, source) => mapStrings(value, text => redact(text, source)),
+    restore,
+    restoreDeep: value => byPlaceholder.size === 0 ? value : mapStrings(value, restore),
+    entries: () => [...byValue.values()],
+  };
+}
+
+export const speakablePlaceholders = (text: string): string =>
+  text.replace(PLACEHOLDER, (_match, prefix) => SPOKEN_PLACEHOLDER[prefix]);
+
+// Fields that can carry deal details; enums, the system prompt and generation, pricing and redaction settings pass through untouched
+const CONTEXT_TEXT_FIELDS: (keyof MeetingContext)[] = [
+  'sellerCompany', 'sellerNames', 'clientCompany', 'clientNames', 'targetProducts', 'productDomain',
+  'meetingFocus', 'executiveSnapshot', 'strategicKeywords', 'competitors', 'stakeholders',
+];
+
+/** Masks the free-text fields of the meeting context so custom patterns never rewrite a setting. */
+export const redactContext = (redactor: Redactor, context: MeetingContext): MeetingContext => {
+  const masked = { ...context };
+  CONTEXT_TEXT_FIELDS.forEach(field => Object.assign(masked, { [field]: redactor.redactDeep(context[field]) }));
+  return masked;
+};
@@ -0,0 +1,143 @@
+import { AnalysisResult, Citation, CompetitorInsight, MeetingContext } from "../types";
+
+/**
+ * The downloadable strategy report. Kept outside React so the brief view and
+ * the headless CLI produce the same PDF; callers pass in the jsPDF
+ * constructor, which comes from a CDN global in the browser and from the npm
+ * package in Node.
+ */
+
+export interface EvidenceEntry {
+  source: string;
+  snippet: string;
+  category: string;
+  citation: Citation;
+}
+
+/** Every cited snippet in the brief, in the order the report lists them. */
+export function buildEvidenceIndex(result: AnalysisResult): EvidenceEntry[] {
+  const list: EvidenceEntry[] = [];
+  const add = (citation: Citation | undefined, category: string) => {
+    if (citation) list.push({ source: citation.sourceFile, snippet: citation.snippet, category, citation });
+  };
+
+  // Snapshot Citations
+  add(result.snapshot.roleCitation, 'Persona');
+  result.snapshot.priorities.forEach(p => add(p.citation, 'Priority'));
+
+  // Buying Committee Citations
+  result.buyingCommittee.forEach(s => add(s.citation, 'Stakeholder'));
+  
+  // Ground Matrix Citations
+  result.groundMatrix?.forEach(m => add(m.evidence, 'Ground Fact'));
+  
+  // Objection Handling Citations
+  result.objectionHandling.forEach(o => add(o.citation, 'Objection Defense'));
+  
+  // Document Entities
+  result.documentInsights.entities.forEach(e => add(e.citation, 'Entity Discovery'));
+
+  return list;
+}
+
+export const reportFileName = (context: MeetingContext) => `Strategy-${context.clientCompany}.pdf`;
+
+export function buildReportPdf(jsPDF: any, result: AnalysisResult, context: MeetingContext): any {
+  const doc = new jsPDF();
+  let y = 20;
+  const margin = 20;
+  const pageWidth = doc.internal.pageSize.getWidth();
+
+  const addHeader = (text: string, color = [79, 70, 229]) => {
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(16);
+    doc.setTextColor(color[0], color[1], color[2]);
+    doc.text(text, margin, y);
+    y += 10;
+    doc.setDrawColor(color[0], color[1], color[2]);
+    doc.line(margin, y - 5, pageWidth - margin, y - 5);
+    y += 5;
+  };
+
+  const addBody = (text: string, size = 10) => {
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(size);
+    doc.setTextColor(60, 60, 60);
+    const split = doc.splitTextToSize(text, pageWidth - margin * 2);
+    doc.text(split, margin, y);
+    y += split.length * (size / 2) + 5;
+    if (y > 270) { doc.addPage(); y = 20; }
+  };
+
+  // Header
+  doc.setFillColor(79, 70, 229);
+  doc.rect(0, 0, pageWidth, 40, 'F');
+  doc.setFontSize(24);
+  doc.setTextColor(255);
+  doc.text("COGNITIVE SALES STRATEGY", margin, 25);
+  doc.setFontSize(10);
+  doc.text(`SYNTHESIZED FOR: ${context.clientCompany.toUpperCase()}`, margin, 35);
+  y = 55;
+
+  // Meeting Summary
+  addHeader("MEETING SUMMARY");
+  addBody(`Client: ${context.clientCompany} (${context.clientNames})`);
+  addBody(`Seller: ${context.sellerCompany} (${context.sellerNames})`);
+  addBody(`Focus: ${context.meetingFocus}`);
+  y += 10;
+
+  // Ground Matrix
+  addHeader("COGNITIVE GROUND MATRIX");
+  result.groundMatrix.forEach(m => {
+    doc.setFont("helvetica", "bold");
+    doc.text(`[${m.category}] ${m.observation}`, margin, y);
+    y += 5;
+    addBody(`Significance: ${m.significance}`, 9);
+  });
+
+  // Psychology Section
+  doc.addPage(); y = 20;
+  addHeader("BUYER PSYCHOLOGY & METRICS");
+  addBody(`Identity: ${result.snapshot.personaIdentity}`);
+  addBody(`Decision Logic: ${result.snapshot.decisionLogic}`);
+  y += 80; // Placeholder for chart
+
+  // Buying Committee
+  if (result.buyingCommittee.length > 0) {
+    addHeader("BUYING COMMITTEE");
+    result.buyingCommittee.forEach(s => {
+      doc.setFont("helvetica", "bold");
+      doc.setFontSize(12);
+      doc.setTextColor(0);
+      doc.text(`${s.name}${s.title ? `, ${s.title}` : ''} - ${s.committeeRole} (${s.attitude}, influence ${s.influence})`, margin, y);
+      y += 6;
+      addBody(`Talking points: ${s.talkingPoints.join('; ')}`);
+    });
+  }
+
+  // Competitive Hub
+  addHeader("COMPETITIVE INTELLIGENCE HUB");
+  const addComp = (c: CompetitorInsight, name: string) => {
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(12);
+    doc.setTextColor(0);
+    doc.text(`${name} - ${c.threatProfile} Threat`, margin, y);
+    y += 6;
+    addBody(`Wedge: ${c.ourWedge}`);
+  };
+  [...result.competitiveHub.competitors, ...result.competitiveHub.others].forEach(c => addComp(c, c.name.toUpperCase()));
+
+  // Evidence Index
+  doc.addPage(); y = 20;
+  addHeader("ANALYSIS EVIDENCE INDEX");
+  buildEvidenceIndex(result).slice(0, 15).forEach(ev => {
+    doc.setFont("helvetica", "italic");
+    doc.setFontSize(8);
+    const status = ev.citation.match ? ` [${ev.citation.match.status}${ev.citation.match.page !== null ? `, p.${ev.citation.match.page}` : ''}]` : '';
+    doc.text(`Source: ${ev.source} (${ev.category})${status}`, margin, y);
+    y += 4;
+    addBody(`"${ev.snippet}"`, 7);
+  });
+
+  return doc;
+}
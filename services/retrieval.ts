@@ -0,0 +1,153 @@
+import { DocumentChunk, UploadedFile } from "../types";
+
+/**
+ * Local retrieval layer. Documents are split on OCR page markers and
+ * headings, then ranked with BM25 so search prompts only carry the
+ * passages relevant to the question, each addressable by chunk id.
+ */
+
+const PAGE_MARKER = /^--- PAGE (\d+) ---$/;
+const MAX_CHUNK_CHARS = 1500;
+const MIN_CHUNK_CHARS = 300;
+const BM25_K1 = 1.5;
+const BM25_B = 0.75;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her', 'was', 'one', 'our', 'out',
+  'has', 'his', 'how', 'its', 'may', 'who', 'did', 'yes', 'use', 'with', 'that', 'this', 'from', 'they', 'will',
+  'what', 'when', 'your', 'have', 'been', 'their', 'which', 'there', 'about', 'would', 'these', 'into', 'them',
+  'than', 'then', 'also', 'does', 'were', 'should', 'could',
+]);
+
+export const tokenize = (text: string): string[] =>
+  text.toLowerCase().split(/[^a-z0-9]+/).filter(t => t.length > 1 && !STOPWORDS.has(t));
+
+const isHeading = (line: string): boolean => {
+  if (line.length === 0 || line.length > 100) return false;
+  if (/^#{1,6}\s+\S/.test(line)) return true;
+  if (/^\d+(\.\d+)*\.?\s+[A-Z]/.test(line) && !/[.;,]$/.test(line)) return true;
+  // ALL-CAPS title lines as produced by most PDF/OCR extractions
+  return /^[A-Z0-9][A-Z0-9 &/,:()'-]{3,}$/.test(line) && /[A-Z]{3}/.test(line);
+};
+
+export function chunkDocument(file: UploadedFile): DocumentChunk[] {
+  const chunks: DocumentChunk[] = [];
+  const content = file.content;
+  let page: number | null = null;
+  let heading: string | null = null;
+  let bufferStart = -1;
+  let bufferEnd = 0;
+
+  const flush = () => {
+    if (bufferStart === -1) return;
+    const text = content.slice(bufferStart, bufferEnd).trim();
+    if (text) {
+      chunks.push({
+        id: `${file.name}::${page !== null ? `p${page}::` : ''}c${chunks.length + 1}`,
+        fileName: file.name,
+        page,
+        heading,
+        text,
+        start: bufferStart,
+        end: bufferEnd,
+      });
+    }
+    bufferStart = -1;
+  };
+
+  let offset = 0;
+  for (const rawLine of content.split('\n')) {
+    const lineStart = offset;
+    const lineEnd = offset + rawLine.length;
+    offset = lineEnd + 1;
+    const line = rawLine.trim();
+
+    const pageMatch = line.match(PAGE_MARKER);
+    if (pageMatch) {
+      flush();
+      page = parseInt(pageMatch[1], 10);
+      continue;
+    }
+
+    if (isHeading(line) && bufferStart !== -1 && bufferEnd - bufferStart >= MIN_CHUNK_CHARS) flush();
+    if (isHeading(line)) heading = line.replace(/^#+\s*/, '');
+
+    if (bufferStart !== -1 && lineEnd - bufferStart > MAX_CHUNK_CHARS) flush();
+    if (bufferStart === -1) {
+      if (!line) continue;
+      bufferStart = lineStart;
+    }
+    bufferEnd = lineEnd;
+
+    // A single oversized line (common with joined PDF text) is windowed
+    while (bufferEnd - bufferStart > MAX_CHUNK_CHARS) {
+      const windowEnd = bufferStart + MAX_CHUNK_CHARS;
+      const breakAt = content.lastIndexOf(' ', windowEnd);
+      const end = breakAt > bufferStart + MIN_CHUNK_CHARS ? breakAt : windowEnd;
+      const remainderEnd = bufferEnd;
+      bufferEnd = end;
+      flush();
+      bufferStart = end;
+      bufferEnd = remainderEnd;
+    }
+  }
+  flush();
+  return chunks;
+}
+
+export interface RetrievalIndex {
+  chunks: DocumentChunk[];
+  termFrequencies: Map<string, number>[];
+  documentFrequency: Map<string, number>;
+  lengths: number[];
+  averageLength: number;
+}
+
+export function buildRetrievalIndex(files: UploadedFile[]): RetrievalIndex {
+  const chunks = files.flatMap(chunkDocument);
+  const documentFrequency = new Map<string, number>();
+  const lengths: number[] = [];
+  const termFrequencies = chunks.map(chunk => {
+    const tokens = tokenize(`${chunk.heading || ''} ${chunk.text}`);
+    lengths.push(tokens.length);
+    const tf = new Map<string, number>();
+    tokens.forEach(t => tf.set(t, (tf.get(t) || 0) + 1));
+    tf.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1));
+    return tf;
+  });
+  const averageLength = lengths.reduce((a, b) => a + b, 0) / (lengths.length || 1);
+  return { chunks, termFrequencies, documentFrequency, lengths, averageLength };
+}
+
+export interface ScoredChunk {
+  chunk: DocumentChunk;
+  score: number;
+}
+
+export function searchIndex(index: RetrievalIndex, query: string, topK = 8): ScoredChunk[] {
+  const terms = Array.from(new Set(tokenize(query)));
+  const n = index.chunks.length;
+  const scored = index.chunks.map((chunk, i) => {
+    const tf = index.termFrequencies[i];
+    const lengthNorm = 1 - BM25_B + BM25_B * (index.lengths[i] / (index.averageLength || 1));
+    const score = terms.reduce((sum, term) => {
+      const freq = tf.get(term);
+      if (!freq) return sum;
+      const df = index.documentFrequency.get(term) || 0;
+      const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+      return sum + idf * (freq * (BM25_K1 + 1)) / (freq + BM25_K1 * lengthNorm);
+    }, 0);
+    return { chunk, score };
+  });
+
+  const ranked = scored.filter(s => s.score > 0).sort((a, b) => b.score - a.score).slice(0, topK);
+  // Nothing matched lexically: fall back to document openings rather than an empty prompt
+  return ranked.length > 0 ? ranked : scored.slice(0, topK);
+}
+
+export const formatChunkHeader = (chunk: DocumentChunk) =>
+  `[CHUNK ${chunk.id}] FILE: ${chunk.fileName}${chunk.page !== null ? ` (page ${chunk.page})` : ''}`;
+
+export function formatChunksForPrompt(results: ScoredChunk[]): string {
+  return results.map(({ chunk }) => `${formatChunkHeader(chunk)}\n${chunk.text}`).join('\n\n');
+}
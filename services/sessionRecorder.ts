@@ -0,0 +1,70 @@
+import { encodeWav } from "./audio";
+
+/**
+ * Captures both sides of a Live practice session and mixes them into one
+ * mono track. The mic arrives as a continuous 16kHz stream; buyer audio
+ * arrives as 24kHz chunks scheduled at known offsets on the output clock.
+ */
+
+export const MIC_SAMPLE_RATE = 16000;
+export const MODEL_SAMPLE_RATE = 24000;
+
+interface ModelSegment {
+  at: number; // seconds from session start
+  samples: Int16Array;
+}
+
+export class SessionRecorder {
+  private micChunks: Int16Array[] = [];
+  private micLength = 0;
+  private segments: ModelSegment[] = [];
+
+  addMic(chunk: Int16Array) {
+    this.micChunks.push(chunk.slice());
+    this.micLength += chunk.length;
+  }
+
+  addModel(samples: Int16Array, atSeconds: number) {
+    this.segments.push({ at: Math.max(0, atSeconds), samples: samples.slice() });
+  }
+
+  /** The buyer was cut off: drop audio that was queued but never played. */
+  interruptModel(atSeconds: number) {
+    this.segments = this.segments
+      .filter(s => s.at < atSeconds)
+      .map(s => {
+        const played = Math.floor((atSeconds - s.at) * MODEL_SAMPLE_RATE);
+        return played < s.samples.length ? { ...s, samples: s.samples.subarray(0, played) } : s;
+      });
+  }
+
+  get durationSeconds(): number {
+    const micEnd = this.micLength / MIC_SAMPLE_RATE;
+    const modelEnd = this.segments.reduce((end, s) => Math.max(end, s.at + s.samples.length / MODEL_SAMPLE_RATE), 0);
+    return Math.max(micEnd, modelEnd);
+  }
+
+  /** Mixes both streams at the model rate, resampling the mic linearly. */
+  toWav(): Blob {
+    const out = new Float32Array(Math.ceil(this.durationSeconds * MODEL_SAMPLE_RATE));
+
+    const mic = new Int16Array(this.micLength);
+    let offset = 0;
+    this.micChunks.forEach(chunk => { mic.set(chunk, offset); offset += chunk.length; });
+    const ratio = MIC_SAMPLE_RATE / MODEL_SAMPLE_RATE;
+    for (let i = 0; i < out.length; i++) {
+      const pos = i * ratio;
+      const idx = Math.floor(pos);
+      if (idx >= mic.length) break;
+      const next = idx + 1 < mic.length ? mic[idx + 1] : mic[idx];
+      out[i] = (mic[idx] + (next - mic[idx]) * (pos - idx)) / 32768;
+    }
+
+    this.segments.forEach(({ at, samples }) => {
+      const start = Math.round(at * MODEL_SAMPLE_RATE);
+      for (let i = 0; i < samples.length && start + i < out.length; i++) out[start + i] += samples[i] / 32768;
+    });
+
+    return encodeWav(out, MODEL_SAMPLE_RATE);
+  }
+}
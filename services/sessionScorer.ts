@@ -0,0 +1,147 @@
+import { AnalysisResult, PracticeTurn, ScorecardItem, ScorecardMoment, SessionScorecard } from "../types";
+import { tokenize } from "./retrieval";
+
+/**
+ * Grades a Live practice transcript against the brief it was rehearsing.
+ * Everything is token-overlap based so the rubric is instant, offline and
+ * explainable: each score comes with the transcript moments behind it.
+ */
+
+const OPENING_TURNS = 2;
+const OPENING_MATCH = 0.45;
+const OBJECTION_RAISED = 0.4;
+const OBJECTION_HANDLED = 0.3;
+const QUESTION_ASKED = 0.5;
+const AVOID_WORD_PENALTY = 25;
+const QUOTE_LENGTH = 160;
+
+const WEIGHTS = { openingLines: 15, objectionHandling: 40, strategicQuestions: 30, toneDiscipline: 15 };
+
+/** Share of the reference statement's terms that appear in the spoken text. */
+const coverage = (spoken: string, reference: string): number => {
+  const wanted = new Set(tokenize(reference));
+  if (wanted.size === 0) return 0;
+  const said = new Set(tokenize(spoken));
+  let hits = 0;
+  wanted.forEach(t => { if (said.has(t)) hits++; });
+  return hits / wanted.size;
+};
+
+const quote = (text: string, around?: number): string => {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (clean.length <= QUOTE_LENGTH) return clean;
+  const start = around === undefined ? 0 : Math.max(0, Math.min(around - QUOTE_LENGTH / 2, clean.length - QUOTE_LENGTH));
+  return `${start > 0 ? '…' : ''}${clean.slice(start, start + QUOTE_LENGTH).trim()}${start + QUOTE_LENGTH < clean.length ? '…' : ''}`;
+};
+
+const percent = (value: number) => Math.round(Math.min(1, value) * 100);
+
+function gradeOpening(turns: PracticeTurn[], analysis: AnalysisResult): ScorecardItem {
+  const base = { criterion: 'openingLines' as const, label: 'Opening Lines', weight: WEIGHTS.openingLines };
+  if (analysis.openingLines.length === 0) return { ...base, score: null, verdict: 'No opening lines in the brief.', moments: [] };
+
+  let best = { score: 0, turn: 0, label: '' };
+  turns.slice(0, OPENING_TURNS).forEach((t, i) => {
+    analysis.openingLines.forEach(line => {
+      const score = coverage(t.user, line.text);
+      if (score > best.score) best = { score, turn: i, label: line.label };
+    });
+  });
+
+  const opener = turns[best.turn];
+  const moments: ScorecardMoment[] = opener?.user.trim()
+    ? [{ turn: best.turn + 1, speaker: 'rep', quote: quote(opener.user), note: best.label ? `Closest to "${best.label}" (${percent(best.score)}% overlap)` : 'Opening statement' }]
+    : [];
+  return {
+    ...base,
+    score: best.score >= OPENING_MATCH ? 100 : percent(best.score / OPENING_MATCH),
+    verdict: best.score >= OPENING_MATCH ? `Used the "${best.label}" opener.` : 'Opened without any of the prepared lines.',
+    moments,
+  };
+}
+
+function gradeObjections(turns: PracticeTurn[], analysis: AnalysisResult): ScorecardItem {
+  const base = { criterion: 'objectionHandling' as const, label: 'Objection Handling', weight: WEIGHTS.objectionHandling };
+  const moments: ScorecardMoment[] = [];
+  const results: number[] = [];
+
+  analysis.objectionHandling.forEach(item => {
+    // The buyer speaks after the rep in each turn, so the reply lands in the following turn
+    const raisedAt = turns.findIndex(t => coverage(t.ai, item.objection) >= OBJECTION_RAISED);
+    if (raisedAt === -1) return;
+    const reply = turns[raisedAt + 1]?.user || '';
+    const handled = Math.max(coverage(reply, item.strategy), coverage(reply, item.exactWording));
+    results.push(Math.min(1, handled / OBJECTION_HANDLED));
+    moments.push({ turn: raisedAt + 1, speaker: 'buyer', quote: quote(turns[raisedAt].ai), note: `Raised: ${item.objection}` });
+    moments.push(reply.trim()
+      ? { turn: raisedAt + 2, speaker: 'rep', quote: quote(reply), note: handled >= OBJECTION_HANDLED ? `Applied: ${item.strategy}` : `Missed strategy: ${item.strategy}` }
+      : { turn: raisedAt + 1, speaker: 'rep', quote: '—', note: 'Session ended before a response' });
+  });
+
+  if (results.length === 0) return { ...base, score: null, verdict: 'The buyer never raised a prepared objection.', moments };
+  const handledCount = results.filter(r => r >= 1).length;
+  return {
+    ...base,
+    score: percent(results.reduce((a, b) => a + b, 0) / results.length),
+    verdict: `Handled ${handledCount} of ${results.length} objection(s) with the recommended strategy.`,
+    moments,
+  };
+}
+
+function gradeQuestions(turns: PracticeTurn[], analysis: AnalysisResult): ScorecardItem {
+  const base = { criterion: 'strategicQuestions' as const, label: 'Strategic Questions', weight: WEIGHTS.strategicQuestions };
+  if (analysis.strategicQuestionsToAsk.length === 0) return { ...base, score: null, verdict: 'No strategic questions in the brief.', moments: [] };
+
+  const moments: ScorecardMoment[] = [];
+  let asked = 0;
+  analysis.strategicQuestionsToAsk.forEach(q => {
+    let best = { score: 0, turn: -1 };
+    turns.forEach((t, i) => {
+      const score = coverage(t.user, q.question);
+      if (score > best.score) best = { score, turn: i };
+    });
+    if (best.score >= QUESTION_ASKED) {
+      asked++;
+      moments.push({ turn: best.turn + 1, speaker: 'rep', quote: quote(turns[best.turn].user), note: `Asked: ${q.question}` });
+    }
+  });
+  return {
+    ...base,
+    score: percent(asked / analysis.strategicQuestionsToAsk.length),
+    verdict: `Asked ${asked} of ${analysis.strategicQuestionsToAsk.length} prepared question(s).`,
+    moments,
+  };
+}
+
+function gradeTone(turns: PracticeTurn[], analysis: AnalysisResult): ScorecardItem {
+  const base = { criterion: 'toneDiscipline' as const, label: 'Tone Discipline', weight: WEIGHTS.toneDiscipline };
+  const moments: ScorecardMoment[] = [];
+  analysis.toneGuidance.wordsToAvoid.filter(w => w.trim()).forEach(word => {
+    const pattern = new RegExp(`\\b${word.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i');
+    turns.forEach((t, i) => {
+      const match = pattern.exec(t.user);
+      if (match) moments.push({ turn: i + 1, speaker: 'rep', quote: quote(t.user, match.index), note: `Used avoided word "${word}"` });
+    });
+  });
+  return {
+    ...base,
+    score: Math.max(0, 100 - moments.length * AVOID_WORD_PENALTY),
+    verdict: moments.length === 0 ? 'Avoided every flagged word.' : `${moments.length} use(s) of words the brief says to avoid.`,
+    moments,
+  };
+}
+
+export function scorePracticeSession(transcript: PracticeTurn[], analysis: AnalysisResult): SessionScorecard {
+  const turns = transcript.filter(t => t.user.trim() || t.ai.trim());
+  const items = [
+    gradeOpening(turns, analysis),
+    gradeObjections(turns, analysis),
+    gradeQuestions(turns, analysis),
+    gradeTone(turns, analysis),
+  ];
+  // Criteria the session never exercised are left out rather than scored as zero
+  const graded = items.filter(i => i.score !== null);
+  const totalWeight = graded.reduce((sum, i) => sum + i.weight, 0);
+  const overallScore = totalWeight > 0 ? Math.round(graded.reduce((sum, i) => sum + i.score! * i.weight, 0) / totalWeight) : 0;
+  return { overallScore, items, turnCount: turns.length };
+}
@@ -0,0 +1,88 @@
+import { ModelPrice, TokenUsage, UsageOperation, UsageRecord } from "../types";
+
+/**
+ * Token accounting for model calls. geminiService and the live practice
+ * session publish one record per call, tagged with the workspace that was
+ * open when the call started; the app stores each with that workspace.
+ * Records keep raw token counts and are priced when displayed, so editing
+ * the price table re-prices the whole history.
+ */
+
+type Listener = (record: UsageRecord) => void;
+
+const listeners = new Set<Listener>();
+
+let activeWorkspaceId: string | undefined;
+
+export const setUsageWorkspace = (id: string | undefined) => { activeWorkspaceId = id; };
+
+export const usageWorkspace = () => activeWorkspaceId;
+
+export function subscribeToUsage(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+export function recordUsage(entry: Omit<UsageRecord, 'id' | 'createdAt'>) {
+  const record: UsageRecord = { ...entry, id: crypto.randomUUID(), createdAt: Date.now() };
+  listeners.forEach(listener => listener(record));
+}
+
+// Rough English average; good enough for a pre-run estimate, never used for recorded usage
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+/** USD cost of a call, or null when the model has no entry in the price table. */
+export function costOf(usage: TokenUsage, prices: ModelPrice[]): number | null {
+  const price = prices.find(p => p.model === usage.model);
+  if (!price) return null;
+  return (usage.inputTokens * price.inputPerMillion + (usage.outputTokens + usage.thinkingTokens) * price.outputPerMillion) / 1e6;
+}
+
+export interface UsageGroup {
+  key: string;
+  operation: UsageOperation;
+  detail?: string;
+  startedAt: number;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+  latencyMs: number;
+  cost: number;
+  // Some calls used a model missing from the price table, so the cost is a lower bound
+  unpriced: boolean;
+}
+
+/** Folds records into one row per analysis run or practice session, and one per standalone call; newest first. */
+export function groupUsage(records: UsageRecord[], prices: ModelPrice[]): UsageGroup[] {
+  const groups = new Map<string, UsageGroup>();
+  records.forEach(record => {
+    const key = record.runId ?? record.id;
+    const group = groups.get(key) ?? {
+      key,
+      operation: record.operation,
+      detail: record.detail,
+      startedAt: record.createdAt,
+      calls: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      thinkingTokens: 0,
+      latencyMs: 0,
+      cost: 0,
+      unpriced: false,
+    };
+    const cost = costOf(record, prices);
+    groups.set(key, {
+      ...group,
+      startedAt: Math.min(group.startedAt, record.createdAt),
+      calls: group.calls + 1,
+      inputTokens: group.inputTokens + record.inputTokens,
+      outputTokens: group.outputTokens + record.outputTokens,
+      thinkingTokens: group.thinkingTokens + record.thinkingTokens,
+      latencyMs: group.latencyMs + record.latencyMs,
+      cost: group.cost + (cost ?? 0),
+      unpriced: group.unpriced || cost === null,
+    });
+  });
+  return [...groups.values()].sort((a, b) => b.startedAt - a.startedAt);
+}
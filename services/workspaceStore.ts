@@ -0,0 +1,163 @@
+import { AnalysisRecord, CognitiveSearchResult, DealWorkspace, MeetingContext, PracticeRecording, SearchThread, UsageRecord } from "../types";
+import { DEFAULT_MEETING_CONTEXT } from "../constants";
+
+/**
+ * IndexedDB persistence for deal workspaces. Each workspace is stored as a
+ * single record keyed by id so a refresh never discards OCR or analysis runs.
+ * Practice recordings live in their own store so autosave never rewrites audio.
+ */
+
+const DB_NAME = 'cognitive-sales';
+const DB_VERSION = 2;
+const WORKSPACE_STORE = 'workspaces';
+const RECORDING_STORE = 'recordings';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(WORKSPACE_STORE)) {
+          db.createObjectStore(WORKSPACE_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(RECORDING_STORE)) {
+          db.createObjectStore(RECORDING_STORE, { keyPath: 'id' }).createIndex('workspaceId', 'workspaceId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName = WORKSPACE_STORE
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Older analyses predate the configurable roster (fixed cognigy/amelia keys) and the buying committee
+const upgradeAnalysisRecord = (record: AnalysisRecord): AnalysisRecord => {
+  const hub: any = record.result.competitiveHub;
+  const hasRoster = Array.isArray(hub?.competitors);
+  const hasCommittee = Array.isArray(record.result.buyingCommittee);
+  if (hasRoster && hasCommittee) return record;
+  const { cognigy, amelia, others = [] } = hub || {};
+  return {
+    ...record,
+    result: {
+      ...record.result,
+      competitiveHub: hasRoster ? hub : { competitors: [cognigy, amelia].filter(Boolean), others },
+      buyingCommittee: hasCommittee ? record.result.buyingCommittee : [],
+    },
+  };
+};
+
+// Single-shot searches saved before threads become one-turn threads
+const upgradeSearchHistory = (history: { id: string; createdAt: number; query: string; result: CognitiveSearchResult }[] = []): SearchThread[] =>
+  history.map(record => ({
+    id: record.id,
+    createdAt: record.createdAt,
+    updatedAt: record.createdAt,
+    title: record.query,
+    turns: [{ id: record.id, createdAt: record.createdAt, question: record.query, result: record.result }],
+  }));
+
+const upgradeWorkspace = (workspace: DealWorkspace): DealWorkspace => ({
+  ...workspace,
+  meetingContext: {
+    ...workspace.meetingContext,
+    competitors: workspace.meetingContext.competitors ?? DEFAULT_MEETING_CONTEXT.competitors,
+    stakeholders: workspace.meetingContext.stakeholders ?? DEFAULT_MEETING_CONTEXT.stakeholders,
+    redaction: workspace.meetingContext.redaction ?? DEFAULT_MEETING_CONTEXT.redaction,
+    costControls: workspace.meetingContext.costControls ?? DEFAULT_MEETING_CONTEXT.costControls,
+  },
+  analyses: workspace.analyses.map(upgradeAnalysisRecord),
+  usage: workspace.usage ?? [],
+  searchThreads: workspace.searchThreads ?? upgradeSearchHistory((workspace as any).searchHistory),
+});
+
+export function createWorkspace(name: string, meetingContext: MeetingContext): DealWorkspace {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    files: [],
+    meetingContext,
+    analyses: [],
+    searchThreads: [],
+    usage: [],
+  };
+}
+
+export async function listWorkspaces(): Promise<DealWorkspace[]> {
+  const all = await withStore<DealWorkspace[]>('readonly', store => store.getAll());
+  return all.map(upgradeWorkspace).sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getWorkspace(id: string): Promise<DealWorkspace | undefined> {
+  const workspace = await withStore<DealWorkspace | undefined>('readonly', store => store.get(id));
+  return workspace && upgradeWorkspace(workspace);
+}
+
+export async function saveWorkspace(workspace: DealWorkspace): Promise<DealWorkspace> {
+  const record: DealWorkspace = {
+    ...workspace,
+    // Files still mid-extraction cannot be resumed after a reload
+    files: workspace.files.filter(f => f.status !== 'processing' && f.status !== 'ocr'),
+    updatedAt: Date.now(),
+  };
+  await withStore('readwrite', store => store.put(record));
+  return record;
+}
+
+/** Adds a usage record to a workspace that is not open; read and write share one transaction so concurrent appends never drop a record. */
+export async function appendUsage(id: string, record: UsageRecord): Promise<void> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(WORKSPACE_STORE, 'readwrite');
+    const store = transaction.objectStore(WORKSPACE_STORE);
+    const request = store.get(id);
+    // A workspace deleted while the call was running has nowhere to keep the record
+    request.onsuccess = () => {
+      if (request.result) store.put({ ...request.result, usage: [...(request.result.usage ?? []), record] });
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function deleteWorkspace(id: string): Promise<void> {
+  const recordings = await listRecordings(id);
+  await Promise.all(recordings.map(r => deleteRecording(r.id)));
+  await withStore('readwrite', store => store.delete(id));
+}
+
+export async function listRecordings(workspaceId: string): Promise<PracticeRecording[]> {
+  const all = await withStore<PracticeRecording[]>('readonly', store => store.index('workspaceId').getAll(workspaceId), RECORDING_STORE);
+  return all.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function saveRecording(recording: PracticeRecording): Promise<void> {
+  await withStore('readwrite', store => store.put(recording), RECORDING_STORE);
+}
+
+export async function deleteRecording(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id), RECORDING_STORE);
+}
@@ -1,7 +1,20 @@
 
+export type CitationStatus = 'verified' | 'approximate' | 'unverified';
+
+export interface CitationMatch {
+  status: CitationStatus;
+  // File the passage was actually found in (may differ from the cited name)
+  fileName: string | null;
+  page: number | null;
+  start: number;
+  end: number;
+  score: number;
+}
+
 export interface Citation {
   snippet: string;
   sourceFile: string;
+  match?: CitationMatch;
 }
 
 export interface PriorityItem {
@@ -67,6 +80,21 @@ export interface BuyerSnapshot {
   decisionLogic: string;
 }
 
+export type StakeholderAttitude = 'Champion' | 'Supporter' | 'Neutral' | 'Skeptic' | 'Blocker';
+
+export interface StakeholderInsight {
+  name: string;
+  title: string;
+  // e.g. Economic Buyer, Technical Evaluator, End User, Gatekeeper
+  committeeRole: string;
+  influence: number; // 0-100
+  attitude: StakeholderAttitude;
+  snapshot: BuyerSnapshot;
+  openingLines: OpeningLine[];
+  talkingPoints: string[];
+  citation: Citation;
+}
+
 export interface QuestionPair {
   customerAsks: string;
   salespersonShouldRespond: string;
@@ -102,6 +130,12 @@ export interface MatrixItem {
   evidence: Citation;
 }
 
+export interface AnalysisRepair {
+  section: string;
+  path: string;
+  issue: string;
+}
+
 export interface AnalysisResult {
   snapshot: BuyerSnapshot;
   documentInsights: {
@@ -111,9 +145,12 @@ export interface AnalysisResult {
     materialSynthesis: string;
   };
   groundMatrix: MatrixItem[];
+  // One entry per stakeholder from MeetingContext.stakeholders plus any found in the documents
+  buyingCommittee: StakeholderInsight[];
   competitiveHub: {
-    cognigy: CompetitorInsight;
-    amelia: CompetitorInsight;
+    // One entry per competitor in MeetingContext.competitors, in roster order
+    competitors: CompetitorInsight[];
+    // Additional competitors surfaced from the documents
     others: CompetitorInsight[];
   };
   openingLines: OpeningLine[];
@@ -137,6 +174,120 @@ export interface AnalysisResult {
     technicalDiscussion: string;
     productIntegration: string;
   };
+  // Populated by the runtime validator when model output needed repair
+  validation?: {
+    repairedSections: string[];
+    repairs: AnalysisRepair[];
+  };
+}
+
+export type AnalysisSection = Exclude<keyof AnalysisResult, 'validation'>;
+
+// Per-input fingerprints used to decide which sections a re-run must rebuild
+export interface AnalysisInputs {
+  files: Record<string, string>;
+  context: Partial<Record<keyof MeetingContext, string>>;
+}
+
+export interface SectionUpdateRequest {
+  // "sections" rebuilds from all documents; "merge" folds new documents into the previous brief
+  mode: 'sections' | 'merge';
+  sections: AnalysisSection[];
+  filesContent: string;
+  context: MeetingContext;
+  previous: AnalysisResult;
+}
+
+export interface StagedSectionRequest {
+  sections: AnalysisSection[];
+  filesContent: string;
+  context: MeetingContext;
+  // Sections produced by earlier stages, so later stages stay consistent with them
+  completed: Partial<AnalysisResult>;
+}
+
+export interface AnalysisStage {
+  label: string;
+  sections: AnalysisSection[];
+  status: JobStatus;
+  error?: string;
+}
+
+export interface CognitiveSearchResult {
+  answer: string;
+  briefExplanation: string;
+  articularSoundbite: string;
+  psychologicalProjection: {
+    buyerFear: string;
+    buyerIncentive: string;
+    strategicLever: string;
+  };
+  citations: { snippet: string; source: string; chunkId?: string; match?: CitationMatch }[];
+  reasoningChain: {
+    painPoint: string;
+    capability: string;
+    strategicValue: string;
+  };
+  // Questions that build on this answer; absent on answers saved before threads
+  followUps?: string[];
+}
+
+export interface SearchRequest {
+  question: string;
+  filesContent: string;
+  context: MeetingContext;
+  // Earlier turns of the thread, oldest first; empty for a fresh inquiry
+  history: SearchTurn[];
+}
+
+export interface DocumentChunk {
+  id: string;
+  fileName: string;
+  page: number | null;
+  heading: string | null;
+  text: string;
+  // Character offsets into UploadedFile.content
+  start: number;
+  end: number;
+}
+
+export interface ExtractedTable {
+  // "Table N", also the caption line above the table in the file content
+  label: string;
+  page: number | null;
+  headers: string[];
+  rows: string[][];
+}
+
+export type OcrEngine = 'vision' | 'local' | 'hybrid';
+
+export interface OcrPageResult {
+  page: number;
+  // Engine whose text was kept for this page
+  engine: 'vision' | 'local';
+  // Tesseract's 0-100 score; null when only the vision model read the page
+  confidence: number | null;
+}
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'error' | 'cancelled';
+
+export interface PageJob {
+  page: number;
+  status: JobStatus;
+  // Kept from earlier attempts so a retried or resumed job skips finished pages
+  text: string;
+  result?: OcrPageResult;
+  error?: string;
+}
+
+export interface ProcessingJob {
+  id: string;
+  fileName: string;
+  status: JobStatus;
+  stage: string;
+  progress: number; // 0-100
+  pages: PageJob[];
+  error?: string;
 }
 
 export interface UploadedFile {
@@ -144,12 +295,56 @@ export interface UploadedFile {
   content: string;
   type: string;
   status: 'processing' | 'ready' | 'error' | 'ocr';
+  tables?: ExtractedTable[];
+  ocrPages?: OcrPageResult[];
+}
+
+export interface CompetitorProfile {
+  name: string;
+  websiteNotes: string;
+  knownWeaknesses: string[];
+}
+
+export interface StakeholderProfile {
+  name: string;
+  title: string;
+  notes: string;
 }
 
 export type CustomerPersonaType = 'Balanced' | 'Technical' | 'Financial' | 'Business Executives';
 
 export type ThinkingLevel = 'Minimal' | 'Low' | 'Medium' | 'High';
 
+export type RedactionKind = 'email' | 'phone' | 'money' | 'name' | 'custom';
+
+export interface RedactionSettings {
+  enabled: boolean;
+  // Built-in detectors to run; custom patterns always run when enabled
+  kinds: Exclude<RedactionKind, 'custom'>[];
+  customPatterns: string[];
+}
+
+export interface RedactionEntry {
+  placeholder: string;
+  kind: RedactionKind;
+  value: string;
+  // Occurrences per source (file name, or "Meeting Context")
+  sources: Record<string, number>;
+}
+
+export interface ModelPrice {
+  model: string;
+  // USD per million tokens; thinking tokens are billed as output
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export interface CostSettings {
+  // Estimated spend above which a run asks for confirmation; 0 disables the warning
+  budgetPerRun: number;
+  prices: ModelPrice[];
+}
+
 export interface MeetingContext {
   sellerCompany: string;
   sellerNames: string;
@@ -162,7 +357,135 @@ export interface MeetingContext {
   answerStyles: string[];
   executiveSnapshot: string;
   strategicKeywords: string[];
+  competitors: CompetitorProfile[];
+  stakeholders: StakeholderProfile[];
+  redaction: RedactionSettings;
+  costControls: CostSettings;
   baseSystemPrompt: string;
   thinkingLevel: ThinkingLevel;
   temperature: number;
 }
+
+export interface AnalysisRecord {
+  id: string;
+  createdAt: number;
+  inputHash: string;
+  inputs?: AnalysisInputs;
+  // Set on incremental runs: the record this one was built from and what was rebuilt
+  baseId?: string;
+  regeneratedSections?: AnalysisSection[];
+  // Sections whose stage failed; they hold placeholders until a later run rebuilds them
+  failedSections?: AnalysisSection[];
+  result: AnalysisResult;
+}
+
+export interface SearchTurn {
+  id: string;
+  createdAt: number;
+  question: string;
+  result: CognitiveSearchResult;
+}
+
+export interface SearchThread {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  title: string;
+  turns: SearchTurn[];
+  // Set on forks: the thread and turn this one branched from
+  forkedFrom?: { threadId: string; turnId: string };
+}
+
+export interface PracticeTurn {
+  user: string;
+  ai: string;
+  // Seconds from session start, used to sync replay with the recording
+  start?: number;
+  end?: number;
+}
+
+export type BuyerDifficulty = 'Friendly' | 'Skeptical' | 'Hostile';
+
+export type InterruptionFrequency = 'Never' | 'Occasional' | 'Frequent';
+
+export interface RoleplaySettings {
+  difficulty: BuyerDifficulty;
+  // Texts from snapshot.likelyObjections the buyer must raise; empty lets the buyer choose
+  requiredObjections: string[];
+  interruptionFrequency: InterruptionFrequency;
+  voiceName: string;
+  // A buyingCommittee member to play; null plays the primary buyer snapshot
+  stakeholderName: string | null;
+}
+
+export type ScorecardCriterion = 'openingLines' | 'objectionHandling' | 'strategicQuestions' | 'toneDiscipline';
+
+export interface ScorecardMoment {
+  turn: number;
+  speaker: 'rep' | 'buyer';
+  quote: string;
+  note: string;
+}
+
+export interface ScorecardItem {
+  criterion: ScorecardCriterion;
+  label: string;
+  // null when the session never gave the rep a chance to be graded on it
+  score: number | null;
+  weight: number;
+  verdict: string;
+  moments: ScorecardMoment[];
+}
+
+export interface SessionScorecard {
+  overallScore: number;
+  items: ScorecardItem[];
+  turnCount: number;
+}
+
+export interface PracticeRecording {
+  id: string;
+  workspaceId: string;
+  createdAt: number;
+  buyerLabel: string;
+  settings: RoleplaySettings;
+  durationSeconds: number;
+  transcript: PracticeTurn[];
+  scorecard: SessionScorecard | null;
+  // Mono 24kHz WAV with the rep's mic and the buyer's voice mixed together
+  audio: Blob;
+}
+
+export interface DealWorkspace {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  files: UploadedFile[];
+  meetingContext: MeetingContext;
+  analyses: AnalysisRecord[];
+  searchThreads: SearchThread[];
+  usage: UsageRecord[];
+}
+
+export type UsageOperation = 'analysis' | 'search' | 'ocr' | 'audio' | 'explanation' | 'suggestions' | 'practice';
+
+export interface TokenUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+}
+
+export interface UsageRecord extends TokenUsage {
+  id: string;
+  createdAt: number;
+  operation: UsageOperation;
+  // Groups the calls of one analysis run or practice session; single calls have none
+  runId?: string;
+  // Short description such as the search question or OCR file name
+  detail?: string;
+  // Workspace that was open when the call started
+  workspaceId?: string;
+  latencyMs: number;
+}
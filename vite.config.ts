@@ -8,11 +8,14 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // Model calls and live sessions go through the local proxy (npm run server), which holds the API key
+        proxy: {
+          '/api': { target: `http://localhost:${env.PROXY_PORT || 8787}`, ws: true },
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.LLM_PROVIDER': JSON.stringify(env.LLM_PROVIDER || 'proxy')
       },
       resolve: {
         alias: {